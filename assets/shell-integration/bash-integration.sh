@@ -0,0 +1,73 @@
+# CommandCanvas shell integration for bash.
+#
+# Loaded with `bash --init-file`. Runs the user's usual startup files, then
+# reports prompt and command boundaries with OSC 133 escape sequences:
+#   A = prompt start, B = prompt end (input start),
+#   C = command output start, D;<exit code> = command finished
+# plus the working directory as OSC 7 (file://<host><path>, the path
+# percent-encoded) before each prompt.
+
+if [ -n "$COMMANDCANVAS_SHELL_LOGIN" ]; then
+  unset COMMANDCANVAS_SHELL_LOGIN
+  [ -r /etc/profile ] && . /etc/profile
+  if [ -r "$HOME/.bash_profile" ]; then
+    . "$HOME/.bash_profile"
+  elif [ -r "$HOME/.bash_login" ]; then
+    . "$HOME/.bash_login"
+  elif [ -r "$HOME/.profile" ]; then
+    . "$HOME/.profile"
+  fi
+else
+  [ -r /etc/bash.bashrc ] && . /etc/bash.bashrc
+  [ -r "$HOME/.bashrc" ] && . "$HOME/.bashrc"
+fi
+
+# PS0 (used to detect command start) needs bash 4.4+
+if [ -z "$__commandcanvas_installed" ] &&
+   (( BASH_VERSINFO[0] > 4 || (BASH_VERSINFO[0] == 4 && BASH_VERSINFO[1] >= 4) )); then
+  __commandcanvas_installed=1
+  __commandcanvas_ran=
+
+  # PROMPT_COMMAND may be an array since bash 5.1; keep all of its entries
+  __commandcanvas_user_prompt_command=$(IFS=';'; printf '%s' "${PROMPT_COMMAND[*]}")
+  unset PROMPT_COMMAND
+
+  # Percent-encode a path for an OSC 7 URL, byte by byte
+  __commandcanvas_urlencode() {
+    local LC_ALL=C dir=$1 encoded= char i
+    for (( i = 0; i < ${#dir}; i++ )); do
+      char=${dir:i:1}
+      case $char in
+        [-/._~A-Za-z0-9]) encoded+=$char ;;
+        *) printf -v char '%%%02X' "'$char"; encoded+=$char ;;
+      esac
+    done
+    printf '%s' "$encoded"
+  }
+
+  __commandcanvas_precmd() {
+    local ret=$?
+    if [ -n "$__commandcanvas_ran" ]; then
+      printf '\033]133;D;%s\007' "$ret"
+      __commandcanvas_ran=
+    fi
+    printf '\033]7;file://%s%s\007' "$HOSTNAME" "$(__commandcanvas_urlencode "$PWD")"
+    printf '\033]133;A\007'
+    if [ -n "$__commandcanvas_user_prompt_command" ]; then
+      (exit "$ret")
+      eval "$__commandcanvas_user_prompt_command"
+    fi
+    # Re-append the end marker in case the user's prompt command rebuilt PS1
+    case "$PS1" in
+      *'133;B'*) ;;
+      *) PS1="$PS1"'\[\033]133;B\007\]' ;;
+    esac
+    return "$ret"
+  }
+
+  PROMPT_COMMAND='__commandcanvas_precmd'
+
+  # The array subscript is evaluated as arithmetic when PS0 is expanded,
+  # which flags that a command (not just an empty line) is about to run
+  PS0='${__commandcanvas_unused[__commandcanvas_ran=1]}\033]133;C\007'"$PS0"
+fi
@@ -0,0 +1,34 @@
+# CommandCanvas shell integration for fish.
+#
+# Loaded with `fish --init-command 'source ...'`, after the user's config.
+# Reports prompt and command boundaries with OSC 133 escape sequences:
+#   A = prompt start, B = prompt end (input start),
+#   C = command output start, D;<exit code> = command finished
+# plus the working directory as OSC 7 (file://<host><path>, the path
+# percent-encoded) before each prompt.
+
+if status is-interactive; and not set -q __commandcanvas_installed
+    set -g __commandcanvas_installed 1
+
+    function __commandcanvas_prompt_start --on-event fish_prompt
+        printf '\e]7;file://%s%s\a' $hostname (string escape --style=url -- $PWD)
+        printf '\e]133;A\a'
+    end
+
+    function __commandcanvas_preexec --on-event fish_preexec
+        printf '\e]133;C\a'
+    end
+
+    function __commandcanvas_postexec --on-event fish_postexec
+        printf '\e]133;D;%s\a' $status
+    end
+
+    # Wrap the prompt so the end marker follows whatever it prints
+    if functions -q fish_prompt
+        functions --copy fish_prompt __commandcanvas_user_fish_prompt
+        function fish_prompt
+            __commandcanvas_user_fish_prompt
+            printf '\e]133;B\a'
+        end
+    end
+end
@@ -13,6 +13,7 @@ const config: ForgeConfig = {
     icon: path.resolve(__dirname, 'assets', 'icon'),
     extraResource: [
       path.resolve(__dirname, 'assets', 'animations'),
+      path.resolve(__dirname, 'assets', 'shell-integration'),
     ],
     asar: {
       unpack: '**/node_modules/node-pty/**',
@@ -0,0 +1,688 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  AppConfig,
+  CategoryDefinition,
+  CommandDefinition,
+  CommandExecutionMode,
+  CommandPack,
+  CommandPackEntry,
+  CommandPackError,
+  CommandPackImportResult,
+  CommandPackSection,
+  CommandVariable,
+  ProjectCommandFile,
+  ProjectCommandFileTrust,
+  WarningCondition,
+  WarningMatcher,
+  WarningPathScope,
+  WarningRule,
+} from '../shared/types';
+import { applyPlacements, DEFAULT_COMMANDS, getNextOrder, mergeCommands } from '../shared/default-commands';
+import { getDetectorCommands, resolveDetectors } from '../shared/project-detectors';
+import { parseYaml, stringifyYaml } from './yaml';
+
+/**
+ * Command packs are files for sharing commands between people and
+ * machines: custom commands, the user-defined categories they sit in and
+ * warning rules, as JSON or YAML (chosen by file extension).
+ *
+ * Reading a pack validates every entry on its own; invalid entries are
+ * reported with their position and left out, the rest can still be
+ * imported. Before an import is applied, previewImport() lists each entry
+ * with the ID conflict it would cause, and the user chooses per entry to
+ * skip it, overwrite the existing entry or import it under a new ID.
+ * Overwriting a built-in command adds a custom command with its ID, which
+ * replaces it through mergeCommands(); built-in categories and warning
+ * rules cannot be overwritten.
+ *
+ * A repository can also check in a pack as .commandcanvas.json or
+ * .commandcanvas/commands.yaml. ProjectDetector reads it with
+ * readProjectCommandFile(); its entries are used as a project layer on
+ * top of the config, never imported into it, and only while the user's
+ * approval matches the file's current hash (see getCommandFileTrust()).
+ */
+
+/** Version of the pack format written by this app; newer files are refused */
+export const COMMAND_PACK_VERSION = 1;
+
+/** Pack files larger than this are not read */
+export const MAX_PACK_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Command files a repository can check in, relative to a project
+ * directory; the first one found is used.
+ */
+export const PROJECT_COMMAND_FILES = ['.commandcanvas.json', path.join('.commandcanvas', 'commands.yaml')];
+
+/** File syntax of a command pack */
+export type CommandPackFormat = 'json' | 'yaml';
+
+/** Built-in entries a pack's IDs can collide with */
+export interface BuiltInEntries {
+  commands: CommandDefinition[];
+  categories: string[];
+  warningRules: string[];
+}
+
+const EXECUTION_MODES: CommandExecutionMode[] = ['insert', 'run', 'confirm'];
+
+const RISK_LEVELS: WarningRule['riskLevel'][] = ['low', 'medium', 'high', 'critical'];
+
+const PATH_SCOPES: WarningPathScope[] = ['repo', 'temp'];
+
+/** Categories that always exist besides the project detectors' */
+const FIXED_CATEGORIES = ['custom', 'scripts'];
+
+// ============================================================
+// Reading and writing pack files
+// ============================================================
+
+/**
+ * The syntax of a pack file: YAML for .yaml and .yml, JSON otherwise.
+ */
+export function getPackFormat(filePath: string): CommandPackFormat {
+  return /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+}
+
+/**
+ * Parse and validate the content of a pack file.
+ *
+ * @returns The pack's valid entries, or null when the file is not a usable
+ *          pack at all, and every problem found
+ */
+export function readCommandPack(
+  content: string,
+  format: CommandPackFormat
+): { pack: CommandPack | null; errors: CommandPackError[] } {
+  let data: unknown;
+  try {
+    data = format === 'yaml' ? parseYaml(content) : JSON.parse(content);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { pack: null, errors: [fileError(`Not valid ${format === 'yaml' ? 'YAML' : 'JSON'}: ${message}`)] };
+  }
+  return validateCommandPack(data);
+}
+
+/**
+ * Read and validate a pack file from disk.
+ *
+ * @returns The file content, or null when it could not be read, with the
+ *          pack and errors as from readCommandPack()
+ */
+export async function readPackFile(
+  filePath: string
+): Promise<{ content: string | null; pack: CommandPack | null; errors: CommandPackError[] }> {
+  let content: string;
+  try {
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_PACK_FILE_SIZE) {
+      throw new Error(`the file is larger than ${MAX_PACK_FILE_SIZE / 1024} KB`);
+    }
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { content: null, pack: null, errors: [fileError(`Could not read the file: ${message}`)] };
+  }
+  return { content, ...readCommandPack(content, getPackFormat(filePath)) };
+}
+
+/**
+ * Write a pack as the content of a JSON or YAML file.
+ */
+export function serializeCommandPack(pack: CommandPack, format: CommandPackFormat): string {
+  return format === 'yaml' ? stringifyYaml(pack) : JSON.stringify(pack, null, 2) + '\n';
+}
+
+/**
+ * Build a pack from the user's custom commands, as placed in the command
+ * panel. A category export holds its custom commands and, for a
+ * user-defined category, its definition; a full export holds every custom
+ * command, user-defined category and custom warning rule.
+ *
+ * @param category - Category to export, or null for everything
+ */
+export function buildCommandPack(config: AppConfig, name: string, category: string | null): CommandPack {
+  const commands = applyPlacements(config.customCommands, config.commandPlacements)
+    .filter((cmd) => category === null || cmd.category === category);
+
+  return {
+    version: COMMAND_PACK_VERSION,
+    name,
+    description: '',
+    commands,
+    categories: config.categories.userDefined.filter((other) => category === null || other.id === category),
+    warningRules: category === null ? config.warnings.customRules : [],
+  };
+}
+
+// ============================================================
+// Repository command files
+// ============================================================
+
+/**
+ * Read a repository's command file. A pack without a name is named after
+ * the project directory. The trust is 'new' until the result is checked
+ * against the approved files with getCommandFileTrust().
+ *
+ * @param directory - The project directory the file was found in
+ * @param file - The file, one of PROJECT_COMMAND_FILES
+ */
+export async function readProjectCommandFile(directory: string, file: string): Promise<ProjectCommandFile> {
+  const filePath = path.join(directory, file);
+  const { content, pack, errors } = await readPackFile(filePath);
+  if (pack && !pack.name) {
+    pack.name = path.basename(directory);
+  }
+  return {
+    filePath,
+    directory,
+    hash: content === null ? '' : createHash('sha256').update(content).digest('hex'),
+    trust: 'new',
+    pack,
+    errors,
+  };
+}
+
+/**
+ * Whether the user approved a command file's current content.
+ *
+ * @param trusted - Approved content hashes by file path
+ *                  (`projectDetection.trustedCommandFiles`)
+ */
+export function getCommandFileTrust(
+  file: ProjectCommandFile,
+  trusted: Record<string, string> | undefined
+): ProjectCommandFileTrust {
+  const approvedHash = trusted?.[file.filePath];
+  if (typeof approvedHash !== 'string') {
+    return 'new';
+  }
+  return file.hash !== '' && approvedHash === file.hash ? 'approved' : 'changed';
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * Validate parsed pack data. Entries are checked one by one; each invalid
+ * entry, and each repeated ID, becomes an error and is left out.
+ */
+export function validateCommandPack(data: unknown): { pack: CommandPack | null; errors: CommandPackError[] } {
+  if (!isObject(data)) {
+    return { pack: null, errors: [fileError('The file does not contain a command pack')] };
+  }
+
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { pack: null, errors: [fileError('"version" must be a whole number of 1 or more')] };
+  }
+  if (data.version > COMMAND_PACK_VERSION) {
+    return {
+      pack: null,
+      errors: [fileError(`The pack is format version ${data.version}; this version of the app reads up to ${COMMAND_PACK_VERSION}`)],
+    };
+  }
+
+  const errors: CommandPackError[] = [];
+  if (data.name !== undefined && typeof data.name !== 'string') {
+    errors.push(fileError('"name" must be text'));
+  }
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.push(fileError('"description" must be text'));
+  }
+
+  const pack: CommandPack = {
+    version: data.version,
+    name: typeof data.name === 'string' ? data.name.trim() : '',
+    description: typeof data.description === 'string' ? data.description.trim() : '',
+    commands: readSection(data, 'commands', validateCommand, errors),
+    categories: readSection(data, 'categories', validateCategory, errors),
+    warningRules: readSection(data, 'warningRules', validateWarningRule, errors),
+  };
+
+  return { pack, errors };
+}
+
+/**
+ * Validate the entries of one section. A validator returns the entry, or
+ * a message saying what is wrong with it.
+ */
+function readSection<T extends { id: string }>(
+  data: Record<string, unknown>,
+  section: CommandPackSection,
+  validate: (fields: Record<string, unknown>, index: number) => T | string,
+  errors: CommandPackError[]
+): T[] {
+  const raw = data[section];
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    errors.push({ section, index: null, id: null, message: `"${section}" must be a list` });
+    return [];
+  }
+
+  const entries: T[] = [];
+  const seen = new Set<string>();
+  raw.forEach((fields: unknown, index) => {
+    const id = isObject(fields) && typeof fields.id === 'string' ? fields.id : null;
+    const result = isObject(fields) ? validate(fields, index) : 'Each entry must be a mapping of fields';
+    if (typeof result === 'string') {
+      errors.push({ section, index, id, message: result });
+    } else if (seen.has(result.id)) {
+      errors.push({ section, index, id, message: `The ID "${result.id}" is used by an earlier entry` });
+    } else {
+      seen.add(result.id);
+      entries.push(result);
+    }
+  });
+  return entries;
+}
+
+function validateCommand(fields: Record<string, unknown>, index: number): CommandDefinition | string {
+  const missing = findMissingText(fields, ['id', 'name', 'command']);
+  if (missing) return missing;
+  const invalid = findInvalidText(fields, ['explanation', 'category']);
+  if (invalid) return invalid;
+
+  if (fields.order !== undefined && (typeof fields.order !== 'number' || !Number.isFinite(fields.order))) {
+    return '"order" must be a number';
+  }
+  if (fields.animationTrigger !== undefined && fields.animationTrigger !== null &&
+      fields.animationTrigger !== 'success' && fields.animationTrigger !== 'error') {
+    return '"animationTrigger" must be success, error or null';
+  }
+  const execution = EXECUTION_MODES.find((mode) => mode === fields.execution);
+  if (fields.execution !== undefined && !execution) {
+    return `"execution" must be one of ${EXECUTION_MODES.join(', ')}`;
+  }
+
+  let variables: CommandVariable[] | undefined;
+  if (fields.variables !== undefined) {
+    if (!Array.isArray(fields.variables)) return '"variables" must be a list';
+    variables = [];
+    for (const [position, variable] of fields.variables.entries()) {
+      const result = validateVariable(variable);
+      if (typeof result === 'string') return `Variable ${position + 1}: ${result}`;
+      variables.push(result);
+    }
+  }
+
+  return {
+    id: (fields.id as string).trim(),
+    name: (fields.name as string).trim(),
+    command: fields.command as string,
+    explanation: (fields.explanation as string | undefined) ?? '',
+    category: (fields.category as string | undefined)?.trim() || 'custom',
+    animationTrigger: (fields.animationTrigger as CommandDefinition['animationTrigger']) ?? null,
+    order: (fields.order as number | undefined) ?? index,
+    execution,
+    variables,
+  };
+}
+
+function validateVariable(variable: unknown): CommandVariable | string {
+  if (!isObject(variable)) return 'must be a mapping of fields';
+  const missing = findMissingText(variable, ['name']);
+  if (missing) return missing;
+  const invalid = findInvalidText(variable, ['label', 'default', 'choicesCommand']);
+  if (invalid) return invalid;
+  if (variable.required !== undefined && typeof variable.required !== 'boolean') {
+    return '"required" must be true or false';
+  }
+  if (variable.choices !== undefined &&
+      (!Array.isArray(variable.choices) || variable.choices.some((choice) => typeof choice !== 'string'))) {
+    return '"choices" must be a list of text';
+  }
+
+  return {
+    name: variable.name as string,
+    label: variable.label as string | undefined,
+    default: variable.default as string | undefined,
+    required: variable.required as boolean | undefined,
+    choices: variable.choices as string[] | undefined,
+    choicesCommand: variable.choicesCommand as string | undefined,
+  };
+}
+
+function validateCategory(fields: Record<string, unknown>): CategoryDefinition | string {
+  const missing = findMissingText(fields, ['id', 'label']);
+  if (missing) return missing;
+  for (const key of ['color', 'icon', 'projectType']) {
+    if (fields[key] !== undefined && fields[key] !== null && typeof fields[key] !== 'string') {
+      return `"${key}" must be text or null`;
+    }
+  }
+
+  return {
+    id: (fields.id as string).trim(),
+    label: (fields.label as string).trim(),
+    color: (fields.color as string | null | undefined) || null,
+    icon: (fields.icon as string | null | undefined) || null,
+    projectType: (fields.projectType as string | null | undefined) || null,
+  };
+}
+
+function validateWarningRule(fields: Record<string, unknown>): WarningRule | string {
+  const missing = findMissingText(fields, ['id', 'name']);
+  if (missing) return missing;
+  const invalid = findInvalidText(fields, ['pattern', 'description', 'recommendation']);
+  if (invalid) return invalid;
+
+  const riskLevel = RISK_LEVELS.find((level) => level === fields.riskLevel);
+  if (!riskLevel) {
+    return `"riskLevel" must be one of ${RISK_LEVELS.join(', ')}`;
+  }
+  if (!fields.pattern && fields.match === undefined) {
+    return 'needs a "pattern" or a "match"';
+  }
+  const badPattern = findInvalidRegex(fields, ['pattern']);
+  if (badPattern) return badPattern;
+
+  let match: WarningMatcher | undefined;
+  if (fields.match !== undefined) {
+    const result = validateMatcher(fields.match);
+    if (typeof result === 'string') return `Match: ${result}`;
+    match = result;
+  }
+
+  const conditions: Pick<WarningRule, 'when' | 'unless'> = {};
+  for (const key of ['when', 'unless'] as const) {
+    if (fields[key] === undefined) continue;
+    const result = validateCondition(fields[key]);
+    if (typeof result === 'string') return `${key === 'when' ? 'When' : 'Unless'}: ${result}`;
+    conditions[key] = result;
+  }
+
+  return {
+    id: (fields.id as string).trim(),
+    name: (fields.name as string).trim(),
+    ...(fields.pattern ? { pattern: fields.pattern as string } : {}),
+    ...(match ? { match } : {}),
+    ...conditions,
+    riskLevel,
+    description: (fields.description as string | undefined) ?? '',
+    recommendation: (fields.recommendation as string | undefined) ?? '',
+  };
+}
+
+function validateMatcher(matcher: unknown): WarningMatcher | string {
+  if (!isObject(matcher)) return 'must be a mapping of fields';
+  const missing = findMissingText(matcher, ['program']);
+  if (missing) return missing;
+  const invalid = findInvalidText(matcher, ['subcommand', 'argMatches', 'cwdMatches']);
+  if (invalid) return invalid;
+  for (const key of ['flagsAny', 'flagsNone']) {
+    const flags = matcher[key];
+    if (flags !== undefined && (!Array.isArray(flags) || flags.some((flag) => typeof flag !== 'string'))) {
+      return `"${key}" must be a list of text`;
+    }
+  }
+  const badRegex = findInvalidRegex(matcher, ['argMatches', 'cwdMatches']);
+  if (badRegex) return badRegex;
+
+  return {
+    program: (matcher.program as string).trim(),
+    subcommand: matcher.subcommand as string | undefined,
+    flagsAny: matcher.flagsAny as string[] | undefined,
+    flagsNone: matcher.flagsNone as string[] | undefined,
+    argMatches: matcher.argMatches as string | undefined,
+    cwdMatches: matcher.cwdMatches as string | undefined,
+  };
+}
+
+function validateCondition(condition: unknown): WarningCondition | string {
+  if (!isObject(condition)) return 'must be a mapping of fields';
+  const regexKeys = ['branch', 'remote', 'cwd', 'nodeEnv', 'kubeContext'];
+  const invalid = findInvalidText(condition, regexKeys);
+  if (invalid) return invalid;
+  const badRegex = findInvalidRegex(condition, regexKeys);
+  if (badRegex) return badRegex;
+  if (condition.inRepo !== undefined && typeof condition.inRepo !== 'boolean') {
+    return '"inRepo" must be true or false';
+  }
+  const paths = condition.paths;
+  if (paths !== undefined &&
+      (!Array.isArray(paths) || paths.some((scope) => !PATH_SCOPES.includes(scope as WarningPathScope)))) {
+    return `"paths" must be a list of ${PATH_SCOPES.join(', ')}`;
+  }
+
+  return {
+    branch: condition.branch as string | undefined,
+    remote: condition.remote as string | undefined,
+    cwd: condition.cwd as string | undefined,
+    inRepo: condition.inRepo as boolean | undefined,
+    paths: paths as WarningPathScope[] | undefined,
+    nodeEnv: condition.nodeEnv as string | undefined,
+    kubeContext: condition.kubeContext as string | undefined,
+  };
+}
+
+/** The message for the first of the keys that is not non-empty text */
+function findMissingText(fields: Record<string, unknown>, keys: string[]): string | null {
+  const key = keys.find((name) => typeof fields[name] !== 'string' || (fields[name] as string).trim() === '');
+  return key ? `"${key}" is required and must be text` : null;
+}
+
+/** The message for the first of the optional keys that is set but not text */
+function findInvalidText(fields: Record<string, unknown>, keys: string[]): string | null {
+  const key = keys.find((name) => fields[name] !== undefined && typeof fields[name] !== 'string');
+  return key ? `"${key}" must be text` : null;
+}
+
+/** The message for the first of the optional keys that is set but not a valid regular expression */
+function findInvalidRegex(fields: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    if (typeof fields[key] !== 'string' || fields[key] === '') continue;
+    try {
+      new RegExp(fields[key] as string, 'i');
+    } catch (err) {
+      return `"${key}" is not a valid regular expression: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fileError(message: string): CommandPackError {
+  return { section: null, index: null, id: null, message };
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+/**
+ * Collect the built-in commands and categories of the current config's
+ * project detectors, with the built-in warning rule IDs.
+ */
+export function getBuiltInEntries(config: AppConfig, warningRuleIds: string[]): BuiltInEntries {
+  const detectors = resolveDetectors(config.projectDetection.detectors);
+  return {
+    commands: [...Object.values(DEFAULT_COMMANDS).flat(), ...getDetectorCommands(detectors)],
+    categories: [...detectors.map((detector) => detector.type), ...FIXED_CATEGORIES],
+    warningRules: warningRuleIds,
+  };
+}
+
+/**
+ * List a pack's entries with the conflict each would cause. Conflicting
+ * entries start out skipped.
+ */
+export function previewImport(pack: CommandPack, config: AppConfig, builtIn: BuiltInEntries): CommandPackEntry[] {
+  const taken = getTakenIds(config, builtIn);
+  const entry = (section: CommandPackSection, id: string, name: string): CommandPackEntry => {
+    const conflict = taken[section].custom.has(id) ? 'custom' : taken[section].builtIn.has(id) ? 'built-in' : null;
+    return {
+      section,
+      id,
+      name,
+      conflict,
+      canOverwrite: conflict !== 'built-in' || section === 'commands',
+      resolution: 'skip',
+    };
+  };
+
+  return [
+    ...pack.commands.map((cmd) => entry('commands', cmd.id, cmd.name)),
+    ...pack.categories.map((category) => entry('categories', category.id, category.label)),
+    ...pack.warningRules.map((rule) => entry('warningRules', rule.id, rule.name)),
+  ];
+}
+
+/**
+ * Add a pack's entries to the config, resolving ID conflicts as chosen in
+ * the preview entries. Conflicts are checked again against the config as
+ * it is now; an entry that conflicts without a usable resolution is
+ * skipped.
+ *
+ * Renamed entries get the first free `<id>-<n>` ID and a ` (<n>)` suffix
+ * on their name; pack commands in a renamed category follow it. New
+ * commands are placed after the commands already in their category.
+ *
+ * @param config - Changed in place
+ */
+export function applyImport(
+  config: AppConfig,
+  pack: CommandPack,
+  entries: CommandPackEntry[],
+  builtIn: BuiltInEntries
+): CommandPackImportResult {
+  const result: CommandPackImportResult = { added: 0, overwritten: 0, renamed: 0, skipped: 0 };
+  const taken = getTakenIds(config, builtIn);
+
+  // New IDs are also kept clear of the pack's own, so a rename cannot
+  // collide with an entry added after it
+  const used = {
+    commands: new Set([...taken.commands.custom, ...taken.commands.builtIn, ...pack.commands.map((cmd) => cmd.id)]),
+    categories: new Set([...taken.categories.custom, ...taken.categories.builtIn, ...pack.categories.map((c) => c.id)]),
+    warningRules: new Set([...taken.warningRules.custom, ...taken.warningRules.builtIn, ...pack.warningRules.map((r) => r.id)]),
+  };
+
+  /** How to add an entry: as it is, in place of the existing one, under a new ID, or not at all */
+  const resolve = (section: CommandPackSection, id: string): 'add' | 'overwrite' | 'rename' | 'skip' => {
+    const conflict = taken[section].custom.has(id) ? 'custom' : taken[section].builtIn.has(id) ? 'built-in' : null;
+    if (!conflict) return 'add';
+    const chosen = entries.find((other) => other.section === section && other.id === id)?.resolution ?? 'skip';
+    if (chosen === 'overwrite' && conflict === 'built-in' && section !== 'commands') return 'skip';
+    return chosen;
+  };
+
+  const count = (action: 'add' | 'overwrite' | 'rename' | 'skip'): void => {
+    if (action === 'add') result.added++;
+    else if (action === 'overwrite') result.overwritten++;
+    else if (action === 'rename') result.renamed++;
+    else result.skipped++;
+  };
+
+  // Categories first, so commands can follow renamed ones
+  const categoryIds = new Map<string, string>();
+  for (const category of pack.categories) {
+    const action = resolve('categories', category.id);
+    count(action);
+    if (action === 'skip') continue;
+
+    let imported = category;
+    if (action === 'rename') {
+      const suffix = nextFreeSuffix(category.id, used.categories);
+      imported = { ...category, id: `${category.id}-${suffix}`, label: `${category.label} (${suffix})` };
+      categoryIds.set(category.id, imported.id);
+    }
+
+    const index = config.categories.userDefined.findIndex((other) => other.id === imported.id);
+    if (index !== -1) {
+      config.categories.userDefined[index] = imported;
+    } else {
+      config.categories.userDefined.push(imported);
+    }
+    // Categories without a project type are only shown when always visible
+    if (!imported.projectType && !config.categories.alwaysVisible.includes(imported.id)) {
+      config.categories.alwaysVisible.push(imported.id);
+    }
+  }
+
+  const placed = applyPlacements(mergeCommands(builtIn.commands, config.customCommands), config.commandPlacements);
+  const commands = [...pack.commands].sort((a, b) => a.order - b.order);
+  for (const cmd of commands) {
+    const action = resolve('commands', cmd.id);
+    count(action);
+    if (action === 'skip') continue;
+
+    const category = categoryIds.get(cmd.category) ?? cmd.category;
+    if (action === 'overwrite') {
+      // The command keeps the place of the one it replaces
+      const existing = placed.find((other) => other.id === cmd.id);
+      const imported = { ...cmd, category, order: existing?.order ?? cmd.order };
+      const index = config.customCommands.findIndex((other) => other.id === cmd.id);
+      if (index !== -1) {
+        config.customCommands[index] = imported;
+      } else {
+        config.customCommands.push(imported);
+      }
+      continue;
+    }
+
+    let imported: CommandDefinition = { ...cmd, category, order: getNextOrder(placed, category) };
+    if (action === 'rename') {
+      const suffix = nextFreeSuffix(cmd.id, used.commands);
+      imported = { ...imported, id: `${cmd.id}-${suffix}`, name: `${cmd.name} (${suffix})` };
+    }
+    config.customCommands.push(imported);
+    placed.push(imported);
+  }
+
+  for (const rule of pack.warningRules) {
+    const action = resolve('warningRules', rule.id);
+    count(action);
+    if (action === 'skip') continue;
+
+    const customRules = config.warnings.customRules;
+    const index = customRules.findIndex((other) => other.id === rule.id);
+    if (action === 'overwrite' && index !== -1) {
+      customRules[index] = rule;
+    } else if (action === 'rename') {
+      const suffix = nextFreeSuffix(rule.id, used.warningRules);
+      customRules.push({ ...rule, id: `${rule.id}-${suffix}`, name: `${rule.name} (${suffix})` });
+    } else {
+      customRules.push(rule);
+    }
+  }
+
+  return result;
+}
+
+/** IDs in use per section, custom and built-in apart */
+function getTakenIds(
+  config: AppConfig,
+  builtIn: BuiltInEntries
+): Record<CommandPackSection, { custom: Set<string>; builtIn: Set<string> }> {
+  return {
+    commands: {
+      custom: new Set(config.customCommands.map((cmd) => cmd.id)),
+      builtIn: new Set(builtIn.commands.map((cmd) => cmd.id)),
+    },
+    categories: {
+      custom: new Set(config.categories.userDefined.map((category) => category.id)),
+      builtIn: new Set(builtIn.categories),
+    },
+    warningRules: {
+      custom: new Set(config.warnings.customRules.map((rule) => rule.id)),
+      builtIn: new Set(builtIn.warningRules),
+    },
+  };
+}
+
+/**
+ * The lowest n from 2 for which `<id>-<n>` is free, which is then marked
+ * as used.
+ */
+function nextFreeSuffix(id: string, used: Set<string>): number {
+  let suffix = 2;
+  while (used.has(`${id}-${suffix}`)) suffix++;
+  used.add(`${id}-${suffix}`);
+  return suffix;
+}
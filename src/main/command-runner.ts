@@ -0,0 +1,152 @@
+import { spawn } from 'child_process';
+import { IS_WINDOWS } from './constants';
+
+/**
+ * Commands the app runs on its own rather than in a terminal session: a
+ * template variable's `choicesCommand` (template-choices.ts) and a
+ * warning rule's preview (warning-preview.ts). Both must end on their own
+ * and must not be able to hang the app or flood it with output.
+ *
+ * A command runs through the system shell without stdin or a terminal,
+ * in a process group of its own, so that a timeout or an abort kills the
+ * whole pipeline rather than only the shell. Output is capped as it
+ * arrives instead of being buffered in full.
+ */
+
+/** How to run a command */
+export interface RunCommandOptions {
+  /** Working directory */
+  cwd: string;
+  /** Environment; the app's own if omitted */
+  env?: Record<string, string>;
+  /** The command is killed if it has not finished by then */
+  timeoutMs: number;
+  /** Bytes kept of stdout and of stderr each; the rest is dropped */
+  maxOutput: number;
+  /** Kills the command when aborted */
+  signal?: AbortSignal;
+}
+
+/** How a command ended and what it printed */
+export interface RunCommandResult {
+  stdout: string;
+  stderr: string;
+  /** Whether output beyond maxOutput was dropped */
+  truncated: boolean;
+  /** Exit code, or null if the command was killed */
+  code: number | null;
+  /** The signal that killed the command, if any */
+  signal: NodeJS.Signals | null;
+  /** Whether it was killed for running longer than timeoutMs */
+  timedOut: boolean;
+  /** Whether it was killed because the signal was aborted */
+  aborted: boolean;
+}
+
+/**
+ * Run a command to completion. Rejects only if it cannot be started; a
+ * failing, timed out or aborted command resolves with how it ended.
+ *
+ * @param command - The shell command line to run
+ * @param options - Directory, environment and limits
+ */
+export function runCommand(command: string, options: RunCommandOptions): Promise<RunCommandResult> {
+  const { cwd, env, timeoutMs, maxOutput, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      resolve({ stdout: '', stderr: '', truncated: false, code: null, signal: null, timedOut: false, aborted: true });
+      return;
+    }
+
+    const stdout = new OutputBuffer(maxOutput);
+    const stderr = new OutputBuffer(maxOutput);
+    let timedOut = false;
+    let aborted = false;
+
+    const child = spawn(command, {
+      cwd,
+      env: env ?? process.env,
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // A process group of its own, so a kill reaches the whole pipeline
+      detached: !IS_WINDOWS,
+      windowsHide: true,
+    });
+
+    const kill = (): void => {
+      if (IS_WINDOWS || child.pid === undefined) {
+        child.kill('SIGKILL');
+        return;
+      }
+      try {
+        process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // The group is already gone; make sure the shell is too
+        child.kill('SIGKILL');
+      }
+    };
+
+    const onAbort = (): void => {
+      aborted = true;
+      kill();
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const finish = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.append(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.append(chunk));
+
+    child.on('error', (err) => {
+      finish();
+      reject(err);
+    });
+
+    child.on('close', (code, exitSignal) => {
+      finish();
+      resolve({
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        truncated: stdout.truncated || stderr.truncated,
+        code,
+        signal: exitSignal,
+        timedOut,
+        aborted,
+      });
+    });
+  });
+}
+
+/** Output of one stream, up to a size limit */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private readonly limit: number) {}
+
+  append(chunk: Buffer): void {
+    const room = this.limit - this.size;
+    if (chunk.length > room) {
+      this.truncated = true;
+    }
+    if (room > 0) {
+      const kept = chunk.subarray(0, room);
+      this.chunks.push(kept);
+      this.size += kept.length;
+    }
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf-8');
+  }
+}
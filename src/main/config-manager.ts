@@ -2,16 +2,20 @@ import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import type { AppConfig } from '../shared/types';
+import type { AppConfig, CommandExecutionMode, ShellProfile } from '../shared/types';
 import {
   CONFIG_DIR_NAME,
   CONFIG_FILE_NAME,
   CONFIG_BACKUP_FILE_NAME,
   CURRENT_CONFIG_VERSION,
   DEFAULT_CONFIG,
+  DEFAULT_PROFILE_ID,
 } from './constants';
 import { Logger } from './logger';
 
+/** Valid values of ui.defaultExecution */
+const EXECUTION_MODES: CommandExecutionMode[] = ['insert', 'run', 'confirm'];
+
 /**
  * ConfigManager handles reading, writing, validating, and migrating
  * the application configuration stored at ~/.commandcanvas/config.json.
@@ -142,6 +146,56 @@ export class ConfigManager {
     this.logger?.info(`Config key "${key}" updated`);
   }
 
+  /**
+   * Resolve a shell profile by ID into a fully specified profile.
+   *
+   * Fields the profile leaves unset fall back to the `shell` section:
+   * - shell: profile.shell, else shell.defaultShell (null = platform default)
+   * - args: profile.args; if the profile inherits the shell and has no args,
+   *   shell.args
+   * - env: shell.env overlaid with profile.env
+   * - cwd: profile.cwd, else shell.defaultCwd
+   *
+   * An unknown or missing ID yields the implicit default profile.
+   */
+  resolveProfile(profileId?: string | null): ShellProfile {
+    const shell = this.config.shell;
+    const base: ShellProfile = {
+      id: DEFAULT_PROFILE_ID,
+      name: 'Default',
+      shell: shell.defaultShell,
+      args: shell.args,
+      env: shell.env,
+      cwd: shell.defaultCwd,
+      terminalTheme: null,
+      defaultCategory: null,
+    };
+
+    const profile = profileId
+      ? this.config.profiles.find((p) => p && p.id === profileId)
+      : undefined;
+    if (!profile) {
+      if (profileId && profileId !== DEFAULT_PROFILE_ID) {
+        this.logger?.warn(`Unknown shell profile "${profileId}", using default`);
+      }
+      return base;
+    }
+
+    const args = Array.isArray(profile.args) ? profile.args : [];
+    const env = profile.env && typeof profile.env === 'object' ? profile.env : {};
+
+    return {
+      id: profile.id,
+      name: typeof profile.name === 'string' ? profile.name : profile.id,
+      shell: profile.shell || base.shell,
+      args: profile.shell || args.length > 0 ? args : base.args,
+      env: { ...base.env, ...env },
+      cwd: profile.cwd || base.cwd,
+      terminalTheme: profile.terminalTheme ?? null,
+      defaultCategory: profile.defaultCategory ?? null,
+    };
+  }
+
   /**
    * Get the path to the config file.
    */
@@ -207,10 +261,56 @@ export class ConfigManager {
             ? loaded.ui.terminalTheme
             : {}),
         },
+        paneLayouts: Array.isArray(loaded.ui?.paneLayouts)
+          ? loaded.ui.paneLayouts
+          : defaults.ui.paneLayouts,
+        recentCommandIds: Array.isArray(loaded.ui?.recentCommandIds)
+          ? loaded.ui.recentCommandIds
+          : defaults.ui.recentCommandIds,
+        defaultExecution: EXECUTION_MODES.find((mode) => mode === loaded.ui?.defaultExecution)
+          ?? defaults.ui.defaultExecution,
       },
       customCommands: Array.isArray(loaded.customCommands)
         ? loaded.customCommands
         : defaults.customCommands,
+      commandPlacements:
+        loaded.commandPlacements &&
+        typeof loaded.commandPlacements === 'object' &&
+        !Array.isArray(loaded.commandPlacements)
+          ? loaded.commandPlacements
+          : defaults.commandPlacements,
+      workflows: Array.isArray(loaded.workflows)
+        ? loaded.workflows
+        : defaults.workflows,
+      profiles: Array.isArray(loaded.profiles)
+        ? loaded.profiles
+        : defaults.profiles,
+      projectDetection: {
+        ...defaults.projectDetection,
+        ...(loaded.projectDetection && typeof loaded.projectDetection === 'object'
+          ? loaded.projectDetection
+          : {}),
+        boundaries: Array.isArray(loaded.projectDetection?.boundaries)
+          ? loaded.projectDetection.boundaries
+          : defaults.projectDetection.boundaries,
+        detectors: Array.isArray(loaded.projectDetection?.detectors)
+          ? loaded.projectDetection.detectors
+          : defaults.projectDetection.detectors,
+        trustedCommandFiles:
+          loaded.projectDetection?.trustedCommandFiles &&
+          typeof loaded.projectDetection.trustedCommandFiles === 'object' &&
+          !Array.isArray(loaded.projectDetection.trustedCommandFiles)
+            ? loaded.projectDetection.trustedCommandFiles
+            : defaults.projectDetection.trustedCommandFiles,
+      },
+      categories: {
+        userDefined: Array.isArray(loaded.categories?.userDefined)
+          ? loaded.categories.userDefined
+          : defaults.categories.userDefined,
+        alwaysVisible: Array.isArray(loaded.categories?.alwaysVisible)
+          ? loaded.categories.alwaysVisible
+          : defaults.categories.alwaysVisible,
+      },
     };
   }
 
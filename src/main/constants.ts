@@ -68,6 +68,9 @@ export const MAX_LOG_FILE_SIZE = 5 * 1024 * 1024;
 /** Maximum number of rotated log files to keep */
 export const MAX_LOG_ROTATIONS = 3;
 
+/** ID of the implicit profile built from the `shell` config section */
+export const DEFAULT_PROFILE_ID = 'default';
+
 /** Current config schema version */
 export const CURRENT_CONFIG_VERSION = 1;
 
@@ -91,6 +94,7 @@ export const DEFAULT_CONFIG: AppConfig = {
     defaultCwd: null,
     env: {},
     args: [],
+    shellIntegration: true,
   },
   animation: {
     enabled: true,
@@ -131,6 +135,21 @@ export const DEFAULT_CONFIG: AppConfig = {
       brightCyan: '#94e2d5',
       brightWhite: '#a6adc8',
     },
+    paneLayouts: [],
+    recentCommandIds: [],
+    defaultExecution: 'insert',
   },
   customCommands: [],
+  commandPlacements: {},
+  workflows: [],
+  profiles: [],
+  projectDetection: {
+    boundaries: ['~'],
+    detectors: [],
+    trustedCommandFiles: {},
+  },
+  categories: {
+    userDefined: [],
+    alwaysVisible: ['git', 'node', 'custom'],
+  },
 };
@@ -65,7 +65,7 @@ async function createWindow(): Promise<void> {
   const projectDetector = new ProjectDetector();
   logger.info('Project detector initialized');
 
-  // Step 6: Initialize shell manager (shell is NOT spawned yet)
+  // Step 6: Initialize shell manager (no session is spawned yet)
   shellManager = new ShellManager(logger);
   logger.info('Shell manager initialized');
 
@@ -124,9 +124,9 @@ async function createWindow(): Promise<void> {
 
   // Handle window close
   mainWindow.on('closed', () => {
-    // Kill the shell when the window closes
+    // Kill every shell session when the window closes
     if (shellManager) {
-      shellManager.kill();
+      shellManager.killAll();
     }
     mainWindow = null;
     logger.info('Window closed');
@@ -178,7 +178,7 @@ app.on('window-all-closed', () => {
 // Clean up before quit
 app.on('before-quit', () => {
   if (shellManager) {
-    shellManager.kill();
+    shellManager.killAll();
   }
   logger?.info('App shutting down');
 });
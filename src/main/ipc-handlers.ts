@@ -1,12 +1,19 @@
-import { app, ipcMain, BrowserWindow } from 'electron';
+import { app, ipcMain, BrowserWindow, dialog } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { IPC_CHANNELS } from '../shared/ipc-channels';
 import type {
   IpcDependencies,
   PendingCommand,
+  SessionInputState,
+  ShellCommandEvent,
+  WarningContext,
   WarningDisplayPayload,
+  WarningPreviewPayload,
   AppConfig,
+  CommandPack,
+  CommandPackEntry,
+  CommandPackPreview,
   LogLevel,
 } from '../shared/types';
 import type { ShellManager } from './shell-manager';
@@ -14,21 +21,40 @@ import type { WarningEngine } from './warning-engine';
 import type { ConfigManager } from './config-manager';
 import type { ProjectDetector } from './project-detector';
 import type { Logger } from './logger';
+import { runChoicesCommand } from './template-choices';
+import { collectWarningContext } from './warning-context';
+import { runWarningPreview } from './warning-preview';
+import {
+  applyImport,
+  buildCommandPack,
+  getBuiltInEntries,
+  getPackFormat,
+  previewImport,
+  readPackFile,
+  serializeCommandPack,
+} from './command-packs';
 
 /**
- * Registers all 18 IPC channel handlers.
+ * Registers all IPC channel handlers.
  *
  * This function is the single centralized location for all ipcMain.handle()
  * and ipcMain.on() registrations. It receives dependencies via injection
  * to maintain testability and clear module boundaries.
  *
  * Shell channels use send/on (fire-and-forget) for latency-sensitive terminal I/O.
- * Config, project, animation, and warning:check channels use invoke/handle (request/response).
+ * Config, project, command pack, animation, and warning:check channels use
+ * invoke/handle (request/response).
+ *
+ * Every shell channel payload carries a sessionId so several shells can run
+ * side by side. Each session has its own line buffer and pending-warning map.
  *
  * The shell:write handler implements the line buffer and warning pipeline:
  * - Characters are accumulated in a line buffer AND forwarded to the shell immediately
- * - When '\r' (Enter) is detected, the line buffer is evaluated by the warning engine
- * - If risky: '\r' is held, a warning is sent to the renderer
+ * - When '\r' (Enter) is detected, the line buffer is evaluated by the warning engine,
+ *   with the session's context (git branch, cwd, environment; see warning-context.ts)
+ * - If risky: '\r' is held, a warning is sent to the renderer, followed by the
+ *   output of the matching rules' preview commands as they finish; previews
+ *   still running when the warning is resolved are killed
  * - If safe: '\r' is forwarded, buffer is cleared
  */
 export function registerAllHandlers(deps: IpcDependencies): void {
@@ -38,24 +64,70 @@ export function registerAllHandlers(deps: IpcDependencies): void {
   // Internal state for the warning pipeline
   // ============================================================
 
-  /** Line buffer accumulates typed characters to evaluate on Enter */
-  let lineBuffer = '';
-
-  /** Map of held commands waiting for user confirmation/cancellation */
-  const pendingCommands = new Map<string, PendingCommand>();
-
-  /** Whether we are inside a multi-byte escape sequence (e.g. arrow keys) */
-  let inEscapeSequence = false;
+  /** Per-session line buffers, escape-sequence state and held commands */
+  const sessionStates = new Map<string, SessionInputState>();
 
   /** Maximum line buffer length to prevent OOM from large pastes */
   const MAX_LINE_BUFFER_LENGTH = 65536;
 
+  /** Exit code reported when a shell cannot be started (POSIX "command not found") */
+  const SHELL_SPAWN_FAILED_EXIT_CODE = 127;
+
+  /**
+   * Get the input state for a session, creating it on first use.
+   */
+  function getSessionState(sessionId: string): SessionInputState {
+    let state = sessionStates.get(sessionId);
+    if (!state) {
+      state = {
+        lineBuffer: '',
+        inEscapeSequence: false,
+        pendingCommands: new Map<string, PendingCommand>(),
+      };
+      sessionStates.set(sessionId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Forget a session's input state, killing the previews of its pending
+   * warnings.
+   */
+  function dropSessionState(sessionId: string): void {
+    for (const pending of sessionStates.get(sessionId)?.pendingCommands.values() ?? []) {
+      pending.previews.abort();
+    }
+    sessionStates.delete(sessionId);
+  }
+
+  /**
+   * The context a command typed in a session would run in, for the warning
+   * engine; without a session, the app's own directory. The shell's
+   * directory is read from its process where possible, since the one it
+   * reports (OSC 7) can be faked by any program's output.
+   */
+  function getWarningContext(sessionId: string | null): WarningContext {
+    if (sessionId === null) {
+      return collectWarningContext(process.cwd(), shellManager.getEnv(null), true);
+    }
+    const processCwd = shellManager.readProcessCwd(sessionId);
+    return collectWarningContext(
+      processCwd ?? shellManager.getCwd(sessionId),
+      shellManager.getEnv(sessionId),
+      processCwd !== null
+    );
+  }
+
   // ============================================================
-  // Helper: Get the focused BrowserWindow's webContents
+  // Helper: Get the focused BrowserWindow and its webContents
   // ============================================================
 
+  function getWindow(): BrowserWindow | null {
+    return BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0] || null;
+  }
+
   function getWebContents(): Electron.WebContents | null {
-    const win = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0];
+    const win = getWindow();
     return win ? win.webContents : null;
   }
 
@@ -63,45 +135,102 @@ export function registerAllHandlers(deps: IpcDependencies): void {
   // Shell Subsystem (fire-and-forget: send/on)
   // ============================================================
 
-  // shell:spawn - Renderer requests a new shell
-  ipcMain.on(IPC_CHANNELS.SHELL_SPAWN, (_event, payload: { cwd: string; cols: number; rows: number }) => {
-    logger.debug(`IPC: ${IPC_CHANNELS.SHELL_SPAWN} received`);
+  // Wire up shell data output -> renderer (all sessions)
+  shellManager.onData((sessionId: string, data: string) => {
+    const wc = getWebContents();
+    if (wc) {
+      wc.send(IPC_CHANNELS.SHELL_DATA, { sessionId, data });
+    }
+  });
 
-    shellManager.spawn(payload.cwd, payload.cols, payload.rows);
+  // Wire up shell exit -> renderer (all sessions)
+  shellManager.onExit((sessionId: string, exitCode: number, signal?: number) => {
+    // Drop the stale line buffer and pending commands of the dead session
+    dropSessionState(sessionId);
 
-    // Wire up shell data output -> renderer
-    shellManager.onData((data: string) => {
-      const wc = getWebContents();
-      if (wc) {
-        wc.send(IPC_CHANNELS.SHELL_DATA, { data });
-      }
-    });
+    const wc = getWebContents();
+    if (wc) {
+      wc.send(IPC_CHANNELS.SHELL_EXIT, { sessionId, exitCode, signal });
+    }
+  });
 
-    // Wire up shell exit -> renderer
-    shellManager.onExit((exitCode: number, signal?: number) => {
-      // Clear stale line buffer and pending commands on shell exit
-      lineBuffer = '';
-      inEscapeSequence = false;
-      pendingCommands.clear();
+  // Wire up shell integration command events -> renderer (all sessions)
+  shellManager.onCommand((event: ShellCommandEvent) => {
+    const wc = getWebContents();
+    if (wc) {
+      wc.send(IPC_CHANNELS.SHELL_COMMAND, event);
+    }
+  });
 
-      const wc = getWebContents();
-      if (wc) {
-        wc.send(IPC_CHANNELS.SHELL_EXIT, { exitCode, signal });
-      }
-    });
+  // Wire up working directory changes -> renderer (all sessions)
+  shellManager.onCwdChange((sessionId: string, cwd: string) => {
+    const wc = getWebContents();
+    if (wc) {
+      wc.send(IPC_CHANNELS.SHELL_CWD_CHANGED, { sessionId, cwd });
+    }
   });
 
+  // shell:spawn - Renderer requests a new shell session
+  ipcMain.on(
+    IPC_CHANNELS.SHELL_SPAWN,
+    (
+      _event,
+      payload: { sessionId: string; cwd: string | null; cols: number; rows: number; profileId?: string | null }
+    ) => {
+      logger.debug(
+        `IPC: ${IPC_CHANNELS.SHELL_SPAWN} received, session=${payload.sessionId}, profile=${payload.profileId ?? 'default'}`
+      );
+
+      dropSessionState(payload.sessionId);
+
+      try {
+        // An explicit cwd (e.g. a split inheriting its neighbour's directory)
+        // wins over the profile's starting directory
+        const profile = configManager.resolveProfile(payload.profileId);
+        if (payload.cwd) {
+          profile.cwd = payload.cwd;
+        }
+        shellManager.spawn(
+          payload.sessionId,
+          profile,
+          payload.cols,
+          payload.rows,
+          configManager.get('shell').shellIntegration !== false
+        );
+      } catch (err) {
+        // Report the failure inside the session's terminal instead of
+        // leaving it blank; the exit lets the user retry with Enter
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`Shell spawn failed: session=${payload.sessionId}, ${message}`);
+
+        const wc = getWebContents();
+        if (wc) {
+          wc.send(IPC_CHANNELS.SHELL_DATA, {
+            sessionId: payload.sessionId,
+            data: `\r\n\x1b[31m[${message}]\x1b[0m\r\n`,
+          });
+          wc.send(IPC_CHANNELS.SHELL_EXIT, {
+            sessionId: payload.sessionId,
+            exitCode: SHELL_SPAWN_FAILED_EXIT_CODE,
+          });
+        }
+      }
+    }
+  );
+
   // shell:write - Keystroke or paste from the renderer
   // This is the heart of the warning pipeline
-  ipcMain.on(IPC_CHANNELS.SHELL_WRITE, (_event, payload: { data: string }) => {
-    const data = payload.data;
+  ipcMain.on(IPC_CHANNELS.SHELL_WRITE, (_event, payload: { sessionId: string; data: string }) => {
+    const { sessionId, data } = payload;
 
     // If the shell is not running, discard input to prevent
     // line buffer accumulation during dead-shell state
-    if (!shellManager.isAlive()) {
+    if (!shellManager.isAlive(sessionId)) {
       return;
     }
 
+    const state = getSessionState(sessionId);
+
     // Batch consecutive regular characters into a single shell write
     // to avoid issues with rapid single-char writes on Windows conpty
     let regularBatch = '';
@@ -109,7 +238,7 @@ export function registerAllHandlers(deps: IpcDependencies): void {
     /** Flush any accumulated regular characters to the shell */
     const flushBatch = () => {
       if (regularBatch.length > 0) {
-        shellManager.write(regularBatch);
+        shellManager.write(sessionId, regularBatch);
         regularBatch = '';
       }
     };
@@ -118,17 +247,17 @@ export function registerAllHandlers(deps: IpcDependencies): void {
       // Detect start of escape sequence (e.g. arrow keys, Home, End)
       if (char === '\x1b') {
         flushBatch();
-        inEscapeSequence = true;
-        shellManager.write(char);
+        state.inEscapeSequence = true;
+        shellManager.write(sessionId, char);
         continue;
       }
 
       // Inside an escape sequence — forward without buffering
-      if (inEscapeSequence) {
-        shellManager.write(char);
+      if (state.inEscapeSequence) {
+        shellManager.write(sessionId, char);
         // Escape sequences end with a letter [A-Za-z] or ~
         if (/[A-Za-z~]/.test(char)) {
-          inEscapeSequence = false;
+          state.inEscapeSequence = false;
         }
         continue;
       }
@@ -136,8 +265,8 @@ export function registerAllHandlers(deps: IpcDependencies): void {
       // Handle backspace: remove last character from line buffer
       if (char === '\x7f' || char === '\b') {
         flushBatch();
-        lineBuffer = lineBuffer.slice(0, -1);
-        shellManager.write(char);
+        state.lineBuffer = state.lineBuffer.slice(0, -1);
+        shellManager.write(sessionId, char);
         continue;
       }
 
@@ -145,8 +274,8 @@ export function registerAllHandlers(deps: IpcDependencies): void {
       // These clear the line buffer and are forwarded immediately
       if (char.charCodeAt(0) < 0x20 && char !== '\r' && char !== '\n') {
         flushBatch();
-        lineBuffer = '';
-        shellManager.write(char);
+        state.lineBuffer = '';
+        shellManager.write(sessionId, char);
         continue;
       }
 
@@ -155,54 +284,84 @@ export function registerAllHandlers(deps: IpcDependencies): void {
         flushBatch();
 
         // Extract the accumulated command from the line buffer
-        const command = lineBuffer.trim();
-        logger.debug(`IPC: ${IPC_CHANNELS.SHELL_WRITE} detected Enter, line buffer: [${command.length} chars]`);
+        const command = state.lineBuffer.trim();
+        logger.debug(`IPC: ${IPC_CHANNELS.SHELL_WRITE} detected Enter, session=${sessionId}, line buffer: [${command.length} chars]`);
 
         if (command.length === 0) {
           // Empty command - just forward Enter
-          shellManager.write(char);
-          lineBuffer = '';
+          shellManager.write(sessionId, char);
+          state.lineBuffer = '';
           continue;
         }
 
-        // Evaluate the command against warning rules
-        const warningResult = warningEngine.evaluate(command);
+        // Evaluate the command against warning rules, in the context it runs in
+        const context = getWarningContext(sessionId);
+        const warningResult = warningEngine.evaluate(command, context);
 
         if (warningResult === null) {
           // No warning - forward Enter and clear buffer
-          shellManager.write(char);
-          lineBuffer = '';
+          shellManager.write(sessionId, char);
+          state.lineBuffer = '';
         } else {
           // Warning triggered - hold the Enter key
-          logger.warn(`Warning triggered: rule=${warningResult.ruleId}, riskLevel=${warningResult.riskLevel}`);
+          logger.warn(
+            `Warning triggered: session=${sessionId}, rules=${warningResult.matches.map((match) => match.ruleId).join(',')}, ` +
+            `riskLevel=${warningResult.riskLevel}`
+          );
 
           // Store the pending command
-          pendingCommands.set(warningResult.warningId, {
+          const previews = new AbortController();
+          state.pendingCommands.set(warningResult.warningId, {
             warningId: warningResult.warningId,
             pendingData: '\r',
+            previews,
           });
 
           // Send warning to renderer
           const warningPayload: WarningDisplayPayload = {
             warningId: warningResult.warningId,
+            sessionId,
             command: warningResult.command,
             riskLevel: warningResult.riskLevel,
             description: warningResult.description,
             recommendation: warningResult.recommendation,
+            matches: warningResult.matches,
           };
 
           const wc = getWebContents();
           if (wc) {
             wc.send(IPC_CHANNELS.WARNING_TRIGGERED, warningPayload);
           }
+
+          // Run each distinct preview command once while the warning is open
+          const previewCommands = new Set(warningResult.matches.flatMap((match) => (match.preview ? [match.preview] : [])));
+          for (const preview of previewCommands) {
+            runWarningPreview(preview, context.cwd ?? shellManager.getCwd(sessionId), shellManager.getEnv(sessionId), previews.signal)
+              .then((result) => {
+                logger.debug(`Warning preview finished: session=${sessionId}, warningId=${warningResult.warningId}, error=${result.error ?? 'none'}`);
+                if (previews.signal.aborted) {
+                  return; // The warning is already closed
+                }
+                const previewPayload: WarningPreviewPayload = {
+                  warningId: warningResult.warningId,
+                  sessionId,
+                  command: preview,
+                  ...result,
+                };
+                getWebContents()?.send(IPC_CHANNELS.WARNING_PREVIEW, previewPayload);
+              })
+              .catch((err) => {
+                logger.error(`Warning preview failed: session=${sessionId}, warningId=${warningResult.warningId}, error=${String(err)}`);
+              });
+          }
         }
 
         continue;
       }
 
       // Regular character - append to line buffer and batch for shell write
-      if (lineBuffer.length < MAX_LINE_BUFFER_LENGTH) {
-        lineBuffer += char;
+      if (state.lineBuffer.length < MAX_LINE_BUFFER_LENGTH) {
+        state.lineBuffer += char;
       }
       regularBatch += char;
     }
@@ -212,15 +371,16 @@ export function registerAllHandlers(deps: IpcDependencies): void {
   });
 
   // shell:resize - Terminal viewport changed
-  ipcMain.on(IPC_CHANNELS.SHELL_RESIZE, (_event, payload: { cols: number; rows: number }) => {
-    logger.debug(`IPC: ${IPC_CHANNELS.SHELL_RESIZE} received`);
-    shellManager.resize(payload.cols, payload.rows);
+  ipcMain.on(IPC_CHANNELS.SHELL_RESIZE, (_event, payload: { sessionId: string; cols: number; rows: number }) => {
+    logger.debug(`IPC: ${IPC_CHANNELS.SHELL_RESIZE} received, session=${payload.sessionId}`);
+    shellManager.resize(payload.sessionId, payload.cols, payload.rows);
   });
 
-  // shell:kill - Renderer requests shell termination
-  ipcMain.on(IPC_CHANNELS.SHELL_KILL, () => {
-    logger.debug(`IPC: ${IPC_CHANNELS.SHELL_KILL} received`);
-    shellManager.kill();
+  // shell:kill - Renderer requests shell termination (e.g. tab closed)
+  ipcMain.on(IPC_CHANNELS.SHELL_KILL, (_event, payload: { sessionId: string }) => {
+    logger.debug(`IPC: ${IPC_CHANNELS.SHELL_KILL} received, session=${payload.sessionId}`);
+    shellManager.kill(payload.sessionId);
+    dropSessionState(payload.sessionId);
   });
 
   // ============================================================
@@ -228,44 +388,51 @@ export function registerAllHandlers(deps: IpcDependencies): void {
   // ============================================================
 
   // warning:check - Pre-check a command (invoke/handle pattern)
-  ipcMain.handle(IPC_CHANNELS.WARNING_CHECK, async (_event, payload: { command: string }) => {
-    logger.debug(`IPC: ${IPC_CHANNELS.WARNING_CHECK} received`);
-    return warningEngine.evaluate(payload.command);
-  });
+  ipcMain.handle(
+    IPC_CHANNELS.WARNING_CHECK,
+    async (_event, payload: { command: string; sessionId: string | null }) => {
+      logger.debug(`IPC: ${IPC_CHANNELS.WARNING_CHECK} received`);
+      return warningEngine.evaluate(payload.command, getWarningContext(payload.sessionId));
+    }
+  );
 
   // warning:confirm - User clicked "Execute Anyway"
-  ipcMain.on(IPC_CHANNELS.WARNING_CONFIRM, (_event, payload: { warningId: string }) => {
+  ipcMain.on(IPC_CHANNELS.WARNING_CONFIRM, (_event, payload: { sessionId: string; warningId: string }) => {
     logger.debug(`IPC: ${IPC_CHANNELS.WARNING_CONFIRM} received`);
-    const pending = pendingCommands.get(payload.warningId);
+    const state = sessionStates.get(payload.sessionId);
+    const pending = state?.pendingCommands.get(payload.warningId);
 
-    if (pending) {
-      logger.warn(`Warning resolved: warningId=${payload.warningId}, decision=confirm`);
+    if (state && pending) {
+      logger.warn(`Warning resolved: session=${payload.sessionId}, warningId=${payload.warningId}, decision=confirm`);
 
       // Forward the held Enter key to the shell
-      shellManager.write(pending.pendingData);
+      shellManager.write(payload.sessionId, pending.pendingData);
 
       // Clean up
-      pendingCommands.delete(payload.warningId);
-      lineBuffer = '';
+      pending.previews.abort();
+      state.pendingCommands.delete(payload.warningId);
+      state.lineBuffer = '';
     } else {
       logger.warn(`Warning confirm received for unknown warningId: ${payload.warningId}`);
     }
   });
 
   // warning:cancel - User clicked "Cancel"
-  ipcMain.on(IPC_CHANNELS.WARNING_CANCEL, (_event, payload: { warningId: string }) => {
+  ipcMain.on(IPC_CHANNELS.WARNING_CANCEL, (_event, payload: { sessionId: string; warningId: string }) => {
     logger.debug(`IPC: ${IPC_CHANNELS.WARNING_CANCEL} received`);
-    const pending = pendingCommands.get(payload.warningId);
+    const state = sessionStates.get(payload.sessionId);
+    const pending = state?.pendingCommands.get(payload.warningId);
 
-    if (pending) {
-      logger.warn(`Warning resolved: warningId=${payload.warningId}, decision=cancel`);
+    if (state && pending) {
+      logger.warn(`Warning resolved: session=${payload.sessionId}, warningId=${payload.warningId}, decision=cancel`);
 
       // Discard the pending command (do not forward Enter)
-      pendingCommands.delete(payload.warningId);
-      lineBuffer = '';
+      pending.previews.abort();
+      state.pendingCommands.delete(payload.warningId);
+      state.lineBuffer = '';
 
       // Clear the cancelled command text from the shell input line
-      shellManager.write('\x15'); // Ctrl+U: kill line
+      shellManager.write(payload.sessionId, '\x15'); // Ctrl+U: kill line
     } else {
       logger.warn(`Warning cancel received for unknown warningId: ${payload.warningId}`);
     }
@@ -281,10 +448,11 @@ export function registerAllHandlers(deps: IpcDependencies): void {
     return configManager.load();
   });
 
-  // config:save - Save the full configuration
+  // config:save - Save the full configuration; saved warning rules apply at once
   ipcMain.handle(IPC_CHANNELS.CONFIG_SAVE, async (_event, config: AppConfig) => {
     logger.debug(`IPC: ${IPC_CHANNELS.CONFIG_SAVE} handled`);
     await configManager.save(config);
+    warningEngine.configure(config.warnings);
     return { success: true };
   });
 
@@ -301,6 +469,9 @@ export function registerAllHandlers(deps: IpcDependencies): void {
       payload.key as keyof AppConfig,
       payload.value as AppConfig[keyof AppConfig]
     );
+    if (payload.key === 'warnings') {
+      warningEngine.configure(configManager.get('warnings'));
+    }
     return { success: true };
   });
 
@@ -308,14 +479,178 @@ export function registerAllHandlers(deps: IpcDependencies): void {
   // Project Detection Subsystem (invoke/handle pattern)
   // ============================================================
 
-  // project:detect - Scan a directory for project markers
+  // Wire up project file changes -> renderer
+  projectDetector.onChange((directory: string) => {
+    logger.debug(`Project files changed: cwd=${directory}`);
+    const wc = getWebContents();
+    if (wc) {
+      wc.send(IPC_CHANNELS.PROJECT_CHANGED, { directory });
+    }
+  });
+
+  // project:detect - Scan a directory for project markers, then watch the
+  // detected package.json, task runner files and command file so their
+  // commands can be refreshed. The warning rules of an approved command
+  // file apply, to sessions inside its project, until the next detection.
   ipcMain.handle(IPC_CHANNELS.PROJECT_DETECT, async (_event, payload: { directory: string }) => {
     logger.debug(`IPC: ${IPC_CHANNELS.PROJECT_DETECT} handled`);
-    const types = await projectDetector.detect(payload.directory);
-    logger.info(`Project detected: cwd=${payload.directory}, types=[${types.join(', ')}]`);
-    return types;
+    const result = await projectDetector.detect(payload.directory, configManager.get('projectDetection'));
+    const sources = result.markers.map((m) => `${m.file}@${m.directory}`).join(', ');
+    logger.info(`Project detected: cwd=${result.directory}, types=[${result.types.join(', ')}], markers=[${sources}]`);
+    const commandFile = result.commandFile;
+    if (commandFile) {
+      logger.info(`Project command file found: file=${commandFile.filePath}, trust=${commandFile.trust}`);
+    }
+    warningEngine.setProjectRules(
+      commandFile?.trust === 'approved' && commandFile.pack ? commandFile.pack.warningRules : [],
+      commandFile?.directory ?? null
+    );
+    projectDetector.watch(result);
+    return result;
   });
 
+  // project:trust-commands - Approve a project command file's content (by
+  // its hash), or withdraw the approval with a null hash, then have the
+  // renderer detect the project again
+  ipcMain.handle(
+    IPC_CHANNELS.PROJECT_TRUST_COMMANDS,
+    async (_event, payload: { filePath: string; hash: string | null }) => {
+      logger.debug(`IPC: ${IPC_CHANNELS.PROJECT_TRUST_COMMANDS} handled`);
+      const detection = configManager.get('projectDetection');
+      const trustedCommandFiles = { ...detection.trustedCommandFiles };
+      if (payload.hash === null) {
+        delete trustedCommandFiles[payload.filePath];
+      } else {
+        trustedCommandFiles[payload.filePath] = payload.hash;
+      }
+      await configManager.set('projectDetection', { ...detection, trustedCommandFiles });
+      logger.info(
+        `Project command file ${payload.hash === null ? 'approval withdrawn' : 'approved'}: file=${payload.filePath}`
+      );
+
+      const wc = getWebContents();
+      if (wc) {
+        wc.send(IPC_CHANNELS.PROJECT_CHANGED, { directory: path.dirname(payload.filePath) });
+      }
+      return { success: true };
+    }
+  );
+
+  // ============================================================
+  // Command Template Subsystem (invoke/handle pattern)
+  // ============================================================
+
+  // template:choices - Run a template variable's choicesCommand in the
+  // session's working directory and environment and return its output lines
+  ipcMain.handle(
+    IPC_CHANNELS.TEMPLATE_CHOICES,
+    async (_event, payload: { command: string; sessionId: string | null }) => {
+      logger.debug(`IPC: ${IPC_CHANNELS.TEMPLATE_CHOICES} handled`);
+      const cwd = payload.sessionId ? shellManager.getCwd(payload.sessionId) : process.cwd();
+      try {
+        const env = shellManager.getEnv(payload.sessionId);
+        return { choices: await runChoicesCommand(payload.command, cwd, env), error: null };
+      } catch (err) {
+        logger.warn(`Template choices command failed: cwd=${cwd}, command=${payload.command}, error=${String(err)}`);
+        return { choices: [], error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+  );
+
+  // ============================================================
+  // Command Pack Subsystem (invoke/handle pattern)
+  // ============================================================
+
+  /** File types offered by the pack open and save dialogs */
+  const PACK_FILE_FILTERS = [
+    { name: 'Command Packs', extensions: ['json', 'yaml', 'yml'] },
+    { name: 'JSON', extensions: ['json'] },
+    { name: 'YAML', extensions: ['yaml', 'yml'] },
+  ];
+
+  // pack:import - Ask for a pack file and read it for review; null when cancelled
+  ipcMain.handle(IPC_CHANNELS.PACK_IMPORT, async (): Promise<CommandPackPreview | null> => {
+    logger.debug(`IPC: ${IPC_CHANNELS.PACK_IMPORT} handled`);
+    const win = getWindow();
+    const options: Electron.OpenDialogOptions = {
+      title: 'Import Command Pack',
+      properties: ['openFile'],
+      filters: PACK_FILE_FILTERS,
+    };
+    const choice = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+    if (choice.canceled || choice.filePaths.length === 0) {
+      return null;
+    }
+
+    const filePath = choice.filePaths[0];
+    const { content, pack, errors } = await readPackFile(filePath);
+    if (content === null) {
+      logger.warn(`Command pack could not be read: file=${filePath}, error=${errors[0].message}`);
+      return { filePath, pack: null, entries: [], errors };
+    }
+
+    if (pack && !pack.name) {
+      pack.name = path.basename(filePath, path.extname(filePath));
+    }
+    const config = await configManager.load();
+    const entries = pack
+      ? previewImport(pack, config, getBuiltInEntries(config, warningEngine.getBuiltInRuleIds()))
+      : [];
+    logger.info(`Command pack read: file=${filePath}, entries=${entries.length}, errors=${errors.length}`);
+    return { filePath, pack, entries, errors };
+  });
+
+  // pack:apply - Import a reviewed pack with the chosen conflict resolutions
+  ipcMain.handle(
+    IPC_CHANNELS.PACK_APPLY,
+    async (_event, payload: { pack: CommandPack; entries: CommandPackEntry[] }) => {
+      logger.debug(`IPC: ${IPC_CHANNELS.PACK_APPLY} handled`);
+      const config = structuredClone(await configManager.load());
+      const result = applyImport(
+        config,
+        payload.pack,
+        payload.entries,
+        getBuiltInEntries(config, warningEngine.getBuiltInRuleIds())
+      );
+      await configManager.save(config);
+      warningEngine.configure(config.warnings);
+      logger.info(
+        `Command pack imported: name=${payload.pack.name}, added=${result.added}, overwritten=${result.overwritten}, ` +
+        `renamed=${result.renamed}, skipped=${result.skipped}`
+      );
+      return result;
+    }
+  );
+
+  // pack:export - Write custom commands to a pack file chosen by the user;
+  // the extension picks JSON or YAML. Null when cancelled
+  ipcMain.handle(
+    IPC_CHANNELS.PACK_EXPORT,
+    async (_event, payload: { category: string | null; name: string }) => {
+      logger.debug(`IPC: ${IPC_CHANNELS.PACK_EXPORT} handled`);
+      const pack = buildCommandPack(await configManager.load(), payload.name, payload.category);
+
+      const win = getWindow();
+      const fileName = payload.name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'commands';
+      const options: Electron.SaveDialogOptions = {
+        title: 'Export Command Pack',
+        defaultPath: path.join(app.getPath('documents'), `${fileName}.commandpack.json`),
+        filters: PACK_FILE_FILTERS,
+      };
+      const choice = win ? await dialog.showSaveDialog(win, options) : await dialog.showSaveDialog(options);
+      if (choice.canceled || !choice.filePath) {
+        return null;
+      }
+
+      await fs.writeFile(choice.filePath, serializeCommandPack(pack, getPackFormat(choice.filePath)), 'utf-8');
+      logger.info(
+        `Command pack exported: file=${choice.filePath}, commands=${pack.commands.length}, ` +
+        `categories=${pack.categories.length}, warningRules=${pack.warningRules.length}`
+      );
+      return { filePath: choice.filePath };
+    }
+  );
+
   // ============================================================
   // Animation Subsystem (invoke/handle pattern)
   // ============================================================
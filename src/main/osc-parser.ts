@@ -0,0 +1,94 @@
+/** A complete OSC sequence: `ESC ] 133;D;0 BEL` gives code '133', data 'D;0' */
+export interface OscSequence {
+  code: string;
+  data: string;
+}
+
+const OSC_START = '\x1b]';
+const BEL = '\x07';
+const ST = '\x1b\\';
+
+/** Longest unterminated sequence kept between chunks; longer ones are dropped */
+const MAX_PENDING_LENGTH = 4096;
+
+/**
+ * OscParser extracts OSC (Operating System Command) escape sequences,
+ * `ESC ] <code> ; <data> (BEL | ESC \)`, from a stream of PTY output.
+ *
+ * PTY output arrives in arbitrary chunks, so a sequence may be split
+ * across several calls to feed(); the unterminated tail is buffered until
+ * the rest arrives. The parser only observes the stream; the output is
+ * still forwarded to xterm.js unchanged, which ignores OSC codes it does
+ * not handle.
+ */
+export class OscParser {
+  private pending = '';
+
+  /**
+   * Scan a chunk of output and return the OSC sequences completed by it.
+   *
+   * @param chunk - Raw PTY output
+   */
+  feed(chunk: string): OscSequence[] {
+    // Fast path: nothing buffered and no escape character in the chunk
+    if (!this.pending && !chunk.includes('\x1b')) {
+      return [];
+    }
+
+    const text = this.pending + chunk;
+    this.pending = '';
+
+    const sequences: OscSequence[] = [];
+    let index = 0;
+
+    while (index < text.length) {
+      const start = text.indexOf(OSC_START, index);
+      if (start === -1) {
+        // A trailing lone ESC may be the first half of the next OSC_START
+        if (text.endsWith('\x1b')) {
+          this.pending = '\x1b';
+        }
+        break;
+      }
+
+      const bodyStart = start + OSC_START.length;
+      const bel = text.indexOf(BEL, bodyStart);
+      const st = text.indexOf(ST, bodyStart);
+      let end = -1;
+      let terminatorLength = 0;
+      if (bel !== -1 && (st === -1 || bel < st)) {
+        end = bel;
+        terminatorLength = BEL.length;
+      } else if (st !== -1) {
+        end = st;
+        terminatorLength = ST.length;
+      }
+
+      if (end === -1) {
+        const tail = text.slice(start);
+        if (tail.length <= MAX_PENDING_LENGTH) {
+          this.pending = tail;
+        }
+        break;
+      }
+
+      const body = text.slice(bodyStart, end);
+      const separator = body.indexOf(';');
+      sequences.push(
+        separator === -1
+          ? { code: body, data: '' }
+          : { code: body.slice(0, separator), data: body.slice(separator + 1) }
+      );
+      index = end + terminatorLength;
+    }
+
+    return sequences;
+  }
+
+  /**
+   * Discard any partially received sequence (e.g. when the shell restarts).
+   */
+  reset(): void {
+    this.pending = '';
+  }
+}
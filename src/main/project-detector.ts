@@ -1,59 +1,332 @@
 import * as fs from 'fs/promises';
+import { watch, type FSWatcher } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import type { ProjectType } from '../shared/types';
+import type {
+  DetectedMarker,
+  ProjectCommandFile,
+  ProjectDetectionConfig,
+  ProjectDetectionResult,
+  ProjectDetectorDefinition,
+  ProjectType,
+} from '../shared/types';
+import { BUILT_IN_DETECTORS, matchesMarker, resolveDetectors } from '../shared/project-detectors';
+import { readProjectMetadata } from './project-metadata';
+import { getCommandFileTrust, PROJECT_COMMAND_FILES, readProjectCommandFile } from './command-packs';
 
 /**
- * Mapping of marker filenames to project types.
- * When a marker file is found in a directory, the corresponding
- * project type is included in the detection results.
+ * How long a directory's detection result is reused. Detection re-runs on
+ * every directory change, so this keeps `cd` back and forth cheap while
+ * still noticing markers created since (e.g. after `git init`).
  */
-const MARKER_MAP: Record<string, ProjectType> = {
-  '.git': 'git',
-  'package.json': 'node',
-  'requirements.txt': 'python',
-  'pyproject.toml': 'python',
-  'Dockerfile': 'docker',
-};
+const CACHE_TTL_MS = 10_000;
+
+/** Upper bound on cached directories; the oldest entry is evicted first */
+const MAX_CACHE_ENTRIES = 100;
+
+/** Safety limit on how many directories the upward walk visits */
+const MAX_WALK_DEPTH = 64;
+
+/** Editors save in several steps; changes within this window are reported once */
+const WATCH_DEBOUNCE_MS = 250;
 
 /**
- * ProjectDetector scans a given directory for marker files and
- * returns an array of detected project types.
+ * ProjectDetector scans a directory and its ancestors for marker files
+ * and reports the detected project types together with the directory
+ * each marker was found in. Which markers identify which type comes from
+ * the detector registry (shared/project-detectors.ts) plus any detectors
+ * defined in config.
+ *
+ * The walk goes from the given directory toward the filesystem root and
+ * stops after checking a boundary directory (see ProjectDetectionConfig),
+ * so `repo/src/components` still detects the `.git` and `package.json`
+ * at `repo/`. For each marker the nearest directory wins.
+ *
+ * Each directory is listed once with fs.readdir() and its entries are
+ * matched against every outstanding detector, so adding detectors does
+ * not add filesystem calls.
  *
- * Uses fs.access() for each marker file to check existence,
- * which is a lightweight stat-like operation. For a typical
- * directory with 5 checks, this completes in <5ms.
+ * Once the roots are known, the Node, Python and Compose project files
+ * are read for metadata (package manager, lockfile, scripts, compose
+ * file; see project-metadata.ts) and task runner files for their tasks
+ * (see task-discovery.ts).
+ *
+ * The walk also looks for a checked-in command file (see
+ * PROJECT_COMMAND_FILES in command-packs.ts); the nearest one is read and
+ * reported with whether the user approved its current content.
+ *
+ * Results are cached per directory for CACHE_TTL_MS.
+ *
+ * watch() follows the package.json of a detected Node project and any
+ * detected task runner files, so the commands generated from them can be
+ * refreshed when the files are edited, and the project's command file.
  */
 export class ProjectDetector {
+  private cache = new Map<string, { result: ProjectDetectionResult; expiresAt: number }>();
+  private watchers: FSWatcher[] = [];
+  private watchTimer: ReturnType<typeof setTimeout> | null = null;
+  private changeCallbacks: Array<(directory: string) => void> = [];
+
   /**
-   * Scan the given directory for project marker files.
-   * Returns a deduplicated array of detected project types.
+   * Scan the given directory and its ancestors for project marker files.
    *
    * @param directory - The absolute path of the directory to scan
-   * @returns Array of detected project types (e.g., ['git', 'node', 'docker'])
+   * @param config - The `projectDetection` config: walk boundaries
+   *                 ('~' = home directory), extra detectors and approved
+   *                 command files
+   * @returns Detected types (e.g., ['git', 'node', 'docker']), the markers
+   *          found, the root directory of each type, project metadata and
+   *          the project's command file
+   */
+  async detect(
+    directory: string,
+    config: Partial<ProjectDetectionConfig> = {}
+  ): Promise<ProjectDetectionResult> {
+    const start = path.resolve(directory);
+    const boundaries = Array.isArray(config.boundaries) ? config.boundaries : [];
+    const stopAt = new Set(boundaries.filter((b) => typeof b === 'string' && b).map(resolveBoundary));
+    const detectors = resolveDetectors(config.detectors);
+    const key = JSON.stringify([start, [...stopAt], detectors.map((d) => [d.type, d.markers])]);
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return withTrust(structuredClone(cached.result), config.trustedCommandFiles);
+    }
+
+    const result = await this.scan(start, stopAt, detectors);
+
+    this.cache.delete(key);
+    this.cache.set(key, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+
+    return withTrust(structuredClone(result), config.trustedCommandFiles);
+  }
+
+  /**
+   * Drop all cached detection results.
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Watch the files a detection result's metadata was read from (the Node
+   * project's package.json and any Makefile, justfile or Taskfile) and its
+   * command file, replacing any previous watch. When one changes, cached results are
+   * dropped and onChange() callbacks receive the directory detection
+   * started from.
+   *
+   * Each file's directory is watched rather than the file itself, because
+   * many editors save by writing a new file and renaming it over the old one.
    */
-  async detect(directory: string): Promise<ProjectType[]> {
-    const detectedTypes = new Set<ProjectType>();
+  watch(result: ProjectDetectionResult): void {
+    this.unwatch();
+
+    const filesByDirectory = new Map<string, Set<string>>();
+    const addFile = (directory: string, file: string): void => {
+      const files = filesByDirectory.get(directory) ?? new Set<string>();
+      files.add(file);
+      filesByDirectory.set(directory, files);
+    };
+    if (result.roots.node && result.metadata.node) {
+      addFile(result.roots.node, 'package.json');
+    }
+    for (const marker of result.markers) {
+      if (result.metadata.tasks.some((task) => task.runner === marker.type && task.file === marker.file)) {
+        addFile(marker.directory, marker.file);
+      }
+    }
+    if (result.commandFile) {
+      addFile(path.dirname(result.commandFile.filePath), path.basename(result.commandFile.filePath));
+    }
 
-    // Check each marker file in parallel
-    const checks = Object.entries(MARKER_MAP).map(async ([markerFile, projectType]) => {
+    for (const [directory, files] of filesByDirectory) {
       try {
-        await fs.access(path.join(directory, markerFile));
-        detectedTypes.add(projectType);
+        const watcher = watch(directory, { persistent: false }, (_eventType, fileName) => {
+          // fileName is not reported on every platform; treat that as a change
+          if (fileName && !files.has(fileName.toString())) return;
+          this.scheduleChange(result.directory);
+        });
+        watcher.on('error', () => watcher.close());
+        this.watchers.push(watcher);
       } catch {
-        // File doesn't exist, skip this marker
+        // Directory vanished or cannot be watched; its commands just won't refresh
       }
-    });
+    }
+  }
 
-    await Promise.all(checks);
+  /**
+   * Stop watching project files.
+   */
+  unwatch(): void {
+    if (this.watchTimer !== null) {
+      clearTimeout(this.watchTimer);
+      this.watchTimer = null;
+    }
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
 
-    return Array.from(detectedTypes);
+  /**
+   * Register a callback to be notified when a watched project file changes.
+   * Multiple callbacks can be registered.
+   *
+   * @param callback - Receives the directory whose detection is stale
+   */
+  onChange(callback: (directory: string) => void): void {
+    this.changeCallbacks.push(callback);
   }
 
   /**
-   * Returns the marker file to project type mapping.
+   * Returns the built-in marker file to project type mapping.
    * Useful for debugging or UI display of what files are being checked.
    */
   getMarkerMap(): Record<string, ProjectType> {
-    return { ...MARKER_MAP };
+    const map: Record<string, ProjectType> = {};
+    for (const detector of BUILT_IN_DETECTORS) {
+      for (const marker of detector.markers) {
+        map[marker] ??= detector.type;
+      }
+    }
+    return map;
+  }
+
+  /**
+   * Report a change to the watched files once saving has settled.
+   */
+  private scheduleChange(directory: string): void {
+    if (this.watchTimer !== null) {
+      clearTimeout(this.watchTimer);
+    }
+    this.watchTimer = setTimeout(() => {
+      this.watchTimer = null;
+      this.clearCache();
+      for (const callback of this.changeCallbacks) {
+        callback(directory);
+      }
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Walk from `start` toward the root, checking each directory for the
+   * markers of the detectors that have not matched yet and, until one is
+   * found, for a command file.
+   */
+  private async scan(
+    start: string,
+    stopAt: Set<string>,
+    detectors: ProjectDetectorDefinition[]
+  ): Promise<ProjectDetectionResult> {
+    const markers: DetectedMarker[] = [];
+    const roots: Partial<Record<ProjectType, string>> = {};
+    const remaining = new Set(detectors);
+    let commandFile: ProjectCommandFile | null = null;
+
+    let current = start;
+    for (let depth = 0; depth < MAX_WALK_DEPTH && (remaining.size > 0 || commandFile === null); depth++) {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(current);
+      } catch {
+        // Unreadable directory; keep walking up
+        entries = [];
+      }
+
+      for (const detector of [...remaining]) {
+        const file = findMarker(entries, detector.markers);
+        if (file === null) continue;
+        remaining.delete(detector);
+        markers.push({ file, type: detector.type, directory: current });
+        roots[detector.type] = current;
+      }
+
+      if (commandFile === null) {
+        const file = await findCommandFile(current, entries);
+        if (file !== null) {
+          commandFile = await readProjectCommandFile(current, file);
+        }
+      }
+
+      const parent = path.dirname(current);
+      if (stopAt.has(current) || parent === current) {
+        break;
+      }
+      current = parent;
+    }
+
+    // Report types in registry order, which is also category tab order
+    return {
+      directory: start,
+      types: detectors.map((d) => d.type).filter((type) => roots[type] !== undefined),
+      markers,
+      roots,
+      metadata: await readProjectMetadata(roots, markers),
+      commandFile,
+    };
+  }
+}
+
+/**
+ * Find the first directory entry matching any of the markers.
+ */
+function findMarker(entries: string[], patterns: string[]): string | null {
+  for (const pattern of patterns) {
+    const match = entries.find((entry) => matchesMarker(entry, pattern));
+    if (match !== undefined) {
+      return match;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the first of PROJECT_COMMAND_FILES that exists in a directory.
+ *
+ * @param entries - The directory's entries, to skip the stat() calls for
+ *                  files that are not there
+ */
+async function findCommandFile(directory: string, entries: string[]): Promise<string | null> {
+  for (const file of PROJECT_COMMAND_FILES) {
+    if (!entries.includes(file.split(path.sep)[0])) continue;
+    try {
+      const stats = await fs.stat(path.join(directory, file));
+      if (stats.isFile()) {
+        return file;
+      }
+    } catch {
+      // Not there (e.g. a .commandcanvas directory without commands.yaml)
+    }
+  }
+  return null;
+}
+
+/**
+ * Set a detection result's command file trust from the approved files.
+ * Trust is not cached, so approving a file takes effect immediately.
+ */
+function withTrust(
+  result: ProjectDetectionResult,
+  trusted: Record<string, string> | undefined
+): ProjectDetectionResult {
+  if (result.commandFile) {
+    result.commandFile.trust = getCommandFileTrust(result.commandFile, trusted);
+  }
+  return result;
+}
+
+/**
+ * Resolve a configured boundary to an absolute path, expanding a leading '~'.
+ */
+function resolveBoundary(boundary: string): string {
+  if (boundary === '~' || boundary.startsWith('~/') || boundary.startsWith('~\\')) {
+    return path.resolve(os.homedir(), boundary.slice(2));
   }
+  return path.resolve(boundary);
 }
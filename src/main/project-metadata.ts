@@ -0,0 +1,181 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  ComposeProjectInfo,
+  DetectedMarker,
+  NodePackageManager,
+  NodeProjectInfo,
+  NodeScript,
+  ProjectMetadata,
+  ProjectType,
+  PythonPackageManager,
+  PythonProjectInfo,
+} from '../shared/types';
+import { discoverTasks } from './task-discovery';
+
+/**
+ * Marker files only say which kind of project a directory holds. The
+ * functions here read the project files themselves to learn how it is
+ * driven: which package manager installs dependencies, which lockfile
+ * pins them, which scripts package.json defines and which compose file
+ * describes the services, plus the tasks of any Makefile, justfile or
+ * Taskfile (see task-discovery.ts). default-commands.ts uses this to adapt
+ * the built-in commands, e.g. `npm install` becomes `pnpm install`.
+ *
+ * Unreadable or malformed files are treated as absent.
+ */
+
+/** Node lockfiles in precedence order, with the package manager that writes them */
+const NODE_LOCKFILES: Array<[string, NodePackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+/** Python lockfiles in precedence order, with the package manager that writes them */
+const PYTHON_LOCKFILES: Array<[string, PythonPackageManager]> = [
+  ['uv.lock', 'uv'],
+  ['poetry.lock', 'poetry'],
+  ['Pipfile.lock', 'pipenv'],
+];
+
+/**
+ * Read the metadata of the detected Node, Python and Compose projects and
+ * discover the tasks of the detected task runner files.
+ *
+ * @param roots - Project root of each detected type
+ * @param markers - Markers found during detection
+ */
+export async function readProjectMetadata(
+  roots: Partial<Record<ProjectType, string>>,
+  markers: DetectedMarker[]
+): Promise<ProjectMetadata> {
+  const composeMarker = markers.find((marker) => marker.type === 'compose');
+
+  const [node, python, tasks] = await Promise.all([
+    roots.node ? readNodeInfo(roots.node, roots.git) : null,
+    roots.python ? readPythonInfo(roots.python) : null,
+    discoverTasks(markers),
+  ]);
+
+  return {
+    node,
+    python,
+    compose: composeMarker ? readComposeInfo(composeMarker) : null,
+    tasks,
+  };
+}
+
+async function readNodeInfo(root: string, gitRoot: string | undefined): Promise<NodeProjectInfo> {
+  let manifest: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(await fs.readFile(path.join(root, 'package.json'), 'utf-8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      manifest = parsed;
+    }
+  } catch {
+    // Unreadable or malformed package.json; fall back to the lockfile
+  }
+
+  const scripts: NodeScript[] =
+    manifest.scripts && typeof manifest.scripts === 'object'
+      ? Object.entries(manifest.scripts as Record<string, unknown>)
+          .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+          .map(([name, body]) => ({ name, body }))
+      : [];
+
+  // In a workspace the lockfile sits at the workspace root, so look in
+  // each directory up to the repository root
+  let lockfile: string | null = null;
+  let lockfileManager: NodePackageManager | null = null;
+  for (const directory of directoriesUpTo(root, gitRoot)) {
+    const entries = await listDirectory(directory);
+    const match = NODE_LOCKFILES.find(([file]) => entries.includes(file));
+    if (match) {
+      [lockfile, lockfileManager] = match;
+      break;
+    }
+  }
+
+  return {
+    packageManager: parsePackageManagerField(manifest.packageManager) ?? lockfileManager ?? 'npm',
+    lockfile,
+    scripts,
+  };
+}
+
+async function readPythonInfo(root: string): Promise<PythonProjectInfo> {
+  const entries = await listDirectory(root);
+
+  const match = PYTHON_LOCKFILES.find(([file]) => entries.includes(file));
+  if (match) {
+    return { packageManager: match[1], lockfile: match[0] };
+  }
+
+  if (entries.includes('Pipfile')) {
+    return { packageManager: 'pipenv', lockfile: null };
+  }
+
+  if (entries.includes('pyproject.toml')) {
+    try {
+      const pyproject = await fs.readFile(path.join(root, 'pyproject.toml'), 'utf-8');
+      if (/^\[tool\.poetry\]/m.test(pyproject)) {
+        return { packageManager: 'poetry', lockfile: null };
+      }
+      if (/^\[tool\.uv\]/m.test(pyproject)) {
+        return { packageManager: 'uv', lockfile: null };
+      }
+    } catch {
+      // Unreadable pyproject.toml; assume pip
+    }
+  }
+
+  return { packageManager: 'pip', lockfile: null };
+}
+
+function readComposeInfo(marker: DetectedMarker): ComposeProjectInfo {
+  return { file: marker.file };
+}
+
+/**
+ * Parse the package.json "packageManager" field, e.g. "pnpm@9.1.0".
+ */
+function parsePackageManagerField(value: unknown): NodePackageManager | null {
+  if (typeof value !== 'string') return null;
+  const name = value.split('@')[0];
+  return name === 'npm' || name === 'pnpm' || name === 'yarn' || name === 'bun' ? name : null;
+}
+
+/**
+ * List `start` and its ancestors up to and including `top`. If `top` is
+ * not an ancestor of `start`, only `start` is listed.
+ */
+function directoriesUpTo(start: string, top: string | undefined): string[] {
+  const directories = [start];
+  if (!top) return directories;
+
+  const relative = path.relative(top, start);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return directories;
+  }
+
+  let current = start;
+  while (current !== top) {
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+    directories.push(current);
+  }
+  return directories;
+}
+
+async function listDirectory(directory: string): Promise<string[]> {
+  try {
+    return await fs.readdir(directory);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { app } from 'electron';
+
+/**
+ * Shell integration makes supported shells report prompt and command
+ * boundaries with OSC 133 escape sequences:
+ *   A = prompt start, B = prompt end (input start),
+ *   C = command output start, D;<exit code> = command finished
+ * and their working directory with OSC 7 (`file://<host><path>`).
+ *
+ * The scripts live in assets/shell-integration/ and are loaded without
+ * touching the user's dotfiles:
+ * - bash: `--init-file`, which sources the usual startup files first
+ * - zsh:  ZDOTDIR pointing at wrapper dotfiles that source the user's own
+ * - fish: `--init-command`, which runs after the user's config
+ */
+
+/** Launch arguments and environment with shell integration applied */
+export interface IntegratedLaunch {
+  args: string[];
+  env: Record<string, string>;
+}
+
+/**
+ * Get the directory holding the shell integration scripts.
+ * In packaged builds it is shipped as an extra resource.
+ */
+export function getShellIntegrationDir(): string {
+  return app.isPackaged
+    ? path.join(process.resourcesPath, 'shell-integration')
+    : path.join(__dirname, '../../assets/shell-integration');
+}
+
+/**
+ * Rewrite a shell's launch arguments and environment so it loads the
+ * integration script.
+ *
+ * Returns null, leaving the launch untouched, when the shell is not
+ * bash, zsh or fish, when the arguments already choose what the shell
+ * runs (a `-c` command, a script, or skipped startup files), or when the
+ * script is missing.
+ *
+ * @param executable - Resolved path of the shell binary
+ * @param args - Configured shell arguments
+ * @param env - Environment the shell will be spawned with
+ * @param integrationDir - Directory from getShellIntegrationDir()
+ */
+export function applyShellIntegration(
+  executable: string,
+  args: string[],
+  env: Record<string, string>,
+  integrationDir: string
+): IntegratedLaunch | null {
+  const shellName = path.basename(executable, path.extname(executable)).toLowerCase();
+
+  switch (shellName) {
+    case 'bash':
+      return applyBash(args, env, integrationDir);
+    case 'zsh':
+      return applyZsh(args, env, integrationDir);
+    case 'fish':
+      return applyFish(args, env, integrationDir);
+    default:
+      return null;
+  }
+}
+
+function applyBash(
+  args: string[],
+  env: Record<string, string>,
+  integrationDir: string
+): IntegratedLaunch | null {
+  const script = path.join(integrationDir, 'bash-integration.sh');
+  if (!isReadable(script)) return null;
+
+  const optOut = ['-c', '--rcfile', '--init-file', '--norc', '--posix'];
+  if (args.some((arg) => optOut.includes(arg) || !arg.startsWith('-'))) {
+    return null;
+  }
+
+  // --init-file is ignored by login shells, so log in from the script instead
+  const login = args.some((arg) => arg === '-l' || arg === '--login');
+  const rest = args.filter((arg) => arg !== '-l' && arg !== '--login');
+
+  return {
+    args: ['--init-file', script, ...rest],
+    env: login ? { ...env, COMMANDCANVAS_SHELL_LOGIN: '1' } : env,
+  };
+}
+
+function applyZsh(
+  args: string[],
+  env: Record<string, string>,
+  integrationDir: string
+): IntegratedLaunch | null {
+  const zdotdir = path.join(integrationDir, 'zsh');
+  if (!isReadable(path.join(zdotdir, '.zshrc'))) return null;
+
+  const optOut = ['-c', '-f', '--no-rcs', '--no-globalrcs'];
+  if (args.some((arg) => optOut.includes(arg) || !arg.startsWith('-'))) {
+    return null;
+  }
+
+  return {
+    args,
+    env: {
+      ...env,
+      COMMANDCANVAS_USER_ZDOTDIR: env.ZDOTDIR || env.HOME || os.homedir(),
+      ZDOTDIR: zdotdir,
+    },
+  };
+}
+
+function applyFish(
+  args: string[],
+  env: Record<string, string>,
+  integrationDir: string
+): IntegratedLaunch | null {
+  const script = path.join(integrationDir, 'fish-integration.fish');
+  if (!isReadable(script)) return null;
+
+  const optOut = ['-c', '--command', '-N', '--no-config'];
+  if (args.some((arg) => optOut.includes(arg) || arg.startsWith('--command=') || !arg.startsWith('-'))) {
+    return null;
+  }
+
+  const quoted = `'${script.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  return {
+    args: [...args, '--init-command', `source ${quoted}`],
+    env,
+  };
+}
+
+function isReadable(filePath: string): boolean {
+  try {
+    fs.accessSync(filePath, fs.constants.R_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,179 +1,583 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as pty from 'node-pty';
-import { getDefaultShell, IS_WINDOWS } from './constants';
+import type { ShellCommandEvent, ShellProfile } from '../shared/types';
+import { getDefaultShell, IS_LINUX, IS_WINDOWS } from './constants';
 import { Logger } from './logger';
+import { OscParser } from './osc-parser';
+import { applyShellIntegration, getShellIntegrationDir } from './shell-integration';
 
 /**
- * ShellManager manages the node-pty process lifecycle.
+ * A single PTY-backed shell session tracked by the ShellManager.
+ */
+interface ShellSession {
+  id: string;
+  ptyProcess: pty.IPty;
+  /** Live working directory (spawn directory until the shell reports one) */
+  cwd: string;
+  /** The environment the shell was started with */
+  env: Record<string, string>;
+  killedByUser: boolean;
+  /** Extracts OSC sequences (shell integration markers) from the output */
+  oscParser: OscParser;
+  /** When the running command started (OSC 133 C), or null at the prompt */
+  commandStartedAt: number | null;
+  /** Whether the shell reports its directory via OSC 7 */
+  reportsCwd: boolean;
+  /** Linux fallback: polls /proc/<pid>/cwd until the shell reports OSC 7 */
+  cwdPollTimer: ReturnType<typeof setInterval> | null;
+}
+
+/** How often the /proc/<pid>/cwd fallback checks for a directory change */
+const CWD_POLL_INTERVAL_MS = 1000;
+
+/**
+ * ShellManager manages the node-pty process lifecycle for every
+ * shell session in the application.
  *
  * Responsibilities:
- * - Spawn a new shell process (one per application window)
- * - Write data (keystrokes) to the shell
- * - Resize the PTY when the terminal viewport changes
- * - Kill the shell process on window close or crash
- * - Forward data and exit events to registered callbacks
+ * - Spawn new shell processes, each keyed by a renderer-assigned session ID
+ * - Write data (keystrokes) to a specific session
+ * - Resize a session's PTY when its terminal viewport changes
+ * - Kill individual sessions, or all of them on window close
+ * - Forward data and exit events (tagged with the session ID) to registered callbacks
+ * - Load shell integration and report per-command events parsed from its
+ *   OSC 133 markers
+ * - Track each session's live working directory (OSC 7, falling back to
+ *   /proc/<pid>/cwd on Linux) and report changes
  *
- * The shell is NOT spawned automatically; the renderer must
+ * Shells are NOT spawned automatically; the renderer must
  * request a spawn via the shell:spawn IPC channel.
  */
 export class ShellManager {
-  private ptyProcess: pty.IPty | null = null;
-  private dataCallbacks: Array<(data: string) => void> = [];
-  private exitCallbacks: Array<(exitCode: number, signal?: number) => void> = [];
-  private currentCwd: string;
+  private sessions = new Map<string, ShellSession>();
+  private dataCallbacks: Array<(sessionId: string, data: string) => void> = [];
+  private exitCallbacks: Array<(sessionId: string, exitCode: number, signal?: number) => void> = [];
+  private commandCallbacks: Array<(event: ShellCommandEvent) => void> = [];
+  private cwdCallbacks: Array<(sessionId: string, cwd: string) => void> = [];
   private logger: Logger | null = null;
-  private killedByUser = false;
 
   constructor(logger?: Logger) {
-    this.currentCwd = process.env.HOME || process.env.USERPROFILE || '/';
     if (logger) {
       this.logger = logger;
     }
   }
 
   /**
-   * Spawn a new shell process.
-   * If a shell is already running, it is killed first.
+   * Spawn a new shell process for the given session.
+   * If the session already has a running shell, it is killed first.
    *
-   * @param cwd - Working directory for the shell
+   * The shell binary, its arguments, extra environment variables and the
+   * working directory all come from the profile, which the caller resolves
+   * against the shell config (see ConfigManager.resolveProfile()). See
+   * buildShellEnv() for env precedence.
+   *
+   * @param sessionId - Unique session identifier chosen by the renderer
+   * @param profile - Resolved shell profile to launch
    * @param cols - Terminal column count
    * @param rows - Terminal row count
+   * @param shellIntegration - Load the OSC 133 integration script if the
+   *                           shell supports it
+   * @throws Error with a user-facing message if the shell binary cannot be
+   *         found or the PTY fails to start
    */
-  spawn(cwd: string, cols: number, rows: number): void {
-    // Kill existing shell if any
-    if (this.ptyProcess) {
-      this.kill();
+  spawn(
+    sessionId: string,
+    profile: ShellProfile,
+    cols: number,
+    rows: number,
+    shellIntegration = true
+  ): void {
+    // Kill existing shell for this session if any
+    if (this.sessions.has(sessionId)) {
+      this.kill(sessionId);
     }
 
-    // Clear previously registered callbacks to prevent accumulation
-    // across respawns. Callers re-register on each shell:spawn event.
-    this.dataCallbacks = [];
-    this.exitCallbacks = [];
+    let env = buildShellEnv(profile.env);
+    const configuredShell = typeof profile.shell === 'string' ? profile.shell.trim() : '';
+    const shell = configuredShell || getDefaultShell();
+    let args = Array.isArray(profile.args)
+      ? profile.args.filter((arg): arg is string => typeof arg === 'string')
+      : [];
+    const cwd = path.resolve(profile.cwd || '.');
 
-    this.currentCwd = cwd;
-    this.killedByUser = false;
+    // node-pty does not report a missing binary reliably (on POSIX the
+    // forked child just dies), so resolve it up front
+    const executable = findExecutable(shell, env.PATH ?? env.Path ?? '');
+    if (!executable) {
+      throw new Error(
+        configuredShell
+          ? `Shell "${shell}" for profile "${profile.name}" was not found or is not executable. Check "shell.defaultShell" or the profile's "shell" in your config.`
+          : `Default shell "${shell}" was not found or is not executable. Set "shell.defaultShell" in your config.`
+      );
+    }
 
-    const shell = getDefaultShell();
+    const integrated = shellIntegration
+      ? applyShellIntegration(executable, args, env, getShellIntegrationDir())
+      : null;
+    if (integrated) {
+      args = integrated.args;
+      env = integrated.env;
+    }
 
     const startTime = Date.now();
 
-    this.ptyProcess = pty.spawn(shell, [], {
-      name: 'xterm-256color',
-      cols: cols,
-      rows: rows,
-      cwd: cwd,
-      env: {
-        ...process.env,
-        TERM: 'xterm-256color',
-      } as Record<string, string>,
-    });
+    let ptyProcess: pty.IPty;
+    try {
+      ptyProcess = pty.spawn(executable, args, {
+        name: 'xterm-256color',
+        cols: cols,
+        rows: rows,
+        cwd: cwd,
+        env,
+      });
+    } catch (err) {
+      throw new Error(`Failed to start shell "${executable}": ${err instanceof Error ? err.message : err}`);
+    }
+
+    const session: ShellSession = {
+      id: sessionId,
+      ptyProcess,
+      cwd,
+      env,
+      killedByUser: false,
+      oscParser: new OscParser(),
+      commandStartedAt: null,
+      reportsCwd: false,
+      cwdPollTimer: null,
+    };
+    this.sessions.set(sessionId, session);
+
+    if (IS_LINUX) {
+      session.cwdPollTimer = setInterval(() => this.pollCwd(session), CWD_POLL_INTERVAL_MS);
+    }
+
+    // Report the starting directory too: setCwd() only reports changes,
+    // and a shell that stays where it started would never be reported
+    for (const callback of this.cwdCallbacks) {
+      callback(sessionId, cwd);
+    }
 
     const elapsed = Date.now() - startTime;
-    this.logger?.info(`Shell spawned: cwd=${cwd}, shell=${shell}`);
+    this.logger?.info(
+      `Shell spawned: session=${sessionId}, profile=${profile.id}, cwd=${cwd}, shell=${executable}, args=[${args.join(', ')}], integration=${integrated !== null}`
+    );
     this.logger?.debug(`Shell spawn completed in ${elapsed}ms`);
 
     // Forward data events
-    this.ptyProcess.onData((data: string) => {
+    ptyProcess.onData((data: string) => {
       for (const callback of this.dataCallbacks) {
-        callback(data);
+        callback(sessionId, data);
+      }
+
+      for (const sequence of session.oscParser.feed(data)) {
+        if (sequence.code === '133') {
+          this.handleCommandMarker(session, sequence.data);
+        } else if (sequence.code === '7') {
+          this.handleCwdReport(session, sequence.data);
+        }
       }
     });
 
     // Forward exit events
-    this.ptyProcess.onExit(({ exitCode, signal }) => {
-      if (!this.killedByUser) {
+    ptyProcess.onExit(({ exitCode, signal }) => {
+      // A respawn replaced this process; its exit is no longer relevant
+      const current = this.sessions.get(sessionId);
+      if (current && current.ptyProcess !== ptyProcess) {
+        return;
+      }
+
+      stopCwdPolling(session);
+
+      if (!session.killedByUser) {
         this.logger?.error(
-          `Shell exited unexpectedly: exitCode=${exitCode}, signal=${signal}`
+          `Shell exited unexpectedly: session=${sessionId}, exitCode=${exitCode}, signal=${signal}`
         );
       } else {
-        this.logger?.info(`Shell exited: code=${exitCode}`);
+        this.logger?.info(`Shell exited: session=${sessionId}, code=${exitCode}`);
       }
 
+      this.sessions.delete(sessionId);
+
       for (const callback of this.exitCallbacks) {
-        callback(exitCode, signal);
+        callback(sessionId, exitCode, signal);
       }
-
-      this.ptyProcess = null;
     });
   }
 
   /**
-   * Write data to the running shell process.
+   * Write data to a running shell session.
    * Each character or string is forwarded directly to the PTY.
    *
+   * @param sessionId - Target session
    * @param data - The string data to write (keystroke, paste, etc.)
    */
-  write(data: string): void {
-    if (this.ptyProcess) {
-      this.ptyProcess.write(data);
+  write(sessionId: string, data: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.ptyProcess.write(data);
     }
   }
 
   /**
-   * Resize the PTY to match new terminal dimensions.
+   * Resize a session's PTY to match new terminal dimensions.
    *
+   * @param sessionId - Target session
    * @param cols - New column count
    * @param rows - New row count
    */
-  resize(cols: number, rows: number): void {
-    if (this.ptyProcess) {
+  resize(sessionId: string, cols: number, rows: number): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
       try {
-        this.ptyProcess.resize(cols, rows);
-        this.logger?.info(`Shell resized: ${cols}x${rows}`);
+        session.ptyProcess.resize(cols, rows);
+        this.logger?.info(`Shell resized: session=${sessionId}, ${cols}x${rows}`);
       } catch (err) {
-        this.logger?.error(`Shell resize failed: ${err}`);
+        this.logger?.error(`Shell resize failed: session=${sessionId}, ${err}`);
       }
     }
   }
 
   /**
-   * Kill the running shell process.
-   * This is called when the window closes or the user explicitly stops the shell.
+   * Kill a running shell session.
+   * This is called when the user closes a tab or explicitly stops the shell.
+   *
+   * @param sessionId - Target session
    */
-  kill(): void {
-    if (this.ptyProcess) {
-      this.killedByUser = true;
+  kill(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.killedByUser = true;
+      stopCwdPolling(session);
       try {
-        this.ptyProcess.kill();
+        session.ptyProcess.kill();
       } catch (err) {
-        this.logger?.error(`Shell kill failed: ${err}`);
+        this.logger?.error(`Shell kill failed: session=${sessionId}, ${err}`);
       }
-      this.ptyProcess = null;
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Kill every running shell session.
+   * This is called when the window closes or the app quits.
+   */
+  killAll(): void {
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.kill(sessionId);
     }
   }
 
   /**
-   * Register a callback to receive shell output data.
+   * Register a callback to receive shell output data from any session.
    * Multiple callbacks can be registered.
    *
-   * @param callback - Function called with each chunk of shell output
+   * @param callback - Function called with the session ID and each chunk of shell output
    */
-  onData(callback: (data: string) => void): void {
+  onData(callback: (sessionId: string, data: string) => void): void {
     this.dataCallbacks.push(callback);
   }
 
   /**
-   * Register a callback to be notified when the shell process exits.
+   * Register a callback to be notified when any shell session exits.
    * Multiple callbacks can be registered.
    *
-   * @param callback - Function called with exit code and optional signal number
+   * @param callback - Function called with the session ID, exit code and optional signal number
    */
-  onExit(callback: (exitCode: number, signal?: number) => void): void {
+  onExit(callback: (sessionId: string, exitCode: number, signal?: number) => void): void {
     this.exitCallbacks.push(callback);
   }
 
   /**
-   * Check whether the shell process is currently running.
+   * Register a callback to receive per-command events reported by shell
+   * integration (prompt shown, command started, command finished).
+   * Multiple callbacks can be registered.
+   *
+   * @param callback - Function called with each command event
+   */
+  onCommand(callback: (event: ShellCommandEvent) => void): void {
+    this.commandCallbacks.push(callback);
+  }
+
+  /**
+   * Register a callback to be notified of a session's starting directory
+   * when its shell is spawned, and whenever its working directory changes.
+   * Multiple callbacks can be registered.
+   *
+   * @param callback - Function called with the session ID and the new absolute directory
    */
-  isAlive(): boolean {
-    return this.ptyProcess !== null;
+  onCwdChange(callback: (sessionId: string, cwd: string) => void): void {
+    this.cwdCallbacks.push(callback);
   }
 
   /**
-   * Get the current working directory that was used to spawn the shell.
-   * Note: This returns the initial CWD; it does not track `cd` commands
-   * issued within the shell.
+   * Check whether the given session's shell process is currently running.
    */
-  getCwd(): string {
-    return this.currentCwd;
+  isAlive(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Get the IDs of all running shell sessions.
+   */
+  getSessionIds(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Get the session shell's current working directory, as last reported
+   * by shell integration (OSC 7) or read from /proc on Linux. Until the
+   * first report this is the directory the shell was spawned in.
+   */
+  getCwd(sessionId: string): string {
+    return this.sessions.get(sessionId)?.cwd || process.env.HOME || process.env.USERPROFILE || '/';
+  }
+
+  /**
+   * Read the session shell's working directory from /proc/<pid>/cwd
+   * (Linux only). Unlike getCwd(), which follows OSC 7 reports that any
+   * program printing to the terminal can fake, this is where the shell
+   * process really is. Null elsewhere, or if the process is gone.
+   */
+  readProcessCwd(sessionId: string): string | null {
+    const session = this.sessions.get(sessionId);
+    if (!IS_LINUX || !session) {
+      return null;
+    }
+    try {
+      return fs.readlinkSync(`/proc/${session.ptyProcess.pid}/cwd`);
+    } catch {
+      return null;
+    }
   }
+
+  /**
+   * Get the environment the session's shell was started with (the app's
+   * environment plus the profile's). Variables exported in the shell
+   * since are not included. Without a session, the app's environment.
+   */
+  getEnv(sessionId: string | null): Record<string, string> {
+    return (sessionId !== null ? this.sessions.get(sessionId)?.env : undefined) ?? buildShellEnv();
+  }
+
+  /**
+   * Update a session's working directory and notify listeners if it changed.
+   */
+  private setCwd(session: ShellSession, cwd: string): void {
+    if (cwd === session.cwd || this.sessions.get(session.id) !== session) {
+      return;
+    }
+
+    session.cwd = cwd;
+    this.logger?.debug(`Shell cwd changed: session=${session.id}, cwd=${cwd}`);
+    for (const callback of this.cwdCallbacks) {
+      callback(session.id, cwd);
+    }
+  }
+
+  /**
+   * Handle an OSC 7 report (`file://<host><path>`). Reports from other
+   * hosts (e.g. a shell inside ssh) are ignored, since their paths do not
+   * exist on this machine. The first valid report stops the /proc fallback.
+   */
+  private handleCwdReport(session: ShellSession, data: string): void {
+    const cwd = parseFileUrl(data);
+    if (!cwd) {
+      return;
+    }
+
+    session.reportsCwd = true;
+    stopCwdPolling(session);
+    this.setCwd(session, cwd);
+  }
+
+  /**
+   * Linux fallback for shells without OSC 7: read the shell's cwd link.
+   */
+  private pollCwd(session: ShellSession): void {
+    if (session.reportsCwd) {
+      stopCwdPolling(session);
+      return;
+    }
+
+    fs.promises.readlink(`/proc/${session.ptyProcess.pid}/cwd`)
+      .then((cwd) => {
+        if (!session.reportsCwd) {
+          this.setCwd(session, cwd);
+        }
+      })
+      .catch(() => {
+        // The process is gone or /proc is unavailable; the exit handler cleans up
+      });
+  }
+
+  /**
+   * Turn an OSC 133 marker (`A`, `B`, `C` or `D[;exit code]`) into a
+   * command event. A `D` without a preceding `C` (e.g. Ctrl+C at an empty
+   * prompt in some shells) is ignored.
+   */
+  private handleCommandMarker(session: ShellSession, data: string): void {
+    const [marker, exitCodeText] = data.split(';');
+    let event: ShellCommandEvent;
+
+    switch (marker) {
+      case 'A':
+        event = { sessionId: session.id, phase: 'prompt', exitCode: null, durationMs: null };
+        break;
+      case 'B':
+        event = { sessionId: session.id, phase: 'input', exitCode: null, durationMs: null };
+        break;
+      case 'C':
+        session.commandStartedAt = Date.now();
+        event = { sessionId: session.id, phase: 'start', exitCode: null, durationMs: null };
+        break;
+      case 'D': {
+        if (session.commandStartedAt === null) {
+          return;
+        }
+        const exitCode = exitCodeText !== undefined && /^-?\d+$/.test(exitCodeText)
+          ? Number(exitCodeText)
+          : null;
+        event = {
+          sessionId: session.id,
+          phase: 'finish',
+          exitCode,
+          durationMs: Date.now() - session.commandStartedAt,
+        };
+        session.commandStartedAt = null;
+        this.logger?.debug(
+          `Command finished: session=${session.id}, exitCode=${exitCode}, duration=${event.durationMs}ms`
+        );
+        break;
+      }
+      default:
+        return;
+    }
+
+    for (const callback of this.commandCallbacks) {
+      callback(event);
+    }
+  }
+}
+
+// ============================================================
+// Spawn Helpers
+// ============================================================
+
+/**
+ * Build the environment for a new shell. Precedence, lowest to highest:
+ * 1. The app's own process.env
+ * 2. TERM=xterm-256color, since xterm.js renders the output
+ * 3. The profile's env (ShellConfig.env overlaid with the profile's own
+ *    entries), so users can override anything (even TERM)
+ *
+ * Non-string values in the configured env are ignored.
+ */
+function buildShellEnv(configEnv?: Record<string, string>): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (typeof value === 'string') {
+      env[key] = value;
+    }
+  }
+
+  env.TERM = 'xterm-256color';
+
+  if (configEnv && typeof configEnv === 'object') {
+    for (const [key, value] of Object.entries(configEnv)) {
+      if (typeof value === 'string') {
+        env[key] = value;
+      }
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Resolve a shell command to an executable file path.
+ * Commands containing a path separator are checked as-is; bare names are
+ * looked up on the given PATH (trying PATHEXT extensions on Windows).
+ *
+ * @returns The resolved path, or null if no executable file was found
+ */
+function findExecutable(command: string, searchPath: string): string | null {
+  const extensions = IS_WINDOWS && !path.extname(command)
+    ? (process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';').filter(Boolean)
+    : [''];
+
+  const candidates = command.includes('/') || command.includes('\\')
+    ? [command]
+    : searchPath.split(path.delimiter).filter(Boolean).map((dir) => path.join(dir, command));
+
+  for (const candidate of candidates) {
+    for (const ext of extensions) {
+      const fullPath = candidate + ext;
+      try {
+        if (!fs.statSync(fullPath).isFile()) {
+          continue;
+        }
+        fs.accessSync(fullPath, IS_WINDOWS ? fs.constants.F_OK : fs.constants.X_OK);
+        return fullPath;
+      } catch {
+        // Not present or not executable; try the next candidate
+      }
+    }
+  }
+
+  return null;
+}
+
+// ============================================================
+// Working Directory Helpers
+// ============================================================
+
+/**
+ * Stop the /proc/<pid>/cwd fallback for a session, if it is running.
+ */
+function stopCwdPolling(session: ShellSession): void {
+  if (session.cwdPollTimer !== null) {
+    clearInterval(session.cwdPollTimer);
+    session.cwdPollTimer = null;
+  }
+}
+
+/**
+ * Parse an OSC 7 `file://<host><path>` URL into a local path.
+ *
+ * @returns The decoded path, or null if the URL is malformed, names
+ *          another host or has `.` or `..` segments, which a shell's
+ *          working directory never has
+ */
+function parseFileUrl(url: string): string | null {
+  const match = /^file:\/\/([^/]*)(\/.*)$/.exec(url);
+  if (!match) {
+    return null;
+  }
+
+  const [, host, rawPath] = match;
+  if (host && host !== 'localhost' && host.toLowerCase() !== os.hostname().toLowerCase()) {
+    return null;
+  }
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(rawPath);
+  } catch {
+    // Shells that do not percent-encode may send a literal '%'
+    decoded = rawPath;
+  }
+
+  if (decoded.split(/[\\/]/).some((segment) => segment === '.' || segment === '..')) {
+    return null;
+  }
+
+  // file:///C:/Users/... -> C:/Users/...
+  if (IS_WINDOWS && /^\/[A-Za-z]:/.test(decoded)) {
+    decoded = decoded.slice(1);
+  }
+
+  return path.normalize(decoded);
 }
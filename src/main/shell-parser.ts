@@ -0,0 +1,480 @@
+/**
+ * Shell command line parser for the warning engine.
+ *
+ * Splits a command line the way a POSIX shell would before running it:
+ * quotes and backslash escapes are removed, `&&`, `||`, `;`, `&` and
+ * newlines separate commands, `|` joins them into pipelines, and the
+ * command lines inside `( … )` subshells, `$( … )`, backticks and
+ * `<( … )` process substitutions are parsed as commands of their own.
+ * Redirections and their targets, comments and reserved words such as
+ * `if`, `then` and `do` are left out of the words; leading variable
+ * assignments are kept apart from them.
+ *
+ * Wrapper commands are unwrapped: `sudo rm -rf /` is the command `sudo`
+ * wrapping `rm -rf /`, so rules can match either. The strings given to
+ * `sh -c` and `eval` are parsed as command lines too.
+ *
+ * The parser never fails: input a shell would reject or ask to continue
+ * (an unterminated quote) is read as far as it goes. It does not expand
+ * variables, globs or aliases; `$HOME` stays `$HOME`.
+ */
+
+/** One command with its arguments, as the shell would run it */
+export interface ShellCommand {
+  /** Program name without its directory, e.g. 'rm' for `/bin/rm`; '' if there is none */
+  program: string;
+  /** Arguments after the program, with quotes and escapes removed */
+  args: string[];
+  /** Variable assignments before the program, e.g. `GIT_DIR=x` in `GIT_DIR=x git push` */
+  assignments: string[];
+  /** The command a wrapper such as sudo, env or xargs runs, e.g. `rm -rf /` for `sudo rm -rf /` */
+  wrapped: ShellCommand | null;
+}
+
+/** Commands joined by `|`, in order; most pipelines hold a single command */
+export type ShellPipeline = ShellCommand[];
+
+/**
+ * Wrapper commands, with their options that take a value and how many
+ * positional arguments come before the wrapped command.
+ */
+const WRAPPERS: Record<string, { optionsWithValue: string[]; positionals: number }> = {
+  sudo: { optionsWithValue: ['-u', '-g', '-C', '-D', '--chdir', '-h', '-p', '-r', '-t', '-U'], positionals: 0 },
+  doas: { optionsWithValue: ['-u', '-C'], positionals: 0 },
+  env: { optionsWithValue: ['-u', '-C', '--chdir', '-S'], positionals: 0 },
+  command: { optionsWithValue: [], positionals: 0 },
+  builtin: { optionsWithValue: [], positionals: 0 },
+  exec: { optionsWithValue: ['-a'], positionals: 0 },
+  nohup: { optionsWithValue: [], positionals: 0 },
+  time: { optionsWithValue: ['-f', '-o'], positionals: 0 },
+  nice: { optionsWithValue: ['-n'], positionals: 0 },
+  timeout: { optionsWithValue: ['-s', '-k'], positionals: 1 },
+  xargs: { optionsWithValue: ['-I', '-L', '-n', '-P', '-d', '-E', '-s', '-a'], positionals: 0 },
+};
+
+/** Shells whose `-c` argument is a command line */
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+
+/** Reserved words that can precede a command; they are not its program */
+const RESERVED_WORDS = new Set(['!', '{', '}', 'if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'esac']);
+
+/** Operators that end a pipeline */
+const SEPARATORS = new Set(['&&', '||', ';', ';;', '&', '(', ')']);
+
+/** Limit on nested substitutions and `sh -c` strings, against pathological input */
+const MAX_NESTING = 8;
+
+/**
+ * Parse a command line into its pipelines. Commands from substitutions and
+ * `sh -c` strings follow the pipeline they appear in.
+ */
+export function parseCommandLine(line: string): ShellPipeline[] {
+  return parse(line, 0);
+}
+
+/**
+ * A command as text for pattern matching: its program and arguments
+ * separated by single spaces, e.g. `rm -rf /` for `r\m -rf '/'`.
+ */
+export function formatCommand(command: ShellCommand): string {
+  return [command.program, ...command.args].join(' ');
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+interface WordToken {
+  kind: 'word';
+  /** The word with quotes and escapes removed */
+  value: string;
+  /** The word as written */
+  raw: string;
+}
+
+interface OperatorToken {
+  kind: 'operator' | 'redirect';
+  value: string;
+}
+
+type Token = WordToken | OperatorToken;
+
+function parse(line: string, depth: number): ShellPipeline[] {
+  const tokenizer = new Tokenizer(line);
+  const tokens = tokenizer.tokenize();
+  const pipelines: ShellPipeline[] = [];
+  const nested: ShellPipeline[] = [];
+
+  let pipeline: ShellPipeline = [];
+  let words: WordToken[] = [];
+  let redirectPending = false;
+
+  const endCommand = (): void => {
+    const command = buildCommand(words);
+    words = [];
+    redirectPending = false;
+    if (!command) return;
+    pipeline.push(command);
+    if (depth < MAX_NESTING) {
+      for (const inner of getInnerCommandLines(command)) {
+        nested.push(...parse(inner, depth + 1));
+      }
+    }
+  };
+  const endPipeline = (): void => {
+    endCommand();
+    if (pipeline.length > 0) {
+      pipelines.push(pipeline);
+      pipeline = [];
+    }
+    pipelines.push(...nested.splice(0));
+  };
+
+  for (const token of tokens) {
+    if (token.kind === 'word') {
+      // The word after a redirection is its target, not an argument
+      if (redirectPending) {
+        redirectPending = false;
+      } else {
+        words.push(token);
+      }
+    } else if (token.kind === 'redirect') {
+      redirectPending = true;
+    } else if (token.value === '|' || token.value === '|&') {
+      endCommand();
+    } else if (SEPARATORS.has(token.value)) {
+      endPipeline();
+    }
+  }
+  endPipeline();
+
+  if (depth < MAX_NESTING) {
+    for (const substitution of tokenizer.substitutions) {
+      pipelines.push(...parse(substitution, depth + 1));
+    }
+  }
+  return pipelines;
+}
+
+/**
+ * Turn a command's words into a ShellCommand, leaving out leading
+ * reserved words and setting leading variable assignments apart.
+ * Returns null when no words are left.
+ */
+function buildCommand(tokens: WordToken[]): ShellCommand | null {
+  let start = 0;
+  const assignments: string[] = [];
+  while (start < tokens.length && isUnquoted(tokens[start]) && (
+    RESERVED_WORDS.has(tokens[start].raw) || isAssignment(tokens[start])
+  )) {
+    if (isAssignment(tokens[start])) {
+      assignments.push(tokens[start].value);
+    }
+    start++;
+  }
+  if (start === tokens.length) {
+    return null;
+  }
+  const words = tokens.slice(start).map((token) => token.value);
+  return createCommand(words[0], words.slice(1), assignments);
+}
+
+function createCommand(programWord: string, args: string[], assignments: string[] = []): ShellCommand {
+  const program = programWord.replace(/^.*[\\/](?=.)/, '');
+  return { program, args, assignments, wrapped: unwrap(program, args) };
+}
+
+/**
+ * The command a wrapper runs, skipping the wrapper's own options and
+ * positional arguments. env's variable assignments become the wrapped
+ * command's.
+ */
+function unwrap(program: string, args: string[]): ShellCommand | null {
+  const wrapper = WRAPPERS[program];
+  if (!wrapper) return null;
+
+  let index = 0;
+  let positionals = wrapper.positionals;
+  const assignments: string[] = [];
+  while (index < args.length) {
+    const arg = args[index];
+    if (arg === '--') {
+      index++;
+      break;
+    }
+    if (wrapper.optionsWithValue.includes(arg)) {
+      index += 2;
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      index++;
+    } else if (program === 'env' && /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+      assignments.push(arg);
+      index++;
+    } else if (positionals > 0) {
+      positionals--;
+      index++;
+    } else {
+      break;
+    }
+  }
+  return index < args.length ? createCommand(args[index], args.slice(index + 1), assignments) : null;
+}
+
+/**
+ * Command lines a command runs as strings: the `-c` argument of a shell
+ * and the arguments of eval, also when wrapped.
+ */
+function getInnerCommandLines(command: ShellCommand): string[] {
+  const lines: string[] = [];
+  for (let current: ShellCommand | null = command; current; current = current.wrapped) {
+    if (current.program === 'eval' && current.args.length > 0) {
+      lines.push(current.args.join(' '));
+    } else if (SHELLS.has(current.program)) {
+      const flag = current.args.findIndex((arg) => /^-[a-z]*c[a-z]*$/i.test(arg));
+      if (flag !== -1 && flag + 1 < current.args.length) {
+        lines.push(current.args[flag + 1]);
+      }
+    }
+  }
+  return lines;
+}
+
+function isUnquoted(token: WordToken): boolean {
+  return token.raw === token.value;
+}
+
+function isAssignment(token: WordToken): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*=/.test(token.raw);
+}
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+/**
+ * Splits a command line into words, operators and redirections. The
+ * command lines of substitutions are collected in `substitutions`.
+ */
+class Tokenizer {
+  private pos = 0;
+  private readonly tokens: Token[] = [];
+  readonly substitutions: string[] = [];
+
+  constructor(private readonly text: string) {}
+
+  tokenize(): Token[] {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === ' ' || char === '\t') {
+        this.pos++;
+      } else if (char === '\n' || char === '\r') {
+        this.pos++;
+        this.tokens.push({ kind: 'operator', value: ';' });
+      } else if (char === '#') {
+        this.skipComment();
+      } else if (!this.readOperator()) {
+        this.readWord();
+      }
+    }
+    return this.tokens;
+  }
+
+  private skipComment(): void {
+    while (this.pos < this.text.length && this.text[this.pos] !== '\n') {
+      this.pos++;
+    }
+  }
+
+  /**
+   * Read an operator or redirection at the current position, if there is
+   * one. A process substitution (`<(…)`, `>(…)`) is read as a word.
+   */
+  private readOperator(): boolean {
+    const rest = this.text.slice(this.pos);
+    if (/^[<>]\(/.test(rest)) {
+      return false;
+    }
+    const redirect = /^(\d*(>>|>&|>\||<<<|<<-?|<>|<&|>|<)|&>>?)/.exec(rest);
+    if (redirect) {
+      this.pos += redirect[0].length;
+      this.tokens.push({ kind: 'redirect', value: redirect[0] });
+      // `2>&1` and `>&-` name a descriptor, not a file
+      const fd = /^(\d+|-)(?=[\s;&|()]|$)/.exec(this.text.slice(this.pos));
+      if (fd && /&$/.test(redirect[0])) {
+        this.pos += fd[0].length;
+        this.tokens.pop();
+      }
+      return true;
+    }
+    const operator = /^(&&|\|\||;;|\|&|[|;&()])/.exec(rest);
+    if (operator) {
+      this.pos += operator[0].length;
+      this.tokens.push({ kind: 'operator', value: operator[0] });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Read a word up to unquoted whitespace or an operator, resolving
+   * quotes and escapes and collecting substitutions.
+   */
+  private readWord(): void {
+    const start = this.pos;
+    let value = '';
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (/[\s;&|()]/.test(char) || (/[<>]/.test(char) && this.text[this.pos + 1] !== '(')) {
+        break;
+      }
+
+      if (char === '\\') {
+        const next = this.text[this.pos + 1];
+        this.pos += 2;
+        // A backslash before a newline continues the line
+        if (next !== undefined && next !== '\n') {
+          value += next;
+        }
+      } else if (char === "'") {
+        const end = this.text.indexOf("'", this.pos + 1);
+        const close = end === -1 ? this.text.length : end;
+        value += this.text.slice(this.pos + 1, close);
+        this.pos = close + 1;
+      } else if (char === '"') {
+        value += this.readDoubleQuoted();
+      } else if (char === '$' && this.text[this.pos + 1] === "'") {
+        value += this.readAnsiQuoted();
+      } else if (char === '$' || char === '`' || char === '<' || char === '>') {
+        value += this.readExpansion();
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+
+    this.tokens.push({ kind: 'word', value, raw: this.text.slice(start, this.pos) });
+  }
+
+  /**
+   * Read a "…" string. Backslash only escapes $ ` " \ and newline, and
+   * substitutions inside still run.
+   */
+  private readDoubleQuoted(): string {
+    let value = '';
+    this.pos++;
+    while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+      const char = this.text[this.pos];
+      if (char === '\\' && '$`"\\\n'.includes(this.text[this.pos + 1] ?? '')) {
+        if (this.text[this.pos + 1] !== '\n') {
+          value += this.text[this.pos + 1];
+        }
+        this.pos += 2;
+      } else if (char === '$' || char === '`') {
+        value += this.readExpansion();
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+    this.pos++;
+    return value;
+  }
+
+  /**
+   * Read a $'…' string, resolving its common escapes.
+   */
+  private readAnsiQuoted(): string {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', e: '\x1b', a: '\x07', '0': '\0' };
+    let value = '';
+    this.pos += 2;
+    while (this.pos < this.text.length && this.text[this.pos] !== "'") {
+      if (this.text[this.pos] === '\\' && this.pos + 1 < this.text.length) {
+        const next = this.text[this.pos + 1];
+        value += escapes[next] ?? next;
+        this.pos += 2;
+      } else {
+        value += this.text[this.pos];
+        this.pos++;
+      }
+    }
+    this.pos++;
+    return value;
+  }
+
+  /**
+   * Read a $ expansion, backtick or process substitution, returning it as
+   * written. The command lines of `$( … )`, backticks and `<( … )` are
+   * kept for parsing; `$(( … ))` arithmetic and `${ … }` are not commands.
+   */
+  private readExpansion(): string {
+    const start = this.pos;
+    const char = this.text[this.pos];
+
+    if (char === '`') {
+      let inner = '';
+      this.pos++;
+      while (this.pos < this.text.length && this.text[this.pos] !== '`') {
+        if (this.text[this.pos] === '\\' && this.pos + 1 < this.text.length) {
+          inner += this.text[this.pos + 1];
+          this.pos += 2;
+        } else {
+          inner += this.text[this.pos];
+          this.pos++;
+        }
+      }
+      this.pos++;
+      this.substitutions.push(inner);
+    } else if (this.text.startsWith('$((', this.pos)) {
+      this.pos += 3;
+      this.readBalanced('(', ')');
+      this.pos++;
+    } else if (this.text.startsWith('$(', this.pos) || char === '<' || char === '>') {
+      this.pos += 2;
+      this.substitutions.push(this.readBalanced('(', ')'));
+    } else if (this.text.startsWith('${', this.pos)) {
+      this.pos += 2;
+      this.readBalanced('{', '}');
+    } else {
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  /**
+   * Read up to the bracket closing an already opened one, skipping quoted
+   * text and nested brackets, and move past it.
+   *
+   * @returns The text between the brackets
+   */
+  private readBalanced(open: string, close: string): string {
+    const start = this.pos;
+    let depth = 1;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (char === "'" || char === '"') {
+        this.skipQuoted(char);
+        continue;
+      }
+      if (char === open) {
+        depth++;
+      } else if (char === close && --depth === 0) {
+        this.pos++;
+        return this.text.slice(start, this.pos - 1);
+      }
+      this.pos++;
+    }
+    return this.text.slice(start);
+  }
+
+  private skipQuoted(quote: string): void {
+    this.pos++;
+    while (this.pos < this.text.length && this.text[this.pos] !== quote) {
+      this.pos += quote === '"' && this.text[this.pos] === '\\' ? 2 : 1;
+    }
+    this.pos++;
+  }
+}
@@ -0,0 +1,251 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DetectedMarker, ProjectTask, TaskRunner } from '../shared/types';
+
+/**
+ * Task discovery reads the entry points a repository defines for itself:
+ * Makefile targets, justfile recipes and Taskfile tasks. Each becomes a
+ * ProjectTask, and default-commands.ts turns those into buttons in the
+ * runner's category.
+ *
+ * The parsers are line based and cover the layouts these files are
+ * conventionally written in; they do not evaluate includes, variables
+ * or YAML anchors. Unreadable files yield no tasks.
+ */
+
+/** Most tasks taken from one file; generated Makefiles can define thousands */
+const MAX_TASKS_PER_FILE = 100;
+
+/** Files larger than this are not parsed */
+const MAX_TASK_FILE_SIZE = 512 * 1024;
+
+/** Which detector marker holds which runner's tasks */
+const TASK_RUNNERS: Record<string, TaskRunner> = {
+  make: 'make',
+  just: 'just',
+  task: 'task',
+};
+
+/**
+ * Discover the tasks of every task runner file found during detection.
+ *
+ * @param markers - Markers found during detection
+ * @returns Tasks in runner, then file, order
+ */
+export async function discoverTasks(markers: DetectedMarker[]): Promise<ProjectTask[]> {
+  const found = markers.filter((marker) => marker.type in TASK_RUNNERS);
+
+  const lists = await Promise.all(
+    found.map(async (marker) => {
+      const content = await readTaskFile(path.join(marker.directory, marker.file));
+      if (content === null) return [];
+
+      const runner = TASK_RUNNERS[marker.type];
+      const parse = runner === 'make' ? parseMakefile : runner === 'just' ? parseJustfile : parseTaskfile;
+      return parse(content, marker.file).slice(0, MAX_TASKS_PER_FILE);
+    })
+  );
+
+  return lists.flat();
+}
+
+/**
+ * Parse Makefile targets. `## text` after a target, or on the line above
+ * it, is its help comment. If any target has one, the file follows the
+ * self-documenting convention and only documented targets are listed;
+ * otherwise every plain target is, skipping special (`.PHONY`), pattern
+ * (`%`), path-like and variable targets.
+ */
+export function parseMakefile(content: string, file: string): ProjectTask[] {
+  const targets: ProjectTask[] = [];
+  const seen = new Set<string>();
+  let pendingHelp = '';
+
+  for (const line of content.split(/\r?\n/)) {
+    // `##@ Section` lines are headings for `make help`, not target help
+    const helpLine = /^##(?!@)\s?(.*)$/.exec(line);
+    if (helpLine) {
+      pendingHelp = helpLine[1].trim();
+      continue;
+    }
+
+    // `targets: prerequisites ## help`, but not `VAR := value` or `VAR ::= value`
+    const rule = /^([^\s:#=][^:#=]*?)\s*::?(?![=:])([^#]*)(?:##\s?(.*))?$/.exec(line);
+    if (!rule) {
+      pendingHelp = '';
+      continue;
+    }
+
+    const help = (rule[3] ?? '').trim() || pendingHelp;
+    pendingHelp = '';
+
+    for (const name of rule[1].split(/\s+/)) {
+      if (!isPlainMakeTarget(name) || seen.has(name)) continue;
+      seen.add(name);
+      targets.push({ runner: 'make', name, description: help, file, needsArguments: false });
+    }
+  }
+
+  const documented = targets.filter((target) => target.description);
+  return documented.length > 0 ? documented : targets;
+}
+
+/**
+ * Parse justfile recipes. A `# comment` on the line above a recipe, or a
+ * `[doc('...')]` attribute, is its description. Recipes marked
+ * `[private]` or named with a leading underscore are skipped. A recipe
+ * with parameters that lack defaults needs arguments.
+ */
+export function parseJustfile(content: string, file: string): ProjectTask[] {
+  const recipes: ProjectTask[] = [];
+  let comment = '';
+  let doc = '';
+  let isPrivate = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const commentLine = /^#(?!!)\s?(.*)$/.exec(line);
+    if (commentLine) {
+      comment = commentLine[1].trim();
+      continue;
+    }
+
+    const attribute = /^\[(.*)\]\s*$/.exec(line);
+    if (attribute) {
+      for (const part of attribute[1].split(',')) {
+        const name = part.trim();
+        const docAttribute = /^doc\(\s*(['"])(.*)\1\s*\)$/.exec(name);
+        if (docAttribute) {
+          doc = docAttribute[2];
+        } else if (name === 'private') {
+          isPrivate = true;
+        }
+      }
+      continue;
+    }
+
+    // `name params: dependencies`, but not `name := value`
+    const recipe = /^@?([A-Za-z_][A-Za-z0-9_-]*)((?:\s+[^:]*)?)\s*:(?!=)/.exec(line);
+    if (recipe && !line.startsWith(' ') && !line.startsWith('\t')) {
+      const [, name, params] = recipe;
+      if (!isPrivate && !name.startsWith('_')) {
+        recipes.push({
+          runner: 'just',
+          name,
+          description: doc || comment,
+          file,
+          needsArguments: hasRequiredJustParameter(params),
+        });
+      }
+    }
+
+    if (line.trim() !== '') {
+      comment = '';
+      doc = '';
+      isPrivate = false;
+    }
+  }
+
+  return recipes;
+}
+
+/**
+ * Parse Taskfile tasks: the keys of the top-level `tasks:` mapping, with
+ * their `desc:` (or `summary:`) as the description. Tasks marked
+ * `internal: true` are skipped.
+ */
+export function parseTaskfile(content: string, file: string): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+  let inTasks = false;
+  let taskIndent = -1;
+  let current: ProjectTask | null = null;
+  let currentInternal = false;
+  let currentSummary = '';
+
+  const finish = (): void => {
+    if (current && !currentInternal) {
+      current.description ||= currentSummary;
+      tasks.push(current);
+    }
+    current = null;
+    currentInternal = false;
+    currentSummary = '';
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+
+    const indent = line.length - line.trimStart().length;
+
+    if (indent === 0) {
+      finish();
+      inTasks = /^tasks:\s*(#.*)?$/.test(line);
+      taskIndent = -1;
+      continue;
+    }
+    if (!inTasks) continue;
+
+    if (taskIndent === -1) {
+      taskIndent = indent;
+    }
+
+    if (indent === taskIndent) {
+      finish();
+      // Task names may contain ':' (e.g. `docker:build:`); a key ends at ': ' or end of line
+      const key = /^\s*(?:(['"])(.+?)\1|([^'"#\s][^#]*?))\s*:(?:\s|$)/.exec(line);
+      if (key) {
+        current = { runner: 'task', name: key[2] ?? key[3], description: '', file, needsArguments: false };
+      }
+      continue;
+    }
+
+    if (current) {
+      const field = /^\s*(desc|summary|internal):\s*(.*)$/.exec(line);
+      if (!field) continue;
+      // Block scalars (`desc: |`) continue on the next lines; not followed
+      const value = unquoteYaml(field[2]);
+      if ((field[1] === 'desc' || field[1] === 'summary') && /^[|>]/.test(value)) continue;
+      if (field[1] === 'desc') {
+        (current as ProjectTask).description = value;
+      } else if (field[1] === 'summary') {
+        currentSummary = value;
+      } else if (field[1] === 'internal') {
+        currentInternal = value === 'true';
+      }
+    }
+  }
+  finish();
+
+  return tasks;
+}
+
+async function readTaskFile(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile() || stats.size > MAX_TASK_FILE_SIZE) return null;
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function isPlainMakeTarget(name: string): boolean {
+  return name !== '' && !name.startsWith('.') && !/[%$/()]/.test(name);
+}
+
+/**
+ * Whether a recipe's parameter list has a parameter without a default.
+ * `+args` and `*args` are variadic; only `+` requires a value.
+ */
+function hasRequiredJustParameter(params: string): boolean {
+  return params
+    .trim()
+    .split(/\s+/)
+    .filter((param) => param !== '')
+    .some((param) => !param.startsWith('*') && !param.startsWith('$*') && !param.includes('='));
+}
+
+function unquoteYaml(value: string): string {
+  const trimmed = value.replace(/\s+#.*$/, '').trim();
+  const quoted = /^(['"])(.*)\1$/.exec(trimmed);
+  return quoted ? quoted[2] : trimmed;
+}
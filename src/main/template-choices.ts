@@ -0,0 +1,54 @@
+import { runCommand } from './command-runner';
+
+/** A choices command that has not finished by then is killed */
+const CHOICES_TIMEOUT_MS = 5000;
+
+/** Output beyond this size fails the command */
+const CHOICES_MAX_BUFFER = 1024 * 1024;
+
+/** Most choices offered for one variable */
+const MAX_CHOICES = 500;
+
+/**
+ * Run a template variable's `choicesCommand` and return its output lines
+ * as choices, e.g. the branch names printed by
+ * `git branch --format='%(refname:short)'`.
+ *
+ * The command runs through command-runner.ts in the given directory and
+ * environment, outside any terminal session, so nothing it prints
+ * reaches the terminal. Blank and duplicate lines are dropped.
+ *
+ * @param command - The shell command to run
+ * @param cwd - Working directory, normally the focused shell's
+ * @param env - The environment the focused shell was started with
+ * @returns The choices; rejects if the command fails or times out
+ */
+export async function runChoicesCommand(
+  command: string,
+  cwd: string,
+  env: Record<string, string>
+): Promise<string[]> {
+  const result = await runCommand(command, {
+    cwd,
+    env,
+    timeoutMs: CHOICES_TIMEOUT_MS,
+    maxOutput: CHOICES_MAX_BUFFER,
+  });
+
+  if (result.timedOut) {
+    throw new Error(`Stopped after ${CHOICES_TIMEOUT_MS / 1000} seconds`);
+  }
+  if (result.code !== 0) {
+    const detail = result.stderr.trim().split(/\r?\n/)[0];
+    throw new Error(detail || (result.signal ? `Killed by ${result.signal}` : `Exited with code ${result.code}`));
+  }
+  if (result.truncated) {
+    throw new Error(`Output is larger than ${CHOICES_MAX_BUFFER / 1024 / 1024} MB`);
+  }
+
+  const lines = result.stdout
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+  return [...new Set(lines)].slice(0, MAX_CHOICES);
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { WarningContext } from '../shared/types';
+
+/**
+ * The same command carries different risk in different places: a force
+ * push to main is not a force push to a feature branch. The function here
+ * collects what the warning engine's rule conditions (`when` / `unless`)
+ * can check: the git branch and remote around the session's working
+ * directory, the session's NODE_ENV and its current kubectl context.
+ *
+ * It runs on every Enter in the shell:write pipeline, which holds the
+ * rest of the input until the command is evaluated, so it reads the few
+ * files it needs synchronously instead of spawning git or kubectl.
+ * Unreadable or malformed files are treated as absent.
+ *
+ * The environment is the one the session's shell was started with;
+ * variables the user exports in the shell later are not seen.
+ *
+ * The working directory should be the shell process's own (see
+ * ShellManager.readProcessCwd). Where that cannot be read, the directory
+ * the shell reported is used but marked unverified: anything printed to
+ * the terminal can report a directory, so the engine does not let it
+ * silence a warning.
+ */
+
+/** Kubeconfigs larger than this are not read for their current context */
+const MAX_KUBECONFIG_SIZE = 1024 * 1024;
+
+/**
+ * Collect the context of a command about to run in a session.
+ *
+ * @param cwd - The session's working directory
+ * @param env - The environment the session's shell was started with
+ * @param cwdVerified - Whether cwd was read from the shell process
+ */
+export function collectWarningContext(cwd: string, env: Record<string, string>, cwdVerified: boolean): WarningContext {
+  const home = env.HOME || env.USERPROFILE || os.homedir();
+  const repo = findRepository(cwd);
+  const branch = repo ? readBranch(repo.gitDir) : null;
+
+  return {
+    cwd,
+    cwdVerified,
+    repoRoot: repo?.root ?? null,
+    branch,
+    remote: repo ? readRemoteUrl(repo.commonDir, branch) : null,
+    nodeEnv: env.NODE_ENV || null,
+    kubeContext: readKubeContext(env.KUBECONFIG, home),
+    home,
+  };
+}
+
+// ============================================================
+// Git
+// ============================================================
+
+interface GitRepository {
+  /** The repository's top directory */
+  root: string;
+  /** Where HEAD is: .git, or a worktree's directory inside the main .git */
+  gitDir: string;
+  /** Where the config is; differs from gitDir for worktrees */
+  commonDir: string;
+}
+
+/**
+ * Walk up from a directory to the nearest `.git`, either a directory or,
+ * in worktrees and submodules, a file pointing at one (`gitdir: …`).
+ */
+function findRepository(cwd: string): GitRepository | null {
+  for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+    const dotGit = path.join(dir, '.git');
+    const stat = statOrNull(dotGit);
+    if (stat?.isDirectory()) {
+      return { root: dir, gitDir: dotGit, commonDir: dotGit };
+    }
+    if (stat?.isFile()) {
+      const target = readOrNull(dotGit)?.match(/^gitdir:\s*(.+)$/m)?.[1].trim();
+      if (target) {
+        const gitDir = path.resolve(dir, target);
+        const common = readOrNull(path.join(gitDir, 'commondir'))?.trim();
+        return { root: dir, gitDir, commonDir: common ? path.resolve(gitDir, common) : gitDir };
+      }
+    }
+    if (path.dirname(dir) === dir) {
+      return null;
+    }
+  }
+}
+
+/** The branch HEAD points at; null for a detached HEAD */
+function readBranch(gitDir: string): string | null {
+  const head = readOrNull(path.join(gitDir, 'HEAD'));
+  return head?.match(/^ref:\s*refs\/heads\/(.+)$/m)?.[1].trim() ?? null;
+}
+
+/**
+ * The URL of the remote a branch tracks (`branch.<name>.remote`), or of
+ * origin when it tracks none.
+ */
+function readRemoteUrl(commonDir: string, branch: string | null): string | null {
+  const config = readOrNull(path.join(commonDir, 'config'));
+  if (config === null) {
+    return null;
+  }
+  const sections = parseGitConfig(config);
+  const remote = (branch !== null ? sections.get(`branch "${branch}"`)?.get('remote') : undefined) ?? 'origin';
+  return sections.get(`remote "${remote}"`)?.get('url') ?? null;
+}
+
+/**
+ * Read the `key = value` lines of a git config, by section header
+ * (e.g. `remote "origin"`). Only what readRemoteUrl needs: no includes,
+ * no continuation lines, and keys are lowercased.
+ */
+function parseGitConfig(text: string): Map<string, Map<string, string>> {
+  const sections = new Map<string, Map<string, string>>();
+  let current: Map<string, string> | null = null;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const header = line.match(/^\[\s*([^\s\]"]+)(?:\s+"(.*)")?\s*\]$/);
+    if (header) {
+      const name = header[2] !== undefined ? `${header[1].toLowerCase()} "${header[2]}"` : header[1].toLowerCase();
+      current = sections.get(name) ?? new Map<string, string>();
+      sections.set(name, current);
+      continue;
+    }
+    const entry = line.match(/^([A-Za-z][\w-]*)\s*=\s*(.*)$/);
+    if (current && entry) {
+      current.set(entry[1].toLowerCase(), entry[2].replace(/^"(.*)"$/, '$1'));
+    }
+  }
+  return sections;
+}
+
+// ============================================================
+// Kubernetes
+// ============================================================
+
+/**
+ * The `current-context` of the kubeconfig kubectl would use: the first
+ * file in KUBECONFIG that sets one, else ~/.kube/config.
+ */
+function readKubeContext(kubeconfig: string | undefined, home: string): string | null {
+  const files = kubeconfig
+    ? kubeconfig.split(path.delimiter).filter((file) => file.length > 0)
+    : [path.join(home, '.kube', 'config')];
+
+  for (const file of files) {
+    const stat = statOrNull(file);
+    if (!stat?.isFile() || stat.size > MAX_KUBECONFIG_SIZE) {
+      continue;
+    }
+    const context = readOrNull(file)?.match(/^current-context:[ \t]*["']?([^"'\r\n]*?)["']?[ \t]*$/m)?.[1];
+    if (context) {
+      return context;
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function statOrNull(filePath: string): fs.Stats | null {
+  try {
+    return fs.statSync(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function readOrNull(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -1,8 +1,40 @@
 /**
- * Warning Engine - Regex-based risky command detection and rule management.
+ * Warning Engine - Regex-based and structured risky command detection and rule management.
  *
- * Evaluates input command strings against a set of risky command patterns (regex).
- * Returns warning details if a match is found; manages both built-in and custom rules.
+ * Evaluates input command strings against a set of risky command patterns (regex)
+ * and structured matchers (program, subcommand, flags, arguments, working directory).
+ * Returns warning details for every matching rule; manages both built-in and custom rules.
+ *
+ * Patterns are not matched against the raw line. The line is parsed like
+ * a shell would (see shell-parser.ts) and each command in it is matched on
+ * its own, as its program and arguments with quotes and escapes removed:
+ * `r\m -rf '/'` is matched as `rm -rf /`, each part of `make && rm -rf
+ * build` separately, and `echo "rm -rf /"` as `echo rm -rf /`, which the
+ * `^`-anchored built-in patterns do not match. Wrapped commands are
+ * matched too, so `sudo rm -rf /` matches `sudo`, `rm-rf` and `rm-root`. A
+ * pipeline of several commands is also matched as a whole, joined by
+ * ` | `, for rules like `curl-pipe-sh`.
+ *
+ * A rule's `match` checks the parsed command instead of its text, e.g.
+ * `git push` with `--force` or `-f` but without `--force-with-lease`,
+ * which a regex cannot tell apart reliably. Rules can have a pattern, a
+ * matcher or both; with both, the same command must satisfy both.
+ * Pipelines of several commands are only matched by patterns.
+ *
+ * Rules can also depend on where the command runs. The shell:write
+ * pipeline collects a WarningContext (see warning-context.ts): the git
+ * branch and remote, the working directory and its repository, NODE_ENV
+ * and the kubectl context. A rule applies only if its `when` condition
+ * holds and its `unless` condition does not, so `git-force-push` is
+ * critical on main but silent on a feature branch, and `rm-rf` is silent
+ * when everything it deletes is in a temp directory.
+ *
+ * A rule's `preview` is a read-only command showing what the matched
+ * command would do (`git clean --dry-run` for `git clean -fd`). The engine
+ * fills in the matched command's arguments and paths, quoted and with
+ * globs expanded; ipc-handlers.ts runs it (see warning-preview.ts) and the
+ * overlay shows its output. Only built-in rules and the user's own
+ * `customRules` have previews; those of a repository's rules are ignored.
  *
  * Built-in rules are defined per ARCHITECTURE.md Section 5.5.
  * The engine is called by ipc-handlers.ts in the shell:write pipeline whenever
@@ -10,13 +42,28 @@
  *
  * Key behaviors:
  * - Commands are NEVER blocked; the engine only produces warnings for the UI
- * - Pattern matching is case-insensitive
- * - First matching rule wins (rules are evaluated in order)
+ * - Pattern matching is case-insensitive; `^` anchors a pattern to the start of a command
+ * - Every matching rule is reported, highest risk first; rules of the same
+ *   risk keep their order (built-in, custom, project)
  * - Rules can be disabled individually via config.disabledBuiltInRules
  * - Custom rules from config are appended after built-in rules
  */
 
-import type { WarningRule, WarningResult, WarningsConfig } from '../shared/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  WarningCondition,
+  WarningContext,
+  WarningMatch,
+  WarningMatcher,
+  WarningPathScope,
+  WarningRule,
+  WarningResult,
+  WarningsConfig,
+} from '../shared/types';
+import { IS_WINDOWS } from './constants';
+import { formatCommand, parseCommandLine, type ShellCommand } from './shell-parser';
 
 // ============================================================
 // Built-in Warning Rules (ARCHITECTURE.md Section 5.5)
@@ -26,7 +73,9 @@ const BUILT_IN_RULES: WarningRule[] = [
   {
     id: 'rm-rf',
     name: 'Recursive Force Delete',
-    pattern: 'rm\\s+(-[a-zA-Z]*r[a-zA-Z]*f|f[a-zA-Z]*r)',
+    pattern: '^rm\\s(?=(.*\\s)?(-[a-z]*r[a-z]*|--recursive)(\\s|$))(?=(.*\\s)?(-[a-z]*f[a-z]*|--force)(\\s|$))',
+    unless: { paths: ['temp'] },
+    preview: "find {{paths}} 2>/dev/null | wc -l | awk '{ print $1 \" files and directories\" }'",
     riskLevel: 'critical',
     description: 'Recursively deletes files without confirmation. Can destroy important data.',
     recommendation: 'Double-check the target path. Consider using trash-cli instead.',
@@ -34,7 +83,8 @@ const BUILT_IN_RULES: WarningRule[] = [
   {
     id: 'rm-root',
     name: 'Delete Root',
-    pattern: 'rm\\s+.*\\s+/',
+    pattern: '^rm\\s+.*\\s+/',
+    unless: { paths: ['temp'] },
     riskLevel: 'critical',
     description: 'Targets the root filesystem for deletion.',
     recommendation: 'This will destroy your entire system. Almost certainly not what you want.',
@@ -50,7 +100,8 @@ const BUILT_IN_RULES: WarningRule[] = [
   {
     id: 'git-reset-hard',
     name: 'Git Hard Reset',
-    pattern: 'git\\s+reset\\s+--hard',
+    match: { program: 'git', subcommand: 'reset', flagsAny: ['--hard'] },
+    preview: 'git diff --stat HEAD',
     riskLevel: 'high',
     description: 'Discards all uncommitted changes permanently.',
     recommendation: 'Consider git stash first to preserve your changes.',
@@ -58,15 +109,31 @@ const BUILT_IN_RULES: WarningRule[] = [
   {
     id: 'git-force-push',
     name: 'Git Force Push',
-    pattern: 'git\\s+push\\s+.*--force',
-    riskLevel: 'high',
-    description: 'Overwrites remote history. Can cause data loss for collaborators.',
-    recommendation: 'Use --force-with-lease for a safer alternative.',
+    match: { program: 'git', subcommand: 'push', flagsAny: ['--force', '-f'], flagsNone: ['--force-with-lease'] },
+    when: { branch: '^(main|master)$' },
+    riskLevel: 'critical',
+    description: 'Overwrites the history of the main branch on the remote. Can cause data loss for collaborators.',
+    recommendation: 'Use --force-with-lease for a safer alternative, or push to a feature branch.',
+  },
+  {
+    id: 'git-force-push-main',
+    name: 'Git Force Push to Main',
+    match: {
+      program: 'git',
+      subcommand: 'push',
+      flagsAny: ['--force', '-f'],
+      flagsNone: ['--force-with-lease'],
+      argMatches: '^\\+?(refs/heads/)?(main|master)$|:(refs/heads/)?(main|master)$',
+    },
+    unless: { branch: '^(main|master)$' },
+    riskLevel: 'critical',
+    description: 'Overwrites the history of the main branch on the remote. Can cause data loss for collaborators.',
+    recommendation: 'Use --force-with-lease for a safer alternative, or push to a feature branch.',
   },
   {
     id: 'chmod-777',
     name: 'Open Permissions',
-    pattern: 'chmod\\s+777',
+    pattern: '^chmod\\s+(-\\S+\\s+)*0?777(\\s|$)',
     riskLevel: 'high',
     description: 'Sets file permissions to fully open (read/write/execute for everyone).',
     recommendation: 'Use more restrictive permissions like 755 or 644.',
@@ -82,7 +149,7 @@ const BUILT_IN_RULES: WarningRule[] = [
   {
     id: 'mkfs',
     name: 'Format Filesystem',
-    pattern: 'mkfs',
+    pattern: '^mkfs',
     riskLevel: 'critical',
     description: 'Formats a filesystem partition, destroying all data on it.',
     recommendation: 'Triple-check the target device before executing.',
@@ -90,7 +157,8 @@ const BUILT_IN_RULES: WarningRule[] = [
   {
     id: 'git-clean-fd',
     name: 'Git Clean Force',
-    pattern: 'git\\s+clean\\s+.*-[a-zA-Z]*f',
+    match: { program: 'git', subcommand: 'clean', flagsAny: ['-f', '--force'], flagsNone: ['-n', '--dry-run'] },
+    preview: 'git clean --dry-run {{args}}',
     riskLevel: 'high',
     description: 'Permanently removes untracked files from the working directory.',
     recommendation: 'Run git clean -n first for a dry-run preview.',
@@ -98,20 +166,93 @@ const BUILT_IN_RULES: WarningRule[] = [
   {
     id: 'curl-pipe-sh',
     name: 'Pipe to Shell',
-    pattern: 'curl\\s+.*\\|.*sh',
+    pattern: '^curl\\s.*\\|\\s*(sudo\\s+)?(ba|z|da|k|fi)?sh(\\s|$)',
     riskLevel: 'high',
     description: 'Downloads and immediately executes a remote script.',
     recommendation: 'Download the script first, review it, then execute.',
   },
 ];
 
+/**
+ * Options of a program that take their value as the next argument and can
+ * come before its subcommand.
+ */
+const GLOBAL_OPTIONS_WITH_VALUE: Record<string, string[]> = {
+  git: ['-C', '-c', '--git-dir', '--work-tree', '--namespace'],
+};
+
+/** Commands after which the rest of the line may run in another directory */
+const DIRECTORY_CHANGERS = new Set(['cd', 'pushd', 'popd']);
+
+/**
+ * Options that make a program (and, for wrappers, the command it runs)
+ * work in another directory or repository, given before its first operand
+ */
+const DIRECTORY_OPTIONS: Record<string, string[]> = {
+  env: ['-C', '--chdir'],
+  sudo: ['-D', '--chdir'],
+  git: ['-C', '--git-dir', '--work-tree'],
+};
+
+/** Variables that point git at another repository */
+const DIRECTORY_VARIABLES = ['GIT_DIR', 'GIT_WORK_TREE'];
+
+/** Directories whose contents `paths: ['temp']` conditions accept */
+const TEMP_DIRS = [...new Set([os.tmpdir(), ...(IS_WINDOWS ? [] : ['/tmp', '/var/tmp'])])];
+
+/** Glob matches above this give no preview rather than a huge command line */
+const MAX_GLOB_MATCHES = 256;
+
+/** Sort rank of each risk level; matches are reported highest first */
+const RISK_RANK: Record<WarningRule['riskLevel'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
 // ============================================================
 // Compiled Rule (internal representation with pre-compiled regex)
 // ============================================================
 
 interface CompiledRule {
   rule: WarningRule;
-  regex: RegExp;
+  /** For project rules, the project directory they are limited to */
+  scope: string | null;
+  /** The compiled pattern; null for rules with only a matcher */
+  regex: RegExp | null;
+  matcher: CompiledMatcher | null;
+  when: CompiledCondition | null;
+  unless: CompiledCondition | null;
+}
+
+interface CompiledMatcher {
+  matcher: WarningMatcher;
+  argRegex: RegExp | null;
+  cwdRegex: RegExp | null;
+}
+
+interface CompiledCondition {
+  condition: WarningCondition;
+  branchRegex: RegExp | null;
+  remoteRegex: RegExp | null;
+  cwdRegex: RegExp | null;
+  nodeEnvRegex: RegExp | null;
+  kubeContextRegex: RegExp | null;
+}
+
+/** A command of the line, or a pipeline of several, as rules see it */
+interface MatchTarget {
+  /** The parsed command; null for a pipeline */
+  command: ShellCommand | null;
+  /** What patterns are matched against */
+  text: string;
+  /**
+   * Whether an earlier command of the line changes directory, like the
+   * `cd /` of `cd / && rm -rf *`, or the command is pointed elsewhere,
+   * like `git -C dir push`, so where it runs is not known
+   */
+  movedDirectory: boolean;
 }
 
 // ============================================================
@@ -120,6 +261,9 @@ interface CompiledRule {
 
 export class WarningEngine {
   private enabled: boolean;
+  private config: WarningsConfig;
+  private projectRules: WarningRule[] = [];
+  private projectDirectory: string | null = null;
   private compiledRules: CompiledRule[] = [];
   private allRules: WarningRule[] = [];
 
@@ -131,34 +275,50 @@ export class WarningEngine {
    */
   constructor(config: WarningsConfig) {
     this.enabled = config.enabled;
+    this.config = config;
+    this.configure(config);
+  }
 
-    // Build the active rule set:
-    // 1. Start with built-in rules, excluding any that are disabled
-    const disabledSet = new Set(config.disabledBuiltInRules);
-
-    for (const rule of BUILT_IN_RULES) {
-      if (!disabledSet.has(rule.id)) {
-        this.allRules.push(rule);
-      }
-    }
-
-    // 2. Append custom rules from config
-    for (const customRule of config.customRules) {
-      this.allRules.push(customRule);
-    }
+  /**
+   * Rebuilds the active rule set from a warnings configuration, e.g. after
+   * the config was saved with new custom rules.
+   *
+   * @param config - WarningsConfig containing enabled state, disabled built-in rule IDs,
+   *                 and custom rules to add.
+   */
+  configure(config: WarningsConfig): void {
+    this.enabled = config.enabled;
+    this.config = config;
+    this.buildRules();
+  }
 
-    // 3. Compile all regex patterns
-    this.compileRules();
+  /**
+   * Sets the warning rules of the current project's approved command file,
+   * replacing the previous project's. Pass an empty list when the project
+   * has none or they are not approved. The rules only apply to commands
+   * whose working directory is the project directory or below it.
+   *
+   * @param rules - The project's warning rules.
+   * @param directory - The project directory the command file was found in.
+   */
+  setProjectRules(rules: WarningRule[], directory: string | null): void {
+    this.projectRules = rules;
+    this.projectDirectory = directory;
+    this.buildRules();
   }
 
   /**
    * Evaluates a command string against all active warning rules.
-   * Returns the first matching WarningResult, or null if no rules match.
+   * Returns a WarningResult listing every matching rule, highest risk
+   * first, or null if no rules match.
    *
    * @param command - The command string to evaluate (typically the line buffer contents).
+   * @param context - Where the command runs, for `cwdMatches` and `when` / `unless`
+   *                  conditions; without one, what they check is unknown and
+   *                  the rules apply as if it were risky.
    * @returns WarningResult if a risky pattern is matched, null otherwise.
    */
-  evaluate(command: string): WarningResult | null {
+  evaluate(command: string, context: WarningContext | null = null): WarningResult | null {
     // If warnings are disabled, never match
     if (!this.enabled) {
       return null;
@@ -170,21 +330,52 @@ export class WarningEngine {
       return null;
     }
 
-    // Test against all compiled rules in order; first match wins
-    for (const { rule, regex } of this.compiledRules) {
-      if (regex.test(trimmed)) {
-        return {
-          warningId: 'warn-' + Date.now(),
-          ruleId: rule.id,
-          riskLevel: rule.riskLevel,
-          command: trimmed,
-          description: rule.description,
-          recommendation: rule.recommendation,
-        };
+    const targets = getMatchTargets(trimmed);
+    if (targets.length === 0) {
+      return null;
+    }
+
+    // Collect every matching rule, with its preview for the first command
+    // it matched (not for project rules, so a repository's file never runs
+    // a command); the sort is stable, so rules of the same risk level stay
+    // in rule order
+    const matches: WarningMatch[] = [];
+    for (const compiled of this.compiledRules) {
+      if (!inScope(compiled, context)) {
+        continue;
+      }
+      const target = targets.find((candidate) => matchesTarget(compiled, candidate, context));
+      if (!target) {
+        continue;
       }
+      const { rule } = compiled;
+      const fromConfig = BUILT_IN_RULES.includes(rule) || this.config.customRules.includes(rule);
+      const preview = fromConfig ? resolvePreview(rule, target, context) : null;
+      matches.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        riskLevel: rule.riskLevel,
+        description: rule.description,
+        recommendation: rule.recommendation,
+        ...(preview !== null ? { preview } : {}),
+      });
     }
+    matches.sort((a, b) => RISK_RANK[a.riskLevel] - RISK_RANK[b.riskLevel]);
 
-    return null;
+    if (matches.length === 0) {
+      return null;
+    }
+
+    const [top] = matches;
+    return {
+      warningId: 'warn-' + Date.now(),
+      ruleId: top.ruleId,
+      riskLevel: top.riskLevel,
+      command: trimmed,
+      description: top.description,
+      recommendation: top.recommendation,
+      matches,
+    };
   }
 
   /**
@@ -205,6 +396,13 @@ export class WarningEngine {
     return [...this.allRules];
   }
 
+  /**
+   * Returns the IDs of all built-in rules, including disabled ones.
+   */
+  getBuiltInRuleIds(): string[] {
+    return BUILT_IN_RULES.map((rule) => rule.id);
+  }
+
   /**
    * Enables or disables the entire warning engine.
    * When disabled, evaluate() always returns null.
@@ -216,25 +414,522 @@ export class WarningEngine {
   }
 
   /**
-   * Compiles all rule patterns into RegExp objects for efficient matching.
+   * Builds the active rule set:
+   * 1. Built-in rules, excluding any that are disabled
+   * 2. Custom rules from config
+   * 3. Project rules whose IDs are not taken yet; a repository cannot
+   *    replace (and so weaken) the user's own or built-in rules
+   * and compiles their patterns.
+   */
+  private buildRules(): void {
+    const disabledSet = new Set(this.config.disabledBuiltInRules);
+    this.allRules = [
+      ...BUILT_IN_RULES.filter((rule) => !disabledSet.has(rule.id)),
+      ...this.config.customRules,
+    ];
+
+    const ids = new Set([...BUILT_IN_RULES, ...this.allRules].map((rule) => rule.id));
+    for (const rule of this.projectRules) {
+      if (!ids.has(rule.id)) {
+        ids.add(rule.id);
+        this.allRules.push(rule);
+      }
+    }
+
+    this.compileRules();
+  }
+
+  /**
+   * Compiles all rule patterns, and the regexes of their matchers and
+   * conditions, into RegExp objects for efficient matching.
    * Called on construction and whenever the rule set changes.
    *
-   * Invalid regex patterns are logged and skipped rather than crashing the engine.
+   * Invalid regex patterns, and rules with neither a pattern nor a matcher,
+   * are logged and skipped rather than crashing the engine.
    */
   private compileRules(): void {
     this.compiledRules = [];
 
     for (const rule of this.allRules) {
+      if (!rule.pattern && !rule.match) {
+        console.error(`[WarningEngine] Rule "${rule.id}" has neither a pattern nor a matcher`);
+        continue;
+      }
       try {
-        const regex = new RegExp(rule.pattern, 'i');
-        this.compiledRules.push({ rule, regex });
+        const matcher = rule.match
+          ? {
+              matcher: rule.match,
+              argRegex: rule.match.argMatches ? new RegExp(rule.match.argMatches, 'i') : null,
+              cwdRegex: rule.match.cwdMatches ? new RegExp(rule.match.cwdMatches) : null,
+            }
+          : null;
+        const regex = rule.pattern ? new RegExp(rule.pattern, 'i') : null;
+        this.compiledRules.push({
+          rule,
+          scope: this.projectRules.includes(rule) ? this.projectDirectory : null,
+          regex,
+          matcher,
+          when: rule.when ? compileCondition(rule.when) : null,
+          unless: rule.unless ? compileCondition(rule.unless) : null,
+        });
       } catch (err) {
         // Log the error but do not crash — skip the invalid rule
         console.error(
-          `[WarningEngine] Invalid regex pattern for rule "${rule.id}": ${rule.pattern}`,
+          `[WarningEngine] Invalid regex pattern for rule "${rule.id}"`,
           err
         );
       }
     }
   }
 }
+
+// ============================================================
+// Matching
+// ============================================================
+
+/**
+ * What rules are matched against: every command of the line and every
+ * command it wraps, then every pipeline of several commands. Everything
+ * after a `cd`, `pushd` or `popd` (also a wrapped one) is marked as
+ * having moved directory, and so is a command that runs elsewhere
+ * itself (see runsElsewhere), with the commands it wraps.
+ */
+function getMatchTargets(line: string): MatchTarget[] {
+  const targets: MatchTarget[] = [];
+  let movedDirectory = false;
+  for (const pipeline of parseCommandLine(line)) {
+    let pipelineMoved = movedDirectory;
+    for (const command of pipeline) {
+      let commandMoved = movedDirectory;
+      for (let current: ShellCommand | null = command; current; current = current.wrapped) {
+        commandMoved = commandMoved || runsElsewhere(current);
+        pipelineMoved = pipelineMoved || commandMoved;
+        targets.push({ command: current, text: formatCommand(current), movedDirectory: commandMoved });
+        if (DIRECTORY_CHANGERS.has(current.program)) {
+          movedDirectory = true;
+        }
+      }
+    }
+    if (pipeline.length > 1) {
+      targets.push({ command: null, text: pipeline.map(formatCommand).join(' | '), movedDirectory: pipelineMoved });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Whether a command works somewhere other than the session's directory:
+ * `env -C dir`, `sudo -D dir`, `git -C dir`, `git --git-dir=…` and
+ * `GIT_DIR=… git` (also through `env`).
+ */
+function runsElsewhere(command: ShellCommand): boolean {
+  if (command.assignments.some((assignment) => DIRECTORY_VARIABLES.includes(assignment.split('=')[0]))) {
+    return true;
+  }
+  const options = DIRECTORY_OPTIONS[command.program];
+  if (!options) {
+    return false;
+  }
+  const { subcommandIndex } = splitArgs(command);
+  const leading = subcommandIndex === -1 ? command.args : command.args.slice(0, subcommandIndex);
+  return leading.some((arg) =>
+    options.some((option) => arg === option || arg.startsWith(option.startsWith('--') ? `${option}=` : option))
+  );
+}
+
+/**
+ * Whether a rule applies in the command's working directory: project rules
+ * only in their project. Without a known working directory they apply, so
+ * a missing context never hides a warning.
+ */
+function inScope(compiled: CompiledRule, context: WarningContext | null): boolean {
+  if (compiled.scope === null || !context?.cwd) {
+    return true;
+  }
+  const cwd = path.resolve(context.cwd);
+  return cwd === path.resolve(compiled.scope) || isBelow(cwd, compiled.scope);
+}
+
+function compileCondition(condition: WarningCondition): CompiledCondition {
+  const compile = (source: string | undefined): RegExp | null => (source ? new RegExp(source) : null);
+  return {
+    condition,
+    branchRegex: compile(condition.branch),
+    remoteRegex: compile(condition.remote),
+    cwdRegex: compile(condition.cwd),
+    nodeEnvRegex: compile(condition.nodeEnv),
+    kubeContextRegex: compile(condition.kubeContext),
+  };
+}
+
+/**
+ * Whether a rule matches a command or pipeline: its matcher, if any, must
+ * accept the command, its pattern, if any, must match the text, its
+ * `when` condition must hold and its `unless` condition must not.
+ */
+function matchesTarget(compiled: CompiledRule, target: MatchTarget, context: WarningContext | null): boolean {
+  const cwd = target.movedDirectory ? null : context?.cwd ?? null;
+  if (compiled.matcher && (!target.command || !matchesCommand(compiled.matcher, target.command, cwd))) {
+    return false;
+  }
+  if (compiled.regex !== null && !compiled.regex.test(target.text)) {
+    return false;
+  }
+  // Path arguments start after the matcher's subcommand, if it has one
+  const skip = compiled.rule.match?.subcommand !== undefined ? 1 : 0;
+  if (compiled.when && !conditionHolds(compiled.when, target, context, skip, true)) {
+    return false;
+  }
+  return !(compiled.unless && conditionHolds(compiled.unless, target, context, skip, false));
+}
+
+/**
+ * Whether a matcher accepts a command. `cwdMatches` is accepted when the
+ * working directory is not known.
+ */
+function matchesCommand(compiled: CompiledMatcher, command: ShellCommand, cwd: string | null): boolean {
+  const { matcher, argRegex, cwdRegex } = compiled;
+  if (command.program !== matcher.program) {
+    return false;
+  }
+
+  const { flags, operands } = splitArgs(command);
+
+  if (matcher.subcommand !== undefined && operands[0] !== matcher.subcommand) {
+    return false;
+  }
+  if (matcher.flagsAny && matcher.flagsAny.length > 0 && !matcher.flagsAny.some((flag) => hasFlag(flags, flag))) {
+    return false;
+  }
+  if (matcher.flagsNone?.some((flag) => hasFlag(flags, flag))) {
+    return false;
+  }
+  if (argRegex && !command.args.some((arg) => argRegex.test(arg))) {
+    return false;
+  }
+  if (cwdRegex && testKnown(cwdRegex, cwd) === false) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * A command's flags and operands; flags end at `--`, everything else is an
+ * operand. The value of a global option before the first operand, like
+ * `repo` in `git -C repo push`, is neither, so the subcommand is `push`.
+ */
+function splitArgs(command: ShellCommand): { flags: string[]; operands: string[]; subcommandIndex: number } {
+  const { args } = command;
+  const end = args.indexOf('--');
+  const withValue = GLOBAL_OPTIONS_WITH_VALUE[command.program] ?? [];
+  const flags: string[] = [];
+  const operands: string[] = [];
+  let subcommandIndex = -1;
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (index === end) {
+      continue;
+    }
+    if ((end === -1 || index < end) && arg.startsWith('-') && arg.length > 1) {
+      flags.push(arg);
+      if (subcommandIndex === -1 && withValue.includes(arg)) {
+        index++;
+      }
+      continue;
+    }
+    if (subcommandIndex === -1) {
+      subcommandIndex = index;
+    }
+    operands.push(arg);
+  }
+  return { flags, operands, subcommandIndex };
+}
+
+/**
+ * Whether a `when` / `unless` condition holds for a command in a context.
+ * A field that cannot be checked counts as `ifUnknown`: without a context,
+ * for a branch or remote that is not known (a detached HEAD), for a path
+ * that cannot be resolved, and for the location of a command after a
+ * directory change. `when` passes true and `unless` false, so what is not
+ * known never hides a warning. For `unless`, a working directory the shell
+ * only reported (WarningContext.cwdVerified) counts as unknown too. An unset NODE_ENV or kubectl context is
+ * known to be unset and does not hold.
+ *
+ * @param skip - How many leading operands are not paths (a subcommand)
+ * @param ifUnknown - Whether a field that cannot be checked holds
+ */
+function conditionHolds(
+  compiled: CompiledCondition,
+  target: MatchTarget,
+  context: WarningContext | null,
+  skip: number,
+  ifUnknown: boolean
+): boolean {
+  const { condition } = compiled;
+  // Where the command runs; not known after a directory change, and not
+  // trusted to silence a warning unless read from the shell process
+  const location = target.movedDirectory || (!ifUnknown && !context?.cwdVerified) ? null : context;
+  const results: (boolean | null)[] = [];
+
+  if (compiled.branchRegex) results.push(testKnown(compiled.branchRegex, location?.branch));
+  if (compiled.remoteRegex) results.push(testKnown(compiled.remoteRegex, location?.remote));
+  if (compiled.cwdRegex) results.push(testKnown(compiled.cwdRegex, location?.cwd));
+  if (compiled.nodeEnvRegex) results.push(context && testKnown(compiled.nodeEnvRegex, context.nodeEnv) === true);
+  if (compiled.kubeContextRegex) results.push(context && testKnown(compiled.kubeContextRegex, context.kubeContext) === true);
+  if (condition.inRepo !== undefined) results.push(location && condition.inRepo === (location.repoRoot !== null));
+  if (condition.paths && condition.paths.length > 0) {
+    results.push(context && target.command ? arePathsWithin(condition.paths, target.command, context.home, location, skip) : null);
+  }
+  return results.every((result) => result ?? ifUnknown);
+}
+
+/** Whether a value matches a regex; null when the value is not known */
+function testKnown(regex: RegExp, value: string | null | undefined): boolean | null {
+  return value !== null && value !== undefined ? regex.test(value) : null;
+}
+
+/**
+ * Whether every path argument of a command is below one of the given
+ * places; null when a path cannot be resolved and none is known to be
+ * outside them. A command without path arguments has none below them.
+ *
+ * @param location - Where the command runs, for relative paths and the
+ *                   repository; null if not known
+ */
+function arePathsWithin(
+  scopes: WarningPathScope[],
+  command: ShellCommand,
+  home: string,
+  location: WarningContext | null,
+  skip: number
+): boolean | null {
+  const paths = splitArgs(command).operands.slice(skip);
+  if (paths.length === 0) {
+    return false;
+  }
+  const results = paths.map((arg) => isPathWithin(arg, scopes, home, location));
+  return results.includes(false) ? false : results.includes(null) ? null : true;
+}
+
+/**
+ * Whether a path argument, resolved against the working directory, is
+ * below one of the given places; null when it cannot be resolved, or is
+ * not in a temp directory and the repository is not known.
+ */
+function isPathWithin(
+  arg: string,
+  scopes: WarningPathScope[],
+  home: string,
+  location: WarningContext | null
+): boolean | null {
+  const resolved = resolvePathArg(arg, home, location?.cwd ?? null);
+  if (resolved === null) {
+    return null;
+  }
+  if (scopes.includes('temp') && TEMP_DIRS.some((dir) => isBelow(resolved, dir))) {
+    return true;
+  }
+  if (!scopes.includes('repo')) {
+    return false;
+  }
+  if (location === null) {
+    return null;
+  }
+  return location.repoRoot !== null && isBelow(resolved, location.repoRoot);
+}
+
+/**
+ * A path argument as an absolute path, with `~` expanded. Arguments with
+ * variables or command substitutions, and `~user` paths, cannot be
+ * resolved; relative paths cannot without a working directory.
+ */
+function resolvePathArg(arg: string, home: string, cwd: string | null): string | null {
+  if (arg.length === 0 || /[$`]/.test(arg) || /^~[^/]/.test(arg)) {
+    return null;
+  }
+  if (arg === '~' || arg.startsWith('~/')) {
+    return path.join(home, arg.slice(1));
+  }
+  if (path.isAbsolute(arg)) {
+    return path.resolve(arg);
+  }
+  return cwd !== null ? path.resolve(cwd, arg) : null;
+}
+
+// ============================================================
+// Previews
+// ============================================================
+
+/**
+ * A rule's preview command for the command it matched, with `{{args}}`
+ * and `{{paths}}` filled in, or null when the rule has none. Also null
+ * without a context, after a directory change and for a command pointed
+ * at another directory or repository, like `git -C dir clean -fd` (the
+ * preview would run in the session's), for placeholders on a pipeline, and when an argument
+ * cannot be passed on as typed (variables, command substitutions, too
+ * many glob matches) or `{{paths}}` would be empty, so a preview never
+ * shows something else.
+ */
+function resolvePreview(rule: WarningRule, target: MatchTarget, context: WarningContext | null): string | null {
+  if (!rule.preview || context === null || target.movedDirectory) {
+    return null;
+  }
+  const { command } = target;
+  const usesArgs = rule.preview.includes('{{args}}');
+  const usesPaths = rule.preview.includes('{{paths}}');
+  if (!usesArgs && !usesPaths) {
+    return rule.preview;
+  }
+  if (!command || context.cwd === null) {
+    return null;
+  }
+  const { cwd, home } = context;
+
+  // Arguments after the matcher's subcommand, e.g. `-fd src` of `git clean -fd src`
+  let args = command.args;
+  const skip = rule.match?.subcommand !== undefined ? 1 : 0;
+  if (skip > 0) {
+    args = args.slice(splitArgs(command).subcommandIndex + 1);
+  }
+  if (usesArgs && args.some((arg) => /[$`]/.test(arg) || /^~[^/]/.test(arg))) {
+    return null;
+  }
+  const expandedArgs = usesArgs
+    ? expandGlobs(args.map((arg) => (arg === '~' || arg.startsWith('~/') ? path.join(home, arg.slice(1)) : arg)), cwd)
+    : [];
+
+  const paths = splitArgs(command).operands.slice(skip).map((arg) => resolvePathArg(arg, home, cwd));
+  if (usesPaths && (paths.length === 0 || paths.some((resolved) => resolved === null))) {
+    return null;
+  }
+  const expandedPaths = usesPaths ? expandGlobs(paths as string[], cwd) : [];
+
+  if (expandedArgs === null || expandedPaths === null) {
+    return null;
+  }
+  return rule.preview.replace(/\{\{(args|paths)\}\}/g, (_match, name: string) =>
+    (name === 'args' ? expandedArgs : expandedPaths).map(quoteArg).join(' ')
+  );
+}
+
+/**
+ * Expand the glob patterns among arguments as the shell would have for
+ * the matched command, so the preview can pass every argument quoted.
+ * Null when there are more than MAX_GLOB_MATCHES.
+ */
+function expandGlobs(args: string[], cwd: string): string[] | null {
+  const expanded: string[] = [];
+  for (const arg of args) {
+    const matches = expandGlob(arg, cwd);
+    if (matches === null || expanded.length + matches.length > MAX_GLOB_MATCHES) {
+      return null;
+    }
+    expanded.push(...matches);
+  }
+  return expanded;
+}
+
+/**
+ * The paths a glob pattern matches, like bash: `*`, `?` and `[…]` match
+ * within one path segment, a segment only matches hidden entries if it
+ * starts with `.`, matches are sorted, and a pattern that matches nothing
+ * (or is not a valid pattern) stays as it is. Relative patterns are
+ * matched against the working directory and stay relative. Null when
+ * there are more than MAX_GLOB_MATCHES.
+ */
+function expandGlob(pattern: string, cwd: string): string[] | null {
+  if (!/[*?[]/.test(pattern)) {
+    return [pattern];
+  }
+
+  let matches = [''];
+  for (const [index, segment] of pattern.split('/').entries()) {
+    const join = (prefix: string, name: string): string => (index === 0 ? name : `${prefix}/${name}`);
+    if (!/[*?[]/.test(segment)) {
+      matches = matches.map((prefix) => join(prefix, segment));
+      continue;
+    }
+
+    let regex: RegExp;
+    try {
+      regex = globToRegExp(segment);
+    } catch {
+      return [pattern];
+    }
+    matches = matches.flatMap((prefix) => {
+      const dir = index === 0 ? cwd : path.resolve(cwd, prefix === '' ? '/' : prefix);
+      return readDirOrEmpty(dir)
+        .filter((name) => regex.test(name) && (!name.startsWith('.') || segment.startsWith('.')))
+        .sort()
+        .map((name) => join(prefix, name));
+    });
+    if (matches.length > MAX_GLOB_MATCHES) {
+      return null;
+    }
+  }
+  return matches.length > 0 ? matches : [pattern];
+}
+
+/** A glob pattern segment as an anchored regex; throws for an invalid `[…]` range */
+function globToRegExp(segment: string): RegExp {
+  let source = '';
+  for (let index = 0; index < segment.length; index++) {
+    const char = segment[index];
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      let start = index + 1;
+      const negate = segment[start] === '!' || segment[start] === '^';
+      if (negate) {
+        start++;
+      }
+      // A `]` right after `[` or `[!` belongs to the set
+      const close = segment.indexOf(']', start + 1);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      const set = segment.slice(start, close).replace(/[\\\]^[]/g, '\\$&');
+      source += `[${negate ? '^' : ''}${set}]`;
+      index = close;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/** Quote an argument for a POSIX shell: single quotes, so nothing in it expands */
+function quoteArg(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function readDirOrEmpty(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+/** Whether a path is strictly below a directory (the directory itself is not) */
+function isBelow(target: string, dir: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative.length > 0 && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+/**
+ * Whether a flag was given: exactly, as `--flag=value` for a long flag,
+ * or, for a single-letter flag, inside a group such as `-fd`.
+ */
+function hasFlag(flags: string[], flag: string): boolean {
+  const letter = /^-[A-Za-z0-9]$/.test(flag) ? flag[1] : null;
+  return flags.some((given) =>
+    given === flag ||
+    (flag.startsWith('--') && given.startsWith(flag + '=')) ||
+    (letter !== null && /^-[A-Za-z0-9]+$/.test(given) && given.includes(letter))
+  );
+}
@@ -0,0 +1,80 @@
+import { runCommand } from './command-runner';
+
+/**
+ * A warning's preview shows what the held command would do, e.g. the
+ * files `git clean -fd` would remove, while the overlay asks the user to
+ * confirm it. Built-in rules and the user's own custom rules have
+ * previews (see WarningRule.preview); rules from command packs and
+ * repositories do not, so no command from someone else's file runs just
+ * because a warning is shown.
+ *
+ * Previews are read-only commands, but they run with the user's
+ * permissions like any other, so they are kept apart from the session:
+ * through command-runner.ts in the session's directory, without stdin or
+ * a terminal, with pagers, prompts and colors turned off. A preview is
+ * killed once it runs too long or its warning is confirmed or cancelled.
+ */
+
+/** A preview that has not finished by then is killed */
+const PREVIEW_TIMEOUT_MS = 5000;
+
+/** Output kept from a preview; the rest is dropped and reported as truncated */
+const MAX_PREVIEW_OUTPUT = 16 * 1024;
+
+/** Output of a preview command */
+export interface WarningPreviewResult {
+  output: string;
+  truncated: boolean;
+  /** Why the preview failed, or null if it exited with status 0 */
+  error: string | null;
+}
+
+/**
+ * Run a warning rule's preview command (e.g. `git clean --dry-run -fd`).
+ * Output is stdout, then stderr. Never rejects; a failure is reported in
+ * `error`.
+ *
+ * @param command - The preview command, with its placeholders filled in
+ * @param cwd - The session's working directory
+ * @param env - The environment the session's shell was started with
+ * @param signal - Aborted once the warning is resolved, to kill the preview
+ */
+export async function runWarningPreview(
+  command: string,
+  cwd: string,
+  env: Record<string, string>,
+  signal: AbortSignal
+): Promise<WarningPreviewResult> {
+  try {
+    const result = await runCommand(command, {
+      cwd,
+      env: {
+        ...env,
+        TERM: 'dumb',
+        NO_COLOR: '1',
+        PAGER: 'cat',
+        GIT_PAGER: 'cat',
+        GIT_TERMINAL_PROMPT: '0',
+        GIT_OPTIONAL_LOCKS: '0',
+      },
+      timeoutMs: PREVIEW_TIMEOUT_MS,
+      maxOutput: MAX_PREVIEW_OUTPUT,
+      signal,
+    });
+
+    const output = [result.stdout.trimEnd(), result.stderr.trimEnd()].filter((text) => text !== '').join('\n');
+    let error: string | null = null;
+    if (result.aborted) {
+      error = 'Stopped because the warning was closed';
+    } else if (result.timedOut) {
+      error = `Stopped after ${PREVIEW_TIMEOUT_MS / 1000} seconds`;
+    } else if (result.signal) {
+      error = `Killed by ${result.signal}`;
+    } else if (result.code !== 0) {
+      error = `Exited with code ${result.code}`;
+    }
+    return { output, truncated: result.truncated, error };
+  } catch (err) {
+    return { output: '', truncated: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
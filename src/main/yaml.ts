@@ -0,0 +1,535 @@
+/**
+ * A small YAML reader and writer for command pack files.
+ *
+ * Covers the block style people write such files in: nested mappings and
+ * sequences, plain, quoted and block (`|`, `>`) scalars, and comments.
+ * Flow collections (`[a, b]`, `{key: value}`) must fit on one line.
+ * Anchors, aliases, tags and multiple documents are not supported and are
+ * reported as errors, with the line they are on.
+ */
+
+/** A parsed YAML value */
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+/** A source line with its indentation measured */
+interface Line {
+  /** 1-based line number, for error messages */
+  number: number;
+  indent: number;
+  /** The line without its indentation */
+  text: string;
+}
+
+/** Spaces per nesting level written by stringifyYaml() */
+const INDENT = '  ';
+
+/**
+ * Plain scalars that parseYaml() reads as strings but other YAML readers
+ * may not: YAML 1.1 booleans (`yes`, `off`), `.inf`, `.nan` and anything
+ * starting like a number (`0x1F`, `1_000`). stringifyYaml() quotes them.
+ */
+const AMBIGUOUS_PLAIN = /^(y|n|yes|no|on|off|=)$|^[-+]?\.(inf|nan)$|^[-+.]?\d/i;
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse a YAML document.
+ *
+ * @throws Error with the offending line number when the text is not in
+ *         the supported subset
+ */
+export function parseYaml(text: string): YamlValue {
+  const lines: Line[] = text.split(/\r?\n/).map((raw, index) => {
+    const indent = raw.length - raw.trimStart().length;
+    if (raw.slice(0, indent).includes('\t') && raw.trim() !== '') {
+      throw new Error(`Line ${index + 1}: Tabs cannot be used for indentation`);
+    }
+    return { number: index + 1, indent, text: raw.trimStart().replace(/\s+$/, '') };
+  });
+
+  const parser = new Parser(lines);
+  parser.skipDocumentStart();
+  const value = parser.atEnd() ? null : parser.parseNode(0);
+  parser.expectEnd();
+  return value;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly lines: Line[]) {}
+
+  /** The next line with content, skipping blank lines and comments */
+  peek(): Line | null {
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.text !== '' && !line.text.startsWith('#')) return line;
+      this.position++;
+    }
+    return null;
+  }
+
+  atEnd(): boolean {
+    return this.peek() === null;
+  }
+
+  skipDocumentStart(): void {
+    const line = this.peek();
+    if (line && line.indent === 0 && (line.text === '---' || line.text.startsWith('--- '))) {
+      if (line.text !== '---') {
+        throw new Error(`Line ${line.number}: Content after --- is not supported`);
+      }
+      this.position++;
+    }
+  }
+
+  expectEnd(): void {
+    const line = this.peek();
+    if (!line) return;
+    if (line.text === '---' || line.text === '...') {
+      throw new Error(`Line ${line.number}: Only one document per file is supported`);
+    }
+    throw new Error(`Line ${line.number}: Unexpected content; check its indentation`);
+  }
+
+  /**
+   * Parse the mapping or sequence starting at the next line, which must be
+   * indented at least `minIndent`.
+   */
+  parseNode(minIndent: number): YamlValue {
+    const line = this.peek();
+    if (!line || line.indent < minIndent) return null;
+    return isSequenceItem(line.text) ? this.parseSequence(line.indent) : this.parseMapping(line.indent);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) {
+        throw new Error(`Line ${line.number}: Unexpected indentation`);
+      }
+      if (!isSequenceItem(line.text)) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '' || rest.startsWith('#')) {
+        this.position++;
+        items.push(this.parseNode(indent + 1));
+      } else if (isSequenceItem(rest) || splitKey(rest, line.number)) {
+        // `- key: value` and `- - item` open a nested collection on the same line;
+        // its content is indented to where it starts
+        this.lines[this.position] = { number: line.number, indent: indent + line.text.length - rest.length, text: rest };
+        items.push(this.parseNode(indent + 1));
+      } else {
+        this.position++;
+        items.push(this.parseValue(rest, line, indent));
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) {
+        throw new Error(`Line ${line.number}: Unexpected indentation`);
+      }
+      if (isSequenceItem(line.text)) {
+        throw new Error(`Line ${line.number}: Expected "key: value", found a list item`);
+      }
+
+      const entry = splitKey(line.text, line.number);
+      if (!entry) {
+        throw new Error(`Line ${line.number}: Expected "key: value"`);
+      }
+      if (Object.prototype.hasOwnProperty.call(mapping, entry.key)) {
+        throw new Error(`Line ${line.number}: Duplicate key "${entry.key}"`);
+      }
+      this.position++;
+
+      if (entry.value === '' || entry.value.startsWith('#')) {
+        // The value is the block below; a list may start at the key's own indentation
+        const next = this.peek();
+        if (next && next.indent > indent) {
+          mapping[entry.key] = this.parseNode(indent + 1);
+        } else if (next && next.indent === indent && isSequenceItem(next.text)) {
+          mapping[entry.key] = this.parseSequence(indent);
+        } else {
+          mapping[entry.key] = null;
+        }
+      } else {
+        mapping[entry.key] = this.parseValue(entry.value, line, indent);
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Parse the value written after `key:` or `-`, reading the lines of a
+   * block scalar that follow it.
+   */
+  private parseValue(text: string, line: Line, parentIndent: number): YamlValue {
+    const block = /^([|>])([+-]?)\s*(#.*)?$/.exec(text);
+    return block ? this.parseBlockScalar(block[1], block[2], parentIndent) : parseScalar(text, line.number);
+  }
+
+  /**
+   * Read the lines of a `|` (literal) or `>` (folded) block scalar: all
+   * following lines that are blank or indented deeper than its key.
+   */
+  private parseBlockScalar(style: string, chomping: string, parentIndent: number): string {
+    const content: Line[] = [];
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.text !== '' && line.indent <= parentIndent) break;
+      content.push(line);
+      this.position++;
+    }
+
+    const first = content.find((line) => line.text !== '');
+    const blockIndent = first ? first.indent : 0;
+    const texts = content.map((line) => {
+      if (line.text === '') return '';
+      if (line.indent < blockIndent) {
+        throw new Error(`Line ${line.number}: Block text is indented less than its first line`);
+      }
+      return ' '.repeat(line.indent - blockIndent) + line.text;
+    });
+
+    // Trailing blank lines belong to the chomping, not the text
+    let end = texts.length;
+    while (end > 0 && texts[end - 1] === '') end--;
+    const body = texts.slice(0, end);
+    if (body.length === 0) return '';
+
+    let value = style === '|' ? body.join('\n') : foldLines(body);
+    if (chomping === '+') {
+      value += '\n'.repeat(texts.length - end + 1);
+    } else if (chomping === '') {
+      value += '\n';
+    }
+    return value;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Split `key: value` into its key and the text after the colon, or null
+ * when the text is not a mapping entry. Keys may be quoted.
+ */
+function splitKey(text: string, lineNumber: number): { key: string; value: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findClosingQuote(text);
+    if (end === -1) return null;
+    const rest = text.slice(end + 1);
+    const colon = /^\s*:(?:\s+|$)/.exec(rest);
+    if (!colon) return null;
+    return { key: String(parseScalar(text.slice(0, end + 1), lineNumber)), value: rest.slice(colon[0].length) };
+  }
+
+  const plain = /^([^\s#[\]{},&*!|>%@`][^#]*?)\s*:(?:\s+|$)/.exec(text);
+  if (!plain || plain[1].includes(': ')) return null;
+  return { key: plain[1], value: text.slice(plain[0].length) };
+}
+
+/**
+ * Index of the quote closing the quoted scalar that starts the text, or -1.
+ * Double quotes escape with a backslash, single quotes by doubling.
+ */
+function findClosingQuote(text: string): number {
+  const quote = text[0];
+  for (let i = 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a scalar or flow collection written on one line, with any
+ * trailing comment.
+ */
+function parseScalar(text: string, lineNumber: number): YamlValue {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findClosingQuote(text);
+    if (end === -1) {
+      throw new Error(`Line ${lineNumber}: Missing closing quote`);
+    }
+    const rest = text.slice(end + 1).trim();
+    if (rest !== '' && !rest.startsWith('#')) {
+      throw new Error(`Line ${lineNumber}: Unexpected text after quoted value`);
+    }
+    return unquote(text.slice(0, end + 1), lineNumber);
+  }
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return new FlowReader(text, lineNumber).read();
+  }
+
+  const value = text.replace(/\s+#.*$/, '').trim();
+
+  if (/^[&*!]/.test(value)) {
+    throw new Error(`Line ${lineNumber}: Anchors, aliases and tags are not supported`);
+  }
+  if (/:(\s|$)/.test(value)) {
+    // `a: b: c` is not a value with a colon in it but a second mapping
+    throw new Error(`Line ${lineNumber}: A value containing ": " must be put in quotes`);
+  }
+
+  return resolvePlain(value);
+}
+
+/** The string a quoted scalar, quotes included, stands for */
+function unquote(quoted: string, lineNumber: number): string {
+  if (quoted[0] === "'") {
+    return quoted.slice(1, -1).replace(/''/g, "'");
+  }
+  try {
+    return JSON.parse(quoted) as string;
+  } catch {
+    throw new Error(`Line ${lineNumber}: Invalid escape sequence in quoted value`);
+  }
+}
+
+/**
+ * Reads a flow collection, `[a, "b"]` or `{key: value}`, possibly nested,
+ * from the text after a key or dash. It must end on the same line.
+ */
+class FlowReader {
+  private position = 0;
+
+  constructor(private readonly text: string, private readonly lineNumber: number) {}
+
+  read(): YamlValue {
+    const value = this.readValue();
+    this.skipSpace();
+    const rest = this.text.slice(this.position);
+    if (rest !== '' && !rest.startsWith('#')) {
+      this.fail('Unexpected text after the closing bracket');
+    }
+    return value;
+  }
+
+  private readValue(): YamlValue {
+    this.skipSpace();
+    const char = this.text[this.position];
+    if (char === '[') return this.readSequence();
+    if (char === '{') return this.readMapping();
+    return this.readScalar(false);
+  }
+
+  private readSequence(): YamlValue[] {
+    const items: YamlValue[] = [];
+    this.position++;
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.position] === ']') {
+        this.position++;
+        return items;
+      }
+      items.push(this.readValue());
+      this.expectSeparator(']');
+    }
+  }
+
+  private readMapping(): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+    this.position++;
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.position] === '}') {
+        this.position++;
+        return mapping;
+      }
+      const key = String(this.readScalar(true));
+      this.skipSpace();
+      if (this.text[this.position] !== ':') {
+        this.fail('Expected "key: value" in braces');
+      }
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        this.fail(`Duplicate key "${key}"`);
+      }
+      this.position++;
+      this.skipSpace();
+      const next = this.text[this.position];
+      mapping[key] = next === ',' || next === '}' ? null : this.readValue();
+      this.expectSeparator('}');
+    }
+  }
+
+  /**
+   * Read a quoted or plain scalar. A plain one ends at a comma, bracket,
+   * brace or comment, and a key also at its colon.
+   */
+  private readScalar(isKey: boolean): YamlValue {
+    const rest = this.text.slice(this.position);
+    if (rest.startsWith('"') || rest.startsWith("'")) {
+      const end = findClosingQuote(rest);
+      if (end === -1) {
+        this.fail('Missing closing quote');
+      }
+      this.position += end + 1;
+      return unquote(rest.slice(0, end + 1), this.lineNumber);
+    }
+
+    let end = this.position;
+    for (; end < this.text.length; end++) {
+      const char = this.text[end];
+      if (',[]{}'.includes(char)) break;
+      if (char === '#' && /\s/.test(this.text[end - 1])) break;
+      if (char === ':' && /^[\s,[\]{}]?$/.test(this.text[end + 1] ?? '')) {
+        if (isKey) break;
+        this.fail('A value containing ": " must be put in quotes');
+      }
+    }
+    const value = this.text.slice(this.position, end).trim();
+    this.position = end;
+
+    if (value === '') {
+      this.fail(end < this.text.length ? 'Missing value' : 'Missing closing bracket; a list or mapping in brackets must fit on one line');
+    }
+    if (/^[&*!]/.test(value)) {
+      this.fail('Anchors, aliases and tags are not supported');
+    }
+    return resolvePlain(value);
+  }
+
+  /** Step over the comma after an entry, or stop at the closing bracket */
+  private expectSeparator(close: string): void {
+    this.skipSpace();
+    const char = this.text[this.position];
+    if (char === ',') {
+      this.position++;
+    } else if (char === undefined || char === '#') {
+      this.fail('Missing closing bracket; a list or mapping in brackets must fit on one line');
+    } else if (char !== close) {
+      this.fail(`Expected "," or "${close}"`);
+    }
+  }
+
+  private skipSpace(): void {
+    while (this.text[this.position] === ' ' || this.text[this.position] === '\t') {
+      this.position++;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Line ${this.lineNumber}: ${message}`);
+  }
+}
+
+/** The value a plain (unquoted) scalar stands for */
+function resolvePlain(value: string): YamlValue {
+  if (/^(~|null|Null|NULL)?$/.test(value)) return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/** Join the lines of a folded block scalar: single line breaks become spaces */
+function foldLines(lines: string[]): string {
+  let result = '';
+  lines.forEach((line, index) => {
+    if (index === 0) {
+      result = line;
+    } else if (line === '' || lines[index - 1] === '' || line.startsWith(' ')) {
+      result += '\n' + line;
+    } else {
+      result += ' ' + line;
+    }
+  });
+  return result;
+}
+
+// ============================================================
+// Writing
+// ============================================================
+
+/**
+ * Write a value as a block-style YAML document that parseYaml() reads
+ * back to an equal value. Undefined object properties are left out.
+ */
+export function stringifyYaml(value: unknown): string {
+  if (isCollection(value)) {
+    return writeCollection(value, '').join('\n') + '\n';
+  }
+  return writeScalar(value) + '\n';
+}
+
+function writeCollection(value: unknown[] | Record<string, unknown>, indent: string): string[] {
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isCollection(item)) {
+        // The item's first line goes on the dash line
+        const nested = writeCollection(item, indent + INDENT);
+        lines.push(indent + '- ' + nested[0].slice(indent.length + INDENT.length), ...nested.slice(1));
+      } else {
+        lines.push(indent + '- ' + writeScalar(item));
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    if (isCollection(item)) {
+      lines.push(indent + writeKey(key) + ':', ...writeCollection(item, indent + INDENT));
+    } else {
+      lines.push(indent + writeKey(key) + ': ' + writeScalar(item));
+    }
+  }
+  return lines;
+}
+
+/** Whether a value is written as a block: an array or object with entries */
+function isCollection(value: unknown): value is unknown[] | Record<string, unknown> {
+  if (Array.isArray(value)) return value.length > 0;
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.values(value).some((item) => item !== undefined)
+  );
+}
+
+function writeKey(key: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(key) && resolvePlain(key) === key && !AMBIGUOUS_PLAIN.test(key)
+    ? key
+    : JSON.stringify(key);
+}
+
+/**
+ * Write a scalar; strings are left unquoted when they read back unchanged
+ * here and in other YAML readers, and double-quoted (JSON escapes are
+ * valid YAML) otherwise.
+ */
+function writeScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  if (typeof value !== 'string') return String(value);
+
+  const plain =
+    /^[\w./(~][\w ./()=+,;@$-]*$/.test(value) &&
+    !value.endsWith(' ') &&
+    resolvePlain(value) === value &&
+    !AMBIGUOUS_PLAIN.test(value);
+  return plain ? value : JSON.stringify(value);
+}
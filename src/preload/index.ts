@@ -1,24 +1,52 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import { IPC_CHANNELS } from '../shared/ipc-channels';
+import type { CommandPack, CommandPackEntry, ShellCommandEvent } from '../shared/types';
 
-type ShellDataCallback = (data: string) => void;
-type ShellExitCallback = (exitCode: number) => void;
+type ShellDataCallback = (sessionId: string, data: string) => void;
+type ShellExitCallback = (sessionId: string, exitCode: number) => void;
+type ShellCommandCallback = (event: ShellCommandEvent) => void;
+type ShellCwdCallback = (sessionId: string, cwd: string) => void;
+type ProjectChangedCallback = (directory: string) => void;
 
 const shellDataCallbacks = new Set<ShellDataCallback>();
 const shellExitCallbacks = new Set<ShellExitCallback>();
+const shellCommandCallbacks = new Set<ShellCommandCallback>();
+const shellCwdCallbacks = new Set<ShellCwdCallback>();
+const projectChangedCallbacks = new Set<ProjectChangedCallback>();
 
 let shellDataForwarderRegistered = false;
 let shellExitForwarderRegistered = false;
+let shellCommandForwarderRegistered = false;
+let shellCwdForwarderRegistered = false;
+let projectChangedForwarderRegistered = false;
 
-const shellDataForwarder = (_event: unknown, payload: { data: string }) => {
+const shellDataForwarder = (_event: unknown, payload: { sessionId: string; data: string }) => {
   for (const callback of shellDataCallbacks) {
-    callback(payload.data);
+    callback(payload.sessionId, payload.data);
   }
 };
 
-const shellExitForwarder = (_event: unknown, payload: { exitCode: number }) => {
+const shellExitForwarder = (_event: unknown, payload: { sessionId: string; exitCode: number }) => {
   for (const callback of shellExitCallbacks) {
-    callback(payload.exitCode);
+    callback(payload.sessionId, payload.exitCode);
+  }
+};
+
+const shellCommandForwarder = (_event: unknown, payload: ShellCommandEvent) => {
+  for (const callback of shellCommandCallbacks) {
+    callback(payload);
+  }
+};
+
+const shellCwdForwarder = (_event: unknown, payload: { sessionId: string; cwd: string }) => {
+  for (const callback of shellCwdCallbacks) {
+    callback(payload.sessionId, payload.cwd);
+  }
+};
+
+const projectChangedForwarder = (_event: unknown, payload: { directory: string }) => {
+  for (const callback of projectChangedCallbacks) {
+    callback(payload.directory);
   }
 };
 
@@ -50,6 +78,48 @@ function maybeDetachShellExitForwarder(): void {
   }
 }
 
+function ensureShellCommandForwarder(): void {
+  if (!shellCommandForwarderRegistered) {
+    ipcRenderer.on(IPC_CHANNELS.SHELL_COMMAND, shellCommandForwarder);
+    shellCommandForwarderRegistered = true;
+  }
+}
+
+function maybeDetachShellCommandForwarder(): void {
+  if (shellCommandForwarderRegistered && shellCommandCallbacks.size === 0) {
+    ipcRenderer.removeListener(IPC_CHANNELS.SHELL_COMMAND, shellCommandForwarder);
+    shellCommandForwarderRegistered = false;
+  }
+}
+
+function ensureShellCwdForwarder(): void {
+  if (!shellCwdForwarderRegistered) {
+    ipcRenderer.on(IPC_CHANNELS.SHELL_CWD_CHANGED, shellCwdForwarder);
+    shellCwdForwarderRegistered = true;
+  }
+}
+
+function maybeDetachShellCwdForwarder(): void {
+  if (shellCwdForwarderRegistered && shellCwdCallbacks.size === 0) {
+    ipcRenderer.removeListener(IPC_CHANNELS.SHELL_CWD_CHANGED, shellCwdForwarder);
+    shellCwdForwarderRegistered = false;
+  }
+}
+
+function ensureProjectChangedForwarder(): void {
+  if (!projectChangedForwarderRegistered) {
+    ipcRenderer.on(IPC_CHANNELS.PROJECT_CHANGED, projectChangedForwarder);
+    projectChangedForwarderRegistered = true;
+  }
+}
+
+function maybeDetachProjectChangedForwarder(): void {
+  if (projectChangedForwarderRegistered && projectChangedCallbacks.size === 0) {
+    ipcRenderer.removeListener(IPC_CHANNELS.PROJECT_CHANGED, projectChangedForwarder);
+    projectChangedForwarderRegistered = false;
+  }
+}
+
 /**
  * Preload script: Exposes a typed, minimal, safe API to the renderer process
  * via contextBridge.exposeInMainWorld('api', {...}).
@@ -82,38 +152,46 @@ contextBridge.exposeInMainWorld('api', {
   // ============================================================
   shell: {
     /**
-     * Request the main process to spawn a new shell.
+     * Request the main process to spawn a new shell for the given session.
+     * A null cwd uses the profile's starting directory; a null or unknown
+     * profileId uses the default profile built from the `shell` config.
      */
-    spawn: (cwd: string, cols: number, rows: number): void => {
-      ipcRenderer.send(IPC_CHANNELS.SHELL_SPAWN, { cwd, cols, rows });
+    spawn: (
+      sessionId: string,
+      cwd: string | null,
+      cols: number,
+      rows: number,
+      profileId: string | null = null
+    ): void => {
+      ipcRenderer.send(IPC_CHANNELS.SHELL_SPAWN, { sessionId, cwd, cols, rows, profileId });
     },
 
     /**
-     * Write data (keystrokes, paste) to the shell.
+     * Write data (keystrokes, paste) to a session's shell.
      */
-    write: (data: string): void => {
-      ipcRenderer.send(IPC_CHANNELS.SHELL_WRITE, { data });
+    write: (sessionId: string, data: string): void => {
+      ipcRenderer.send(IPC_CHANNELS.SHELL_WRITE, { sessionId, data });
     },
 
     /**
-     * Resize the shell PTY to match new terminal dimensions.
+     * Resize a session's PTY to match new terminal dimensions.
      */
-    resize: (cols: number, rows: number): void => {
-      ipcRenderer.send(IPC_CHANNELS.SHELL_RESIZE, { cols, rows });
+    resize: (sessionId: string, cols: number, rows: number): void => {
+      ipcRenderer.send(IPC_CHANNELS.SHELL_RESIZE, { sessionId, cols, rows });
     },
 
     /**
-     * Kill the running shell process.
+     * Kill a session's shell process.
      */
-    kill: (): void => {
-      ipcRenderer.send(IPC_CHANNELS.SHELL_KILL);
+    kill: (sessionId: string): void => {
+      ipcRenderer.send(IPC_CHANNELS.SHELL_KILL, { sessionId });
     },
 
     /**
-     * Register a callback to receive shell output data.
-     * The Electron event object is stripped; only the data string is passed.
+     * Register a callback to receive shell output data from every session.
+     * The Electron event object is stripped; only the session ID and data string are passed.
      */
-    onData: (callback: (data: string) => void): (() => void) => {
+    onData: (callback: (sessionId: string, data: string) => void): (() => void) => {
       shellDataCallbacks.add(callback);
       ensureShellDataForwarder();
       return () => {
@@ -123,10 +201,10 @@ contextBridge.exposeInMainWorld('api', {
     },
 
     /**
-     * Register a callback to be notified when the shell process exits.
+     * Register a callback to be notified when a session's shell process exits.
      * The Electron event object is stripped.
      */
-    onExit: (callback: (exitCode: number) => void): (() => void) => {
+    onExit: (callback: (sessionId: string, exitCode: number) => void): (() => void) => {
       shellExitCallbacks.add(callback);
       ensureShellExitForwarder();
       return () => {
@@ -134,6 +212,33 @@ contextBridge.exposeInMainWorld('api', {
         maybeDetachShellExitForwarder();
       };
     },
+
+    /**
+     * Register a callback to receive per-command events (prompt, start,
+     * finish) reported by shell integration in every session.
+     * The Electron event object is stripped.
+     */
+    onCommand: (callback: (event: ShellCommandEvent) => void): (() => void) => {
+      shellCommandCallbacks.add(callback);
+      ensureShellCommandForwarder();
+      return () => {
+        shellCommandCallbacks.delete(callback);
+        maybeDetachShellCommandForwarder();
+      };
+    },
+
+    /**
+     * Register a callback to be notified when a session's shell changes
+     * its working directory. The Electron event object is stripped.
+     */
+    onCwdChanged: (callback: (sessionId: string, cwd: string) => void): (() => void) => {
+      shellCwdCallbacks.add(callback);
+      ensureShellCwdForwarder();
+      return () => {
+        shellCwdCallbacks.delete(callback);
+        maybeDetachShellCwdForwarder();
+      };
+    },
   },
 
   // ============================================================
@@ -141,10 +246,11 @@ contextBridge.exposeInMainWorld('api', {
   // ============================================================
   warning: {
     /**
-     * Pre-check a command against warning rules (invoke/handle).
+     * Pre-check a command against warning rules (invoke/handle), in the
+     * session's working directory, or the app's without a session.
      */
-    check: (command: string) => {
-      return invokeWithTimeout(IPC_CHANNELS.WARNING_CHECK, { command });
+    check: (command: string, sessionId: string | null) => {
+      return invokeWithTimeout(IPC_CHANNELS.WARNING_CHECK, { command, sessionId });
     },
 
     /**
@@ -154,6 +260,7 @@ contextBridge.exposeInMainWorld('api', {
      */
     onWarning: (callback: (payload: {
       warningId: string;
+      sessionId: string;
       command: string;
       riskLevel: string;
       description: string;
@@ -164,18 +271,36 @@ contextBridge.exposeInMainWorld('api', {
       });
     },
 
+    /**
+     * Register a callback to be notified when the preview command of a
+     * triggered warning's rule has finished.
+     * The Electron event object is stripped.
+     */
+    onPreview: (callback: (payload: {
+      warningId: string;
+      sessionId: string;
+      command: string;
+      output: string;
+      truncated: boolean;
+      error: string | null;
+    }) => void): void => {
+      ipcRenderer.on(IPC_CHANNELS.WARNING_PREVIEW, (_event, payload) => {
+        callback(payload);
+      });
+    },
+
     /**
      * Confirm execution of a held command (user clicked "Execute Anyway").
      */
-    confirmExecution: (warningId: string): void => {
-      ipcRenderer.send(IPC_CHANNELS.WARNING_CONFIRM, { warningId });
+    confirmExecution: (sessionId: string, warningId: string): void => {
+      ipcRenderer.send(IPC_CHANNELS.WARNING_CONFIRM, { sessionId, warningId });
     },
 
     /**
      * Cancel execution of a held command (user clicked "Cancel").
      */
-    cancelExecution: (warningId: string): void => {
-      ipcRenderer.send(IPC_CHANNELS.WARNING_CANCEL, { warningId });
+    cancelExecution: (sessionId: string, warningId: string): void => {
+      ipcRenderer.send(IPC_CHANNELS.WARNING_CANCEL, { sessionId, warningId });
     },
   },
 
@@ -217,11 +342,81 @@ contextBridge.exposeInMainWorld('api', {
   // ============================================================
   project: {
     /**
-     * Detect project types in the given directory.
+     * Detect project types in the given directory and its ancestors.
+     * Resolves to a ProjectDetectionResult.
      */
     detect: (directory: string) => {
       return invokeWithTimeout(IPC_CHANNELS.PROJECT_DETECT, { directory });
     },
+
+    /**
+     * Register a callback to be notified when a project file of the last
+     * detection (package.json, Makefile, justfile, Taskfile) changes on
+     * disk, or the approval of its command file changes. Receives the
+     * directory to detect again.
+     */
+    onChanged: (callback: (directory: string) => void): (() => void) => {
+      projectChangedCallbacks.add(callback);
+      ensureProjectChangedForwarder();
+      return () => {
+        projectChangedCallbacks.delete(callback);
+        maybeDetachProjectChangedForwarder();
+      };
+    },
+
+    /**
+     * Approve the content of a project command file, identified by its
+     * hash, or withdraw the approval with null. Resolves to
+     * { success: true }; the project is then detected again.
+     */
+    setCommandFileTrust: (filePath: string, hash: string | null) => {
+      return invokeWithTimeout(IPC_CHANNELS.PROJECT_TRUST_COMMANDS, { filePath, hash });
+    },
+  },
+
+  // ============================================================
+  // Command Template API
+  // ============================================================
+  template: {
+    /**
+     * Run a template variable's choicesCommand in the session's working
+     * directory. Resolves to { choices: string[], error: string | null }.
+     */
+    getChoices: (command: string, sessionId: string | null) => {
+      return invokeWithTimeout(IPC_CHANNELS.TEMPLATE_CHOICES, { command, sessionId });
+    },
+  },
+
+  // ============================================================
+  // Command Pack API
+  // ============================================================
+  // The file dialogs wait on the user, so these calls have no timeout.
+  pack: {
+    /**
+     * Ask the user for a command pack file and read it for review.
+     * Resolves to a CommandPackPreview, or null when the dialog is cancelled.
+     */
+    import: () => {
+      return ipcRenderer.invoke(IPC_CHANNELS.PACK_IMPORT);
+    },
+
+    /**
+     * Import a reviewed pack, resolving each conflicting entry as set in
+     * its entry. Resolves to a CommandPackImportResult.
+     */
+    apply: (pack: CommandPack, entries: CommandPackEntry[]) => {
+      return invokeWithTimeout(IPC_CHANNELS.PACK_APPLY, { pack, entries });
+    },
+
+    /**
+     * Export custom commands to a file chosen by the user: those of one
+     * category, or with null every custom command, user-defined category
+     * and custom warning rule. Resolves to { filePath }, or null when the
+     * dialog is cancelled.
+     */
+    export: (category: string | null, name: string) => {
+      return ipcRenderer.invoke(IPC_CHANNELS.PACK_EXPORT, { category, name });
+    },
   },
 
   // ============================================================
@@ -479,6 +479,26 @@ function subscribeToEvents(): void {
     })
   );
 
+  // shell:command-started / shell:command-finished — per-command animations,
+  // available when the shell reports command boundaries (shell integration)
+  unsubscribers.push(
+    eventBus.on('shell:command-started', () => {
+      setState('running');
+    })
+  );
+
+  unsubscribers.push(
+    eventBus.on('shell:command-finished', (payload: { exitCode: number | null }) => {
+      if (payload.exitCode === null) {
+        setState('idle');
+      } else if (payload.exitCode === 0) {
+        setState('success');
+      } else {
+        setState('error');
+      }
+    })
+  );
+
   // shell:spawned — return to idle when a new shell is spawned
   unsubscribers.push(
     eventBus.on('shell:spawned', () => {
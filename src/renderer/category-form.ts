@@ -0,0 +1,347 @@
+/**
+ * CommandCanvas - Category Form
+ *
+ * Renders a modal form for creating and editing user-defined command
+ * categories. Hidden by default; shown when the category-form:open event
+ * fires (from the command panel's "+" tab and tab context menu).
+ *
+ * Form fields:
+ * - Name (text input)
+ * - Icon (short text input, e.g. an emoji)
+ * - Color (dropdown of theme colors)
+ * - Show tab (dropdown: always, or while a project type is detected)
+ *
+ * Saving writes config.categories: the definition to userDefined, and the
+ * Show tab choice to alwaysVisible or the definition's projectType.
+ *
+ * Events published:
+ * - commands:updated  void -> after saving
+ *
+ * Events subscribed to:
+ * - category-form:open  void | { category: CategoryDefinition }
+ */
+
+import { eventBus } from './event-bus';
+import type { AppConfig, CategoryDefinition } from '../shared/types';
+import type { CommandSource } from './command-palette';
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** The overlay container element passed in via init() */
+let containerEl: HTMLElement | null = null;
+
+/** The modal dialog element */
+let modalEl: HTMLElement | null = null;
+
+/** Title element */
+let titleEl: HTMLElement | null = null;
+
+/** Form field elements */
+let nameInput: HTMLInputElement | null = null;
+let iconInput: HTMLInputElement | null = null;
+let colorSelect: HTMLSelectElement | null = null;
+let showSelect: HTMLSelectElement | null = null;
+
+/** Error display element */
+let errorEl: HTMLElement | null = null;
+
+/** The category being edited (null when creating one) */
+let editingCategory: CategoryDefinition | null = null;
+
+/** The known categories, for project types and duplicate names */
+let source: CommandSource | null = null;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Tab colors offered, from the theme palette */
+const COLORS = [
+  { value: '', label: 'Default' },
+  { value: '#f38ba8', label: 'Red' },
+  { value: '#fab387', label: 'Peach' },
+  { value: '#f9e2af', label: 'Yellow' },
+  { value: '#a6e3a1', label: 'Green' },
+  { value: '#94e2d5', label: 'Teal' },
+  { value: '#89b4fa', label: 'Blue' },
+  { value: '#cba6f7', label: 'Mauve' },
+  { value: '#f5c2e7', label: 'Pink' },
+];
+
+/** Value of the Show tab option for always visible */
+const SHOW_ALWAYS = '';
+
+/** Longest icon accepted; enough for an emoji with a modifier */
+const MAX_ICON_LENGTH = 4;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Initializes the category form inside the given overlay container.
+ * Builds the modal DOM structure and wires up event listeners.
+ *
+ * @param commandSource - The known categories and their labels
+ */
+export function init(container: HTMLElement, commandSource: CommandSource): void {
+  containerEl = container;
+  source = commandSource;
+
+  buildModal();
+
+  eventBus.on('category-form:open', (payload?: { category?: CategoryDefinition }) => {
+    open(payload?.category ?? null);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal: DOM construction
+// ---------------------------------------------------------------------------
+
+function buildModal(): void {
+  if (!containerEl) return;
+
+  modalEl = document.createElement('div');
+  modalEl.className = 'ccf-modal';
+
+  titleEl = document.createElement('h2');
+  titleEl.className = 'ccf-title';
+  modalEl.appendChild(titleEl);
+
+  errorEl = document.createElement('div');
+  errorEl.className = 'ccf-error';
+  errorEl.style.display = 'none';
+  modalEl.appendChild(errorEl);
+
+  const form = document.createElement('div');
+  form.className = 'ccf-form';
+
+  nameInput = createInput(form, 'Name', 'cf-name', 'e.g., Deploy');
+  iconInput = createInput(form, 'Icon', 'cf-icon', 'e.g., 🚀');
+  iconInput.maxLength = MAX_ICON_LENGTH;
+  colorSelect = createSelect(form, 'Color', 'cf-color');
+  for (const color of COLORS) {
+    colorSelect.appendChild(createOption(color.value, color.label));
+  }
+  showSelect = createSelect(form, 'Show tab', 'cf-show');
+
+  modalEl.appendChild(form);
+
+  const buttonRow = document.createElement('div');
+  buttonRow.className = 'ccf-buttons';
+
+  const cancelBtn = document.createElement('button');
+  cancelBtn.className = 'ccf-btn ccf-btn--cancel';
+  cancelBtn.type = 'button';
+  cancelBtn.textContent = 'Cancel';
+  cancelBtn.addEventListener('click', close);
+  buttonRow.appendChild(cancelBtn);
+
+  const saveBtn = document.createElement('button');
+  saveBtn.className = 'ccf-btn ccf-btn--save';
+  saveBtn.type = 'button';
+  saveBtn.textContent = 'Save';
+  saveBtn.addEventListener('click', handleSave);
+  buttonRow.appendChild(saveBtn);
+
+  modalEl.appendChild(buttonRow);
+  containerEl.appendChild(modalEl);
+
+  modalEl.addEventListener('keydown', handleKeydown);
+}
+
+function createInput(parent: HTMLElement, labelText: string, id: string, placeholder: string): HTMLInputElement {
+  const group = createField(parent, labelText, id);
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'ccf-input';
+  input.id = id;
+  input.placeholder = placeholder;
+  group.appendChild(input);
+  return input;
+}
+
+function createSelect(parent: HTMLElement, labelText: string, id: string): HTMLSelectElement {
+  const group = createField(parent, labelText, id);
+  const select = document.createElement('select');
+  select.className = 'ccf-select';
+  select.id = id;
+  group.appendChild(select);
+  return select;
+}
+
+function createField(parent: HTMLElement, labelText: string, id: string): HTMLElement {
+  const group = document.createElement('div');
+  group.className = 'ccf-field';
+
+  const label = document.createElement('label');
+  label.className = 'ccf-label';
+  label.htmlFor = id;
+  label.textContent = labelText;
+  group.appendChild(label);
+
+  parent.appendChild(group);
+  return group;
+}
+
+function createOption(value: string, label: string): HTMLOptionElement {
+  const option = document.createElement('option');
+  option.value = value;
+  option.textContent = label;
+  return option;
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Open / Close
+// ---------------------------------------------------------------------------
+
+/**
+ * Opens the form, empty or filled in with a category. The Show tab
+ * choices are the project categories, read fresh from the config.
+ */
+async function open(category: CategoryDefinition | null): Promise<void> {
+  if (!containerEl || !nameInput || !iconInput || !colorSelect || !showSelect || !titleEl) return;
+
+  let config: AppConfig;
+  try {
+    config = await window.api.config.load();
+  } catch {
+    return;
+  }
+
+  editingCategory = category;
+  titleEl.textContent = category ? 'Edit Category' : 'New Category';
+  hideError();
+
+  nameInput.value = category?.label ?? '';
+  iconInput.value = category?.icon ?? '';
+
+  // A color set in the config file by hand is kept as its own option
+  const color = category?.color ?? '';
+  colorSelect.querySelector('[data-custom]')?.remove();
+  if (!COLORS.some((option) => option.value === color)) {
+    const option = createOption(color, `Custom (${color})`);
+    option.dataset.custom = 'true';
+    colorSelect.appendChild(option);
+  }
+  colorSelect.value = color;
+
+  // Show tab: always, or with one of the project categories
+  const userIds = new Set(config.categories.userDefined.map((userCategory) => userCategory.id));
+  const projectTypes = (source?.getCategories() ?? []).filter(
+    (other) => other !== 'custom' && !userIds.has(other)
+  );
+  showSelect.textContent = '';
+  showSelect.appendChild(createOption(SHOW_ALWAYS, 'Always'));
+  for (const type of projectTypes) {
+    showSelect.appendChild(createOption(type, `With ${source?.getCategoryLabel(type) ?? type} projects`));
+  }
+  const alwaysVisible = !category || config.categories.alwaysVisible.includes(category.id);
+  showSelect.value = alwaysVisible || !category?.projectType ? SHOW_ALWAYS : category.projectType;
+
+  containerEl.classList.remove('hidden');
+  nameInput.focus();
+}
+
+function close(): void {
+  editingCategory = null;
+  containerEl?.classList.add('hidden');
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Error display
+// ---------------------------------------------------------------------------
+
+function showError(message: string): void {
+  if (!errorEl) return;
+  errorEl.textContent = message;
+  errorEl.style.display = 'block';
+}
+
+function hideError(): void {
+  if (!errorEl) return;
+  errorEl.textContent = '';
+  errorEl.style.display = 'none';
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Form handlers
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates the form and saves the category to config.
+ */
+async function handleSave(): Promise<void> {
+  const label = nameInput?.value.trim() || '';
+  const icon = iconInput?.value.trim() || '';
+  const color = colorSelect?.value || '';
+  const show = showSelect?.value ?? SHOW_ALWAYS;
+
+  if (!label) {
+    showError('Name is required.');
+    return;
+  }
+  const duplicate = (source?.getCategories() ?? []).some(
+    (other) => other !== editingCategory?.id && source?.getCategoryLabel(other).toLowerCase() === label.toLowerCase()
+  );
+  if (duplicate) {
+    showError(`A category named "${label}" already exists.`);
+    return;
+  }
+
+  hideError();
+
+  const category: CategoryDefinition = {
+    id: editingCategory ? editingCategory.id : 'category-' + Date.now(),
+    label,
+    color: color || null,
+    icon: icon || null,
+    projectType: show === SHOW_ALWAYS ? null : show,
+  };
+
+  try {
+    const config: AppConfig = await window.api.config.load();
+
+    const index = config.categories.userDefined.findIndex((other) => other.id === category.id);
+    if (index !== -1) {
+      config.categories.userDefined[index] = category;
+    } else {
+      config.categories.userDefined.push(category);
+    }
+
+    const others = config.categories.alwaysVisible.filter((other) => other !== category.id);
+    config.categories.alwaysVisible = show === SHOW_ALWAYS ? [...others, category.id] : others;
+
+    await window.api.config.save(config);
+    eventBus.emit('commands:updated');
+    close();
+  } catch {
+    showError('Failed to save category. Please try again.');
+  }
+}
+
+/**
+ * Enter saves, Escape cancels, and Tab stays inside the dialog.
+ */
+function handleKeydown(event: KeyboardEvent): void {
+  if (event.key === 'Escape') {
+    close();
+  } else if (event.key === 'Enter' && event.target instanceof HTMLInputElement) {
+    event.preventDefault();
+    handleSave();
+  } else if (event.key === 'Tab' && modalEl) {
+    const focusable = modalEl.querySelectorAll<HTMLElement>('button, input, select');
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+}
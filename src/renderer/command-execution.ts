@@ -0,0 +1,77 @@
+/**
+ * CommandCanvas - Command Execution
+ *
+ * Decides what picking a command does: insert it at the prompt, run it,
+ * or ask first (see CommandExecutionMode). A command's own `execution`
+ * wins over ui.defaultExecution, and a modifier on the click or key
+ * overrides both:
+ * - Ctrl/Cmd  run
+ * - Shift     insert
+ * - Alt       confirm
+ *
+ * Used by the command panel and the command palette, so both behave the
+ * same. Commands with {{placeholders}} always go through the template
+ * form, which then inserts or runs the filled command; in confirm mode
+ * the same form, with no fields, is the confirmation.
+ *
+ * Events published:
+ * - command:selected       { command, explanation, id, run }
+ * - command-template:open  { command, run }
+ */
+
+import { eventBus } from './event-bus';
+import { hasPlaceholders } from '../shared/command-templates';
+import type { CommandDefinition, CommandExecutionMode } from '../shared/types';
+
+/** Modifier state of the click or keypress that picked a command */
+export interface ExecutionModifiers {
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** ui.defaultExecution from the config */
+let defaultExecution: CommandExecutionMode = 'insert';
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Sets the mode of commands that do not set their own.
+ */
+export function setDefaultExecution(mode: CommandExecutionMode): void {
+  defaultExecution = mode;
+}
+
+/**
+ * Resolves the execution mode of a command picked with the given modifiers.
+ */
+export function getExecutionMode(command: CommandDefinition, modifiers?: ExecutionModifiers): CommandExecutionMode {
+  if (modifiers?.ctrlKey || modifiers?.metaKey) return 'run';
+  if (modifiers?.shiftKey) return 'insert';
+  if (modifiers?.altKey) return 'confirm';
+  return command.execution ?? defaultExecution;
+}
+
+/**
+ * Inserts, runs or confirms a command.
+ */
+export function executeCommand(command: CommandDefinition, mode: CommandExecutionMode): void {
+  if (mode === 'confirm' || hasPlaceholders(command.command)) {
+    eventBus.emit('command-template:open', { command, run: mode !== 'insert' });
+    return;
+  }
+
+  eventBus.emit('command:selected', {
+    command: command.command,
+    explanation: command.explanation,
+    id: command.id,
+    run: mode === 'run',
+  });
+}
@@ -0,0 +1,825 @@
+/**
+ * CommandCanvas - Command Pack Dialog
+ *
+ * Imports and exports command packs: files of custom commands,
+ * user-defined categories and warning rules (see command-packs.ts in the
+ * main process). Both start from the command panel's tab context menu.
+ *
+ * Importing asks the main process for a file and shows its contents in a
+ * modal before anything changes: every entry with whether it is new or its
+ * ID is already used and what it does (a command's command line, how it
+ * runs and the commands that fill its choices, a warning rule's
+ * condition), and the entries that could not be read with the reason.
+ * For each conflicting entry the user chooses to skip it, overwrite the
+ * existing entry or import it under a new ID; a select above the list
+ * sets the choice for all of them. Import applies the pack and shows what
+ * was done.
+ *
+ * Exporting goes straight to the save dialog; the modal only opens when
+ * the export fails.
+ *
+ * Reviewing a repository's command file lists what it would add, with the
+ * command each button runs, the commands that fill its choices and each
+ * warning rule's condition, so the user can decide whether to trust it.
+ * Approving it, or withdrawing the approval, makes the main process
+ * detect the project again, which updates the command panel.
+ *
+ * Events published:
+ * - commands:updated  void -> after importing
+ *
+ * Events subscribed to:
+ * - command-pack:import  void
+ * - command-pack:export  { category: string | null; name: string } -> category
+ *                        null exports all custom commands, categories and rules
+ * - command-pack:review-project  { file: ProjectCommandFile;
+ *                        takenCommandIds: string[] } -> commands under taken
+ *                        IDs are marked as not used
+ */
+
+import { eventBus } from './event-bus';
+import * as logger from './logger';
+import type {
+  CommandDefinition,
+  CommandPack,
+  CommandPackConflictResolution,
+  CommandPackEntry,
+  CommandPackError,
+  CommandPackImportResult,
+  CommandPackPreview,
+  CommandPackSection,
+  ProjectCommandFile,
+  WarningCondition,
+  WarningRule,
+} from '../shared/types';
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** The overlay container element passed in via init() */
+let containerEl: HTMLElement | null = null;
+
+/** The modal dialog element */
+let modalEl: HTMLElement | null = null;
+
+/** Title element, showing the pack name */
+let titleEl: HTMLElement | null = null;
+
+/** Pack description and file path */
+let detailsEl: HTMLElement | null = null;
+
+/** Entries that could not be read */
+let errorEl: HTMLElement | null = null;
+
+/** The entry list with its conflict choices */
+let bodyEl: HTMLElement | null = null;
+
+/** The Cancel button; hidden once there is nothing left to cancel, "Not now" when reviewing */
+let cancelBtn: HTMLButtonElement | null = null;
+
+/** The Import button, which becomes Close after importing */
+let submitBtn: HTMLButtonElement | null = null;
+
+/** The pack under review; null while showing a result or failure */
+let pack: CommandPack | null = null;
+
+/** The pack's entries, with the resolution chosen for each conflict */
+let entries: CommandPackEntry[] = [];
+
+/** The project command file under review; null while importing */
+let reviewedFile: ProjectCommandFile | null = null;
+
+/** Whether an import or approval is being applied, to ignore repeated clicks */
+let applying = false;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Section headings, in display order */
+const SECTION_LABELS: Record<CommandPackSection, string> = {
+  commands: 'Commands',
+  categories: 'Categories',
+  warningRules: 'Warning rules',
+};
+
+/** Labels of the conflict resolutions */
+const RESOLUTION_LABELS: Record<CommandPackConflictResolution, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  rename: 'Import as copy',
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Initializes the dialog inside the given overlay container.
+ * Builds the modal DOM structure and wires up event listeners.
+ */
+export function init(container: HTMLElement): void {
+  containerEl = container;
+
+  buildModal();
+
+  eventBus.on('command-pack:import', () => {
+    startImport();
+  });
+
+  eventBus.on('command-pack:export', (payload: { category: string | null; name: string }) => {
+    startExport(payload.category, payload.name);
+  });
+
+  eventBus.on('command-pack:review-project', (payload: { file: ProjectCommandFile; takenCommandIds: string[] }) => {
+    openReview(payload.file, payload.takenCommandIds);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal: DOM construction
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the modal skeleton; the entry list is rebuilt for every pack.
+ */
+function buildModal(): void {
+  if (!containerEl) return;
+
+  modalEl = document.createElement('div');
+  modalEl.className = 'ccf-modal cpd-modal';
+  modalEl.setAttribute('role', 'dialog');
+
+  titleEl = document.createElement('h2');
+  titleEl.className = 'ccf-title';
+  modalEl.appendChild(titleEl);
+
+  detailsEl = document.createElement('div');
+  detailsEl.className = 'cpd-details';
+  modalEl.appendChild(detailsEl);
+
+  errorEl = document.createElement('div');
+  errorEl.className = 'ccf-error cpd-errors';
+  errorEl.style.display = 'none';
+  modalEl.appendChild(errorEl);
+
+  bodyEl = document.createElement('div');
+  bodyEl.className = 'cpd-body';
+  modalEl.appendChild(bodyEl);
+
+  const buttonRow = document.createElement('div');
+  buttonRow.className = 'ccf-buttons';
+
+  cancelBtn = document.createElement('button');
+  cancelBtn.className = 'ccf-btn ccf-btn--cancel';
+  cancelBtn.type = 'button';
+  cancelBtn.textContent = 'Cancel';
+  cancelBtn.addEventListener('click', close);
+  buttonRow.appendChild(cancelBtn);
+
+  submitBtn = document.createElement('button');
+  submitBtn.className = 'ccf-btn ccf-btn--save';
+  submitBtn.type = 'button';
+  submitBtn.addEventListener('click', handleSubmit);
+  buttonRow.appendChild(submitBtn);
+
+  modalEl.appendChild(buttonRow);
+  containerEl.appendChild(modalEl);
+
+  modalEl.addEventListener('keydown', handleKeydown);
+}
+
+/**
+ * Lists the entries of one section, each with its status: New, or a
+ * choice of what to do with the conflicting ID.
+ */
+function renderSection(section: CommandPackSection): void {
+  const sectionEntries = entries.filter((entry) => entry.section === section);
+  if (!bodyEl || sectionEntries.length === 0) return;
+
+  const heading = document.createElement('h3');
+  heading.className = 'cpd-section-title';
+  heading.textContent = `${SECTION_LABELS[section]} (${sectionEntries.length})`;
+  bodyEl.appendChild(heading);
+
+  const list = document.createElement('ul');
+  list.className = 'cpd-list';
+
+  for (const entry of sectionEntries) {
+    const item = document.createElement('li');
+    item.className = 'cpd-entry';
+
+    const name = document.createElement('span');
+    name.className = 'cpd-entry-name';
+    name.textContent = entry.name;
+    item.appendChild(name);
+
+    const id = document.createElement('code');
+    id.className = 'cpd-entry-id';
+    id.textContent = entry.id;
+    item.appendChild(id);
+
+    const details = describePackEntry(entry);
+
+    if (entry.conflict) {
+      const status = document.createElement('span');
+      status.className = 'cpd-entry-status cpd-entry-status--conflict';
+      status.textContent = entry.conflict === 'built-in' ? 'Built-in exists' : 'Exists';
+      item.appendChild(status);
+
+      const select = createResolutionSelect(entry.canOverwrite);
+      select.value = entry.resolution;
+      select.setAttribute('aria-label', `What to do with ${entry.name}`);
+      select.addEventListener('change', () => {
+        entry.resolution = select.value as CommandPackConflictResolution;
+        updateSubmitButton();
+      });
+      item.appendChild(select);
+    } else {
+      const status = document.createElement('span');
+      status.className = 'cpd-entry-status';
+      status.textContent = 'New';
+      item.appendChild(status);
+    }
+
+    if (details.length > 0) {
+      item.appendChild(createEntryDetails(details));
+    }
+
+    list.appendChild(item);
+  }
+
+  bodyEl.appendChild(list);
+}
+
+/**
+ * What a pack entry would do, looked up in the pack by section and ID.
+ */
+function describePackEntry(entry: CommandPackEntry): string[] {
+  if (!pack) return [];
+  switch (entry.section) {
+    case 'commands': {
+      const cmd = pack.commands.find((candidate) => candidate.id === entry.id);
+      return cmd ? describeCommand(cmd) : [];
+    }
+    case 'warningRules': {
+      const rule = pack.warningRules.find((candidate) => candidate.id === entry.id);
+      return rule ? [describeRuleCondition(rule)] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Creates the lines below an entry saying what it does, e.g. the command
+ * line it runs.
+ */
+function createEntryDetails(lines: string[]): HTMLElement {
+  const details = document.createElement('div');
+  details.className = 'cpd-entry-details';
+  for (const line of lines) {
+    const lineEl = document.createElement('code');
+    lineEl.className = 'cpd-entry-detail';
+    lineEl.textContent = line;
+    lineEl.title = line;
+    details.appendChild(lineEl);
+  }
+  return details;
+}
+
+/**
+ * Creates a select of conflict resolutions. Overwrite is shown disabled
+ * for entries that replace something built in.
+ */
+function createResolutionSelect(canOverwrite: boolean): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.className = 'ccf-select cpd-resolution';
+  for (const [value, label] of Object.entries(RESOLUTION_LABELS)) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    if (value === 'overwrite' && !canOverwrite) {
+      option.disabled = true;
+      option.title = 'Built-in categories and warning rules cannot be replaced';
+    }
+    select.appendChild(option);
+  }
+  return select;
+}
+
+/**
+ * Creates the select above the list that sets every conflict's resolution.
+ */
+function renderApplyToAll(): void {
+  const conflicts = entries.filter((entry) => entry.conflict);
+  if (!bodyEl || conflicts.length === 0) return;
+
+  const row = document.createElement('div');
+  row.className = 'ccf-field cpd-apply-all';
+
+  const label = document.createElement('label');
+  label.className = 'ccf-label';
+  label.htmlFor = 'cpd-apply-all';
+  label.textContent = conflicts.length === 1
+    ? '1 entry has an ID that is already in use'
+    : `${conflicts.length} entries have IDs that are already in use`;
+  row.appendChild(label);
+
+  const select = createResolutionSelect(true);
+  select.id = 'cpd-apply-all';
+  select.value = 'skip';
+  select.addEventListener('change', () => {
+    const resolution = select.value as CommandPackConflictResolution;
+    for (const entry of conflicts) {
+      entry.resolution = resolution === 'overwrite' && !entry.canOverwrite ? 'skip' : resolution;
+    }
+    renderEntries();
+    bodyEl?.querySelector<HTMLSelectElement>('#cpd-apply-all')?.focus();
+  });
+  row.appendChild(select);
+
+  bodyEl.appendChild(row);
+}
+
+/**
+ * Rebuilds the entry list, keeping the apply-to-all choice.
+ */
+function renderEntries(): void {
+  if (!bodyEl) return;
+  const applyAll = bodyEl.querySelector<HTMLSelectElement>('#cpd-apply-all')?.value;
+
+  bodyEl.textContent = '';
+  renderApplyToAll();
+  if (applyAll) {
+    const select = bodyEl.querySelector<HTMLSelectElement>('#cpd-apply-all');
+    if (select) select.value = applyAll;
+  }
+  for (const section of Object.keys(SECTION_LABELS) as CommandPackSection[]) {
+    renderSection(section);
+  }
+  updateSubmitButton();
+}
+
+/**
+ * Lists the entries of one section of a project command file with what
+ * each does: a command's command line and choices commands, a category's
+ * ID or a warning rule's condition. An entry the app leaves out gets a
+ * status saying why.
+ */
+function renderReviewSection<T extends { id: string }>(
+  section: CommandPackSection,
+  sectionEntries: T[],
+  describe: (entry: T) => { name: string; details: string[]; notUsed?: string }
+): void {
+  if (!bodyEl || sectionEntries.length === 0) return;
+
+  const heading = document.createElement('h3');
+  heading.className = 'cpd-section-title';
+  heading.textContent = `${SECTION_LABELS[section]} (${sectionEntries.length})`;
+  bodyEl.appendChild(heading);
+
+  const list = document.createElement('ul');
+  list.className = 'cpd-list';
+
+  for (const entry of sectionEntries) {
+    const { name, details, notUsed } = describe(entry);
+    const item = document.createElement('li');
+    item.className = 'cpd-entry';
+
+    const nameEl = document.createElement('span');
+    nameEl.className = 'cpd-entry-name';
+    nameEl.textContent = name;
+    item.appendChild(nameEl);
+
+    const id = document.createElement('code');
+    id.className = 'cpd-entry-id';
+    id.textContent = entry.id;
+    item.appendChild(id);
+
+    if (notUsed) {
+      const status = document.createElement('span');
+      status.className = 'cpd-entry-status cpd-entry-status--conflict';
+      status.textContent = 'Not used';
+      status.title = notUsed;
+      item.appendChild(status);
+    }
+
+    item.appendChild(createEntryDetails(details));
+
+    list.appendChild(item);
+  }
+
+  bodyEl.appendChild(list);
+}
+
+/**
+ * What a command does when used, one line each: its command line, how
+ * it runs when its execution mode is set, and the command that fills
+ * each variable's choices, which runs as soon as the template form opens.
+ */
+function describeCommand(cmd: CommandDefinition): string[] {
+  const lines = [cmd.command];
+  if (cmd.execution === 'run') lines.push('Runs as soon as it is clicked');
+  if (cmd.execution === 'confirm') lines.push('Runs after confirmation');
+  for (const variable of cmd.variables ?? []) {
+    if (variable.choicesCommand) {
+      lines.push(`Choices for {{${variable.name}}} run: ${variable.choicesCommand}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * A warning rule's condition on one line, e.g.
+ * `git push, --force or -f, not --force-with-lease, when branch /^main$/`
+ * or `/^rm\s/`.
+ */
+function describeRuleCondition(rule: WarningRule): string {
+  const parts: string[] = [];
+  if (rule.match) {
+    const { program, subcommand, flagsAny, flagsNone, argMatches, cwdMatches } = rule.match;
+    parts.push(subcommand ? `${program} ${subcommand}` : program);
+    if (flagsAny?.length) parts.push(flagsAny.join(' or '));
+    if (flagsNone?.length) parts.push(`not ${flagsNone.join(' or ')}`);
+    if (argMatches) parts.push(`argument /${argMatches}/`);
+    if (cwdMatches) parts.push(`in /${cwdMatches}/`);
+  }
+  if (rule.pattern) {
+    parts.push(`/${rule.pattern}/`);
+  }
+  if (rule.when) parts.push(`when ${describeContextCondition(rule.when)}`);
+  if (rule.unless) parts.push(`unless ${describeContextCondition(rule.unless)}`);
+  return parts.join(', ');
+}
+
+/** A `when` / `unless` condition, e.g. `branch /^main$/ and paths in temp` */
+function describeContextCondition(condition: WarningCondition): string {
+  const parts: string[] = [];
+  if (condition.branch) parts.push(`branch /${condition.branch}/`);
+  if (condition.remote) parts.push(`remote /${condition.remote}/`);
+  if (condition.cwd) parts.push(`in /${condition.cwd}/`);
+  if (condition.inRepo !== undefined) parts.push(condition.inRepo ? 'in a repository' : 'outside a repository');
+  if (condition.paths?.length) parts.push(`paths in ${condition.paths.join(' or ')}`);
+  if (condition.nodeEnv) parts.push(`NODE_ENV /${condition.nodeEnv}/`);
+  if (condition.kubeContext) parts.push(`kube context /${condition.kubeContext}/`);
+  return parts.join(' and ');
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Open / Close
+// ---------------------------------------------------------------------------
+
+/**
+ * Asks for a pack file and shows it for review.
+ */
+async function startImport(): Promise<void> {
+  let preview: CommandPackPreview | null;
+  try {
+    preview = await window.api.pack.import();
+  } catch (err) {
+    showFailure('Import Failed', `The command pack could not be read: ${String(err)}`);
+    return;
+  }
+  if (preview) {
+    openPreview(preview);
+  }
+}
+
+/**
+ * Exports custom commands; only failures are shown.
+ */
+async function startExport(category: string | null, name: string): Promise<void> {
+  try {
+    await window.api.pack.export(category, name);
+  } catch (err) {
+    logger.warn('Command pack export failed', { category, error: String(err) });
+    showFailure('Export Failed', `The command pack could not be saved: ${String(err)}`);
+  }
+}
+
+function openPreview(preview: CommandPackPreview): void {
+  if (!containerEl || !titleEl || !detailsEl || !bodyEl) return;
+
+  pack = preview.pack;
+  entries = preview.entries;
+  reviewedFile = null;
+  applying = false;
+
+  titleEl.textContent = pack ? `Import "${pack.name}"` : 'Import Command Pack';
+  detailsEl.textContent = '';
+  if (pack?.description) {
+    const description = document.createElement('p');
+    description.className = 'cpd-description';
+    description.textContent = pack.description;
+    detailsEl.appendChild(description);
+  }
+  const file = document.createElement('p');
+  file.className = 'cpd-file';
+  file.textContent = preview.filePath;
+  detailsEl.appendChild(file);
+
+  showErrors(preview.errors);
+  if (pack && entries.length === 0 && preview.errors.length === 0) {
+    bodyEl.textContent = '';
+    bodyEl.appendChild(createMessage('The pack has no entries.'));
+    updateSubmitButton();
+  } else {
+    renderEntries();
+  }
+
+  if (cancelBtn) {
+    cancelBtn.textContent = 'Cancel';
+    cancelBtn.style.display = '';
+  }
+  containerEl.classList.remove('hidden');
+  (bodyEl.querySelector<HTMLElement>('select') ?? (submitBtn?.disabled ? cancelBtn : submitBtn))?.focus();
+}
+
+/**
+ * Shows a project command file for approval, or, once approved, for
+ * withdrawing the approval.
+ *
+ * @param file - The project's command file
+ * @param takenCommandIds - IDs of the built-in and custom commands; the
+ *                          file's commands under them are not used
+ */
+function openReview(file: ProjectCommandFile, takenCommandIds: string[]): void {
+  if (!containerEl || !titleEl || !detailsEl || !bodyEl) return;
+
+  pack = null;
+  entries = [];
+  reviewedFile = file;
+  applying = false;
+  const approved = file.trust === 'approved';
+
+  titleEl.textContent = file.pack ? `Repository Commands: "${file.pack.name}"` : 'Repository Commands';
+  detailsEl.textContent = '';
+  if (file.pack?.description) {
+    const description = document.createElement('p');
+    description.className = 'cpd-description';
+    description.textContent = file.pack.description;
+    detailsEl.appendChild(description);
+  }
+  const filePath = document.createElement('p');
+  filePath.className = 'cpd-file';
+  filePath.textContent = file.filePath;
+  detailsEl.appendChild(filePath);
+
+  const trust = document.createElement('p');
+  trust.className = approved ? 'cpd-trust' : 'cpd-trust cpd-trust--pending';
+  if (approved) {
+    trust.textContent = 'You approved this version of the file. Its entries are in use while you work in this project.';
+  } else {
+    trust.textContent = (file.trust === 'changed' ? 'The file changed since you approved it. ' : '') +
+      'These entries come from the repository, not from you. Only use them if you trust the ' +
+      'repository: its commands run exactly as written.';
+  }
+  detailsEl.appendChild(trust);
+
+  showErrors(file.errors);
+  bodyEl.textContent = '';
+  if (file.pack) {
+    const taken = new Set(takenCommandIds);
+    renderReviewSection('commands', file.pack.commands, (cmd) => ({
+      name: cmd.name,
+      details: describeCommand(cmd),
+      notUsed: taken.has(cmd.id) ? 'A built-in or custom command already has this ID; it is kept.' : undefined,
+    }));
+    renderReviewSection('categories', file.pack.categories, (category) => ({ name: category.label, details: [] }));
+    renderReviewSection('warningRules', file.pack.warningRules, (rule) => ({
+      name: rule.name,
+      details: [describeRuleCondition(rule)],
+    }));
+  }
+  if (file.pack && bodyEl.childElementCount === 0 && file.errors.length === 0) {
+    bodyEl.appendChild(createMessage('The file has no entries.'));
+  }
+
+  if (cancelBtn) {
+    cancelBtn.textContent = approved ? 'Close' : 'Not now';
+    cancelBtn.style.display = '';
+  }
+  if (submitBtn) {
+    submitBtn.textContent = approved ? 'Stop using' : 'Use these commands';
+    submitBtn.disabled = !approved && !file.pack;
+  }
+
+  containerEl.classList.remove('hidden');
+  cancelBtn?.focus();
+}
+
+/**
+ * Opens the modal with only a message and a Close button.
+ */
+function showFailure(title: string, message: string): void {
+  if (!containerEl || !titleEl || !detailsEl || !bodyEl) return;
+
+  pack = null;
+  entries = [];
+  reviewedFile = null;
+  titleEl.textContent = title;
+  detailsEl.textContent = '';
+  showErrors([]);
+  bodyEl.textContent = '';
+  bodyEl.appendChild(createMessage(message));
+  showCloseOnly();
+
+  containerEl.classList.remove('hidden');
+  submitBtn?.focus();
+}
+
+function close(): void {
+  if (applying) return;
+  pack = null;
+  entries = [];
+  reviewedFile = null;
+  containerEl?.classList.add('hidden');
+}
+
+function createMessage(text: string): HTMLElement {
+  const message = document.createElement('p');
+  message.className = 'cpd-message';
+  message.textContent = text;
+  return message;
+}
+
+/**
+ * Turns the buttons into a single Close button.
+ */
+function showCloseOnly(): void {
+  if (cancelBtn) cancelBtn.style.display = 'none';
+  if (submitBtn) {
+    submitBtn.textContent = 'Close';
+    submitBtn.disabled = false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Error display
+// ---------------------------------------------------------------------------
+
+/**
+ * Lists the problems found in the file, one line per entry.
+ */
+function showErrors(errors: CommandPackError[]): void {
+  if (!errorEl) return;
+
+  errorEl.textContent = '';
+  errorEl.style.display = errors.length > 0 ? 'block' : 'none';
+  if (errors.length === 0) return;
+
+  const entryErrors = errors.filter((error) => error.index !== null).length;
+  const summary = document.createElement('p');
+  summary.textContent = entryErrors === errors.length
+    ? `${entryErrors} ${entryErrors === 1 ? 'entry was' : 'entries were'} left out:`
+    : 'The file has problems:';
+  errorEl.appendChild(summary);
+
+  const list = document.createElement('ul');
+  for (const error of errors) {
+    const item = document.createElement('li');
+    item.textContent = describeError(error);
+    list.appendChild(item);
+  }
+  errorEl.appendChild(list);
+}
+
+/**
+ * Names the entry an error is about, e.g. `Commands #3 (deploy): "name" is required`.
+ */
+function describeError(error: CommandPackError): string {
+  if (!error.section) return error.message;
+  let where = SECTION_LABELS[error.section];
+  if (error.index !== null) {
+    where += ` #${error.index + 1}`;
+  }
+  if (error.id) {
+    where += ` (${error.id})`;
+  }
+  return `${where}: ${error.message}`;
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Labels the Import button with how many entries it will import; with
+ * none, it is disabled.
+ */
+function updateSubmitButton(): void {
+  if (!submitBtn) return;
+  const count = entries.filter((entry) => !entry.conflict || entry.resolution !== 'skip').length;
+  submitBtn.textContent = count > 0 ? `Import ${count}` : 'Import';
+  submitBtn.disabled = count === 0;
+}
+
+/**
+ * Handles the Import button, the approval buttons of a review, or Close
+ * once there is nothing to import.
+ */
+async function handleSubmit(): Promise<void> {
+  if (reviewedFile) {
+    await setTrust(reviewedFile);
+    return;
+  }
+  if (!pack) {
+    close();
+    return;
+  }
+  if (applying || submitBtn?.disabled) return;
+
+  applying = true;
+  if (submitBtn) submitBtn.disabled = true;
+
+  let result: CommandPackImportResult;
+  try {
+    result = await window.api.pack.apply(pack, entries);
+  } catch (err) {
+    applying = false;
+    logger.warn('Command pack import failed', { pack: pack.name, error: String(err) });
+    showErrors([{ section: null, index: null, id: null, message: `The pack could not be imported: ${String(err)}` }]);
+    updateSubmitButton();
+    return;
+  }
+
+  applying = false;
+  eventBus.emit('commands:updated');
+  showResult(result);
+}
+
+/**
+ * Replaces the entry list with a summary of what was imported.
+ */
+function showResult(result: CommandPackImportResult): void {
+  if (!titleEl || !bodyEl || !errorEl) return;
+
+  const parts = [`${result.added} added`];
+  if (result.overwritten > 0) parts.push(`${result.overwritten} overwritten`);
+  if (result.renamed > 0) parts.push(`${result.renamed} imported as copies`);
+  if (result.skipped > 0) parts.push(`${result.skipped} skipped`);
+
+  titleEl.textContent = `Imported "${pack?.name ?? ''}"`;
+  pack = null;
+  entries = [];
+  showErrors([]);
+  bodyEl.textContent = '';
+  bodyEl.appendChild(createMessage(parts.join(', ') + '.'));
+  showCloseOnly();
+  submitBtn?.focus();
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Project command file approval
+// ---------------------------------------------------------------------------
+
+/**
+ * Approves the reviewed content of a project command file, or withdraws
+ * the approval of an approved one.
+ */
+async function setTrust(file: ProjectCommandFile): Promise<void> {
+  if (applying || submitBtn?.disabled) return;
+
+  applying = true;
+  if (submitBtn) submitBtn.disabled = true;
+
+  const approve = file.trust !== 'approved';
+  try {
+    await window.api.project.setCommandFileTrust(file.filePath, approve ? file.hash : null);
+  } catch (err) {
+    applying = false;
+    if (submitBtn) submitBtn.disabled = false;
+    logger.warn('Project command file approval failed', { file: file.filePath, error: String(err) });
+    showErrors([{ section: null, index: null, id: null, message: `The approval could not be saved: ${String(err)}` }]);
+    return;
+  }
+
+  applying = false;
+  logger.info(approve ? 'Project command file approved' : 'Project command file approval withdrawn', {
+    file: file.filePath,
+  });
+  close();
+}
+
+/**
+ * Escape cancels, and Tab stays inside the dialog.
+ */
+function handleKeydown(event: KeyboardEvent): void {
+  if (event.key === 'Escape') {
+    close();
+  } else if (event.key === 'Tab' && modalEl) {
+    const focusable = Array.from(modalEl.querySelectorAll<HTMLElement>('button, select')).filter(
+      (element) => element.offsetParent !== null && !(element as HTMLButtonElement).disabled
+    );
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+}
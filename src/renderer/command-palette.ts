@@ -0,0 +1,461 @@
+/**
+ * CommandCanvas - Command Palette
+ *
+ * A Ctrl+Shift+P overlay that fuzzy-searches every command in every
+ * category, including categories whose tabs are hidden. The query is
+ * matched against each command's name, command text and explanation;
+ * recently used commands rank higher, and with an empty query they are
+ * listed first. The preview shows the selected command and its
+ * explanation.
+ *
+ * Keys: Up/Down select, Enter picks the command in its execution mode,
+ * Ctrl+Enter runs, Shift+Enter inserts, Alt+Enter confirms first, Escape
+ * closes (see command-execution.ts). Commands with {{placeholders}} open
+ * the template form first.
+ *
+ * The most recent command IDs are kept in ui.recentCommandIds, so the
+ * ranking survives restarts.
+ *
+ * Events published:
+ * - command:selected       { command, explanation, id, run } -> via command-execution.ts
+ * - command-template:open  { command, run } -> for commands with {{placeholders}}
+ *                          or in confirm mode
+ *
+ * Events subscribed to:
+ * - command:selected  { id } -> records the command as recently used
+ */
+
+import './styles/command-palette.css';
+import { eventBus } from './event-bus';
+import * as logger from './logger';
+import { fuzzyMatch } from '../shared/fuzzy-search';
+import { executeCommand, getExecutionMode, type ExecutionModifiers } from './command-execution';
+import type { CommandDefinition } from '../shared/types';
+
+/**
+ * Where the palette gets the commands it searches.
+ */
+export interface CommandSource {
+  /** Every loaded command, in all categories */
+  getCommands: () => CommandDefinition[];
+  /** Display label of a category */
+  getCategoryLabel: (category: string) => string;
+  /** Every category commands can be put in, in tab order */
+  getCategories: () => string[];
+}
+
+/** A command that matched the query */
+interface PaletteResult {
+  command: CommandDefinition;
+  score: number;
+  /** Matched positions in the command's name, for highlighting */
+  nameIndices: number[];
+}
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** The overlay container element passed in via init() */
+let containerEl: HTMLElement | null = null;
+
+/** Search input */
+let inputEl: HTMLInputElement | null = null;
+
+/** Result list */
+let listEl: HTMLElement | null = null;
+
+/** Preview of the selected command */
+let previewCommandEl: HTMLElement | null = null;
+let previewExplanationEl: HTMLElement | null = null;
+
+let source: CommandSource | null = null;
+
+/** Results for the current query */
+let results: PaletteResult[] = [];
+
+/** Index of the selected result */
+let selectedIndex = 0;
+
+/** Most recently used command IDs, most recent first */
+let recentCommandIds: string[] = [];
+
+/** Element that had focus before the palette opened; refocused on Escape */
+let previousFocus: HTMLElement | null = null;
+
+/** Pending debounced save of the recent command IDs */
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Results shown at most */
+const MAX_RESULTS = 50;
+
+/** Recent command IDs kept */
+const MAX_RECENT = 20;
+
+/** Score added for the most recent command, decreasing with age */
+const RECENT_BONUS = 100;
+
+/** Weight of a match in each searched field */
+const FIELD_WEIGHTS = { name: 3, command: 2, explanation: 1 };
+
+const PERSIST_DEBOUNCE_MS = 1000;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Initializes the palette inside the given overlay container and
+ * registers the Ctrl+Shift+P shortcut.
+ *
+ * @param recentIds - ui.recentCommandIds from the loaded config
+ */
+export function init(container: HTMLElement, commandSource: CommandSource, recentIds: string[] = []): void {
+  containerEl = container;
+  source = commandSource;
+  recentCommandIds = recentIds.filter((id) => typeof id === 'string').slice(0, MAX_RECENT);
+
+  buildPalette();
+
+  // Capture phase, so the shortcut works wherever focus is
+  document.addEventListener(
+    'keydown',
+    (event: KeyboardEvent) => {
+      if (event.ctrlKey && event.shiftKey && !event.altKey && event.code === 'KeyP') {
+        event.preventDefault();
+        if (isOpen()) {
+          close(true);
+        } else {
+          open();
+        }
+      }
+    },
+    true
+  );
+
+  eventBus.on('command:selected', (payload: { id: string }) => {
+    recordUse(payload.id);
+  });
+}
+
+/**
+ * Opens the palette with an empty query.
+ */
+export function open(): void {
+  if (!containerEl || !inputEl) return;
+
+  previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+  inputEl.value = '';
+  update();
+  containerEl.classList.remove('hidden');
+  inputEl.focus();
+}
+
+// ---------------------------------------------------------------------------
+// Internal: DOM construction
+// ---------------------------------------------------------------------------
+
+function buildPalette(): void {
+  if (!containerEl) return;
+
+  const paletteEl = document.createElement('div');
+  paletteEl.className = 'cpl-palette';
+  paletteEl.setAttribute('role', 'dialog');
+  paletteEl.setAttribute('aria-label', 'Command palette');
+
+  inputEl = document.createElement('input');
+  inputEl.type = 'text';
+  inputEl.className = 'cpl-input';
+  inputEl.placeholder = 'Search commands';
+  inputEl.spellcheck = false;
+  inputEl.setAttribute('aria-controls', 'cpl-results');
+  inputEl.addEventListener('input', update);
+  inputEl.addEventListener('keydown', handleKeydown);
+  paletteEl.appendChild(inputEl);
+
+  listEl = document.createElement('ul');
+  listEl.className = 'cpl-results';
+  listEl.id = 'cpl-results';
+  listEl.setAttribute('role', 'listbox');
+  paletteEl.appendChild(listEl);
+
+  const previewEl = document.createElement('div');
+  previewEl.className = 'cpl-preview';
+
+  previewCommandEl = document.createElement('code');
+  previewCommandEl.className = 'cpl-preview-command';
+  previewEl.appendChild(previewCommandEl);
+
+  previewExplanationEl = document.createElement('p');
+  previewExplanationEl.className = 'cpl-preview-explanation';
+  previewEl.appendChild(previewExplanationEl);
+
+  paletteEl.appendChild(previewEl);
+
+  const hintEl = document.createElement('div');
+  hintEl.className = 'cpl-hint';
+  hintEl.textContent = 'Enter pick · Ctrl+Enter run · Shift+Enter insert · Alt+Enter confirm · Esc close';
+  paletteEl.appendChild(hintEl);
+
+  containerEl.appendChild(paletteEl);
+
+  // Clicking the backdrop closes the palette
+  containerEl.addEventListener('mousedown', (event: MouseEvent) => {
+    if (event.target === containerEl) {
+      event.preventDefault();
+      close(true);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Search
+// ---------------------------------------------------------------------------
+
+/**
+ * Searches the commands for the current query and re-renders.
+ */
+function update(): void {
+  const query = inputEl?.value.trim() ?? '';
+  results = search(query);
+  selectedIndex = 0;
+  renderResults();
+}
+
+/**
+ * Scores every command against the query. Each whitespace-separated term
+ * must match the name, command text or explanation; a term counts with
+ * its best weighted field.
+ */
+function search(query: string): PaletteResult[] {
+  const commands = source?.getCommands() ?? [];
+  const terms = query.split(/\s+/).filter((term) => term !== '');
+
+  const matched: PaletteResult[] = [];
+  for (const command of commands) {
+    let score = 0;
+    const nameIndices = new Set<number>();
+    let matchesAll = true;
+
+    for (const term of terms) {
+      const name = fuzzyMatch(term, command.name);
+      const text = fuzzyMatch(term, command.command);
+      const explanation = fuzzyMatch(term, command.explanation);
+
+      const best = Math.max(
+        name ? name.score * FIELD_WEIGHTS.name : -Infinity,
+        text ? text.score * FIELD_WEIGHTS.command : -Infinity,
+        explanation ? explanation.score * FIELD_WEIGHTS.explanation : -Infinity
+      );
+      if (best === -Infinity) {
+        matchesAll = false;
+        break;
+      }
+      score += best;
+      name?.indices.forEach((index) => nameIndices.add(index));
+    }
+    if (!matchesAll) continue;
+
+    const recency = recentCommandIds.indexOf(command.id);
+    if (recency !== -1) {
+      score += (RECENT_BONUS * (MAX_RECENT - recency)) / MAX_RECENT;
+    }
+
+    matched.push({ command, score, nameIndices: [...nameIndices].sort((a, b) => a - b) });
+  }
+
+  if (terms.length === 0) {
+    // No query: recent commands first, then everything by category
+    matched.sort((a, b) => b.score - a.score || compareByCategory(a.command, b.command));
+  } else {
+    matched.sort((a, b) => b.score - a.score || a.command.name.length - b.command.name.length);
+  }
+  return matched.slice(0, MAX_RESULTS);
+}
+
+function compareByCategory(a: CommandDefinition, b: CommandDefinition): number {
+  return a.category.localeCompare(b.category) || a.order - b.order;
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Rendering
+// ---------------------------------------------------------------------------
+
+function renderResults(): void {
+  if (!listEl) return;
+  listEl.textContent = '';
+
+  if (results.length === 0) {
+    const emptyEl = document.createElement('li');
+    emptyEl.className = 'cpl-empty';
+    emptyEl.textContent = 'No matching commands';
+    listEl.appendChild(emptyEl);
+  }
+
+  results.forEach((result, index) => {
+    const item = document.createElement('li');
+    item.className = 'cpl-result';
+    item.id = `cpl-result-${index}`;
+    item.setAttribute('role', 'option');
+
+    const nameEl = document.createElement('span');
+    nameEl.className = 'cpl-result-name';
+    appendHighlighted(nameEl, result.command.name, result.nameIndices);
+    item.appendChild(nameEl);
+
+    const categoryEl = document.createElement('span');
+    categoryEl.className = 'cpl-result-category';
+    categoryEl.textContent = source?.getCategoryLabel(result.command.category) ?? result.command.category;
+    item.appendChild(categoryEl);
+
+    item.addEventListener('mousemove', () => {
+      if (selectedIndex !== index) {
+        select(index);
+      }
+    });
+    item.addEventListener('mousedown', (event: MouseEvent) => {
+      // Keep focus in the input
+      event.preventDefault();
+    });
+    item.addEventListener('click', (event: MouseEvent) => {
+      select(index);
+      accept(event);
+    });
+
+    listEl!.appendChild(item);
+  });
+
+  select(selectedIndex);
+}
+
+/**
+ * Appends text with the characters at the given positions in <mark>.
+ */
+function appendHighlighted(parent: HTMLElement, text: string, indices: number[]): void {
+  const marked = new Set(indices);
+  let run = '';
+  let runMarked = false;
+
+  const flush = (): void => {
+    if (run === '') return;
+    if (runMarked) {
+      const mark = document.createElement('mark');
+      mark.textContent = run;
+      parent.appendChild(mark);
+    } else {
+      parent.appendChild(document.createTextNode(run));
+    }
+    run = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const isMarked = marked.has(i);
+    if (isMarked !== runMarked) {
+      flush();
+      runMarked = isMarked;
+    }
+    run += text[i];
+  }
+  flush();
+}
+
+/**
+ * Selects a result and shows it in the preview.
+ */
+function select(index: number): void {
+  if (!listEl || !inputEl || !previewCommandEl || !previewExplanationEl) return;
+
+  listEl.querySelector('.cpl-result--selected')?.classList.remove('cpl-result--selected');
+  const result = results[index];
+  if (!result) {
+    inputEl.removeAttribute('aria-activedescendant');
+    previewCommandEl.textContent = '';
+    previewExplanationEl.textContent = '';
+    return;
+  }
+
+  selectedIndex = index;
+  const item = listEl.children[index] as HTMLElement | undefined;
+  item?.classList.add('cpl-result--selected');
+  item?.scrollIntoView({ block: 'nearest' });
+  inputEl.setAttribute('aria-activedescendant', `cpl-result-${index}`);
+
+  previewCommandEl.textContent = result.command.command;
+  previewExplanationEl.textContent = result.command.explanation;
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Handlers
+// ---------------------------------------------------------------------------
+
+function handleKeydown(event: KeyboardEvent): void {
+  if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+    event.preventDefault();
+    if (results.length === 0) return;
+    const step = event.key === 'ArrowDown' ? 1 : -1;
+    select((selectedIndex + step + results.length) % results.length);
+  } else if (event.key === 'Enter') {
+    event.preventDefault();
+    accept(event);
+  } else if (event.key === 'Escape') {
+    event.preventDefault();
+    close(true);
+  } else if (event.key === 'Tab') {
+    // The input is the only focusable element
+    event.preventDefault();
+  }
+}
+
+/**
+ * Inserts, runs or confirms the selected command, depending on its
+ * execution mode and the modifiers held.
+ */
+function accept(modifiers: ExecutionModifiers): void {
+  const result = results[selectedIndex];
+  if (!result) return;
+
+  const command = result.command;
+  close(false);
+  executeCommand(command, getExecutionMode(command, modifiers));
+}
+
+/**
+ * Hides the palette.
+ *
+ * @param restoreFocus - Refocus what had focus before it opened
+ */
+function close(restoreFocus: boolean): void {
+  containerEl?.classList.add('hidden');
+  if (restoreFocus) {
+    previousFocus?.focus();
+  }
+  previousFocus = null;
+}
+
+function isOpen(): boolean {
+  return containerEl !== null && !containerEl.classList.contains('hidden');
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Recently used commands
+// ---------------------------------------------------------------------------
+
+/**
+ * Moves a command to the front of the recent list and saves the list.
+ */
+function recordUse(commandId: string): void {
+  recentCommandIds = [commandId, ...recentCommandIds.filter((id) => id !== commandId)].slice(0, MAX_RECENT);
+
+  if (persistTimer !== null) {
+    clearTimeout(persistTimer);
+  }
+  persistTimer = setTimeout(async () => {
+    persistTimer = null;
+    try {
+      const ui = await window.api.config.get('ui');
+      await window.api.config.set('ui', { ...ui, recentCommandIds });
+    } catch (err) {
+      logger.warn('Failed to save recent commands', { error: String(err) });
+    }
+  }, PERSIST_DEBOUNCE_MS);
+}
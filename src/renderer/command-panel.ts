@@ -2,23 +2,96 @@
  * CommandCanvas - Command Panel
  *
  * Renders categorized command buttons inside a container element.
- * Provides category tabs at the top (Git, Node, Python, Docker, Custom)
- * and a vertical list of command buttons for the active category.
+ * Provides category tabs at the top (one per detected project type, plus
+ * Custom) and a vertical list of command buttons for the active category.
+ * Tab labels come from the project detector registry, including detectors
+ * defined in config, whose commands are loaded alongside the built-in ones.
+ * Built-in commands are adapted to the detected project's metadata, e.g.
+ * `pnpm install` instead of `npm install` in a pnpm workspace. A Scripts
+ * tab, shown after Node, has one button per package.json script; it is
+ * regenerated whenever detection reports new metadata. Make, Just and Task
+ * tabs likewise gain a button per discovered target, recipe or task.
+ * Workflows (built-in and from config) are listed after the commands of
+ * their category and run through the workflow runner.
+ *
+ * Clicking a command inserts it, runs it or asks first, depending on its
+ * execution mode and the click's modifiers (see command-execution.ts).
+ *
+ * Commands can be dragged to reorder them within their category. Their
+ * context menu edits, duplicates, moves, hides or deletes them. Built-in
+ * commands cannot be deleted: editing one saves a custom command with the
+ * same ID, which replaces it until reset. Order, moves and hiding are saved
+ * as config.commandPlacements rather than in the commands themselves, so
+ * built-in commands keep adapting to the project. Hidden commands are
+ * listed, dimmed, behind a toggle at the end of their category.
+ *
+ * Besides the project categories, users can create their own categories,
+ * with a color and an icon, from the "+" tab or a tab's context menu. Which
+ * tabs are shown is decided in setProjectTypes(): categories marked
+ * "Always visible" are always shown, the others while their project type
+ * is detected. The tab context menu also imports and exports command
+ * packs (see command-pack-dialog.ts).
+ *
+ * A repository's checked-in command file adds its commands and categories
+ * as a project layer: its commands replace built-in and custom ones with
+ * the same ID, and its categories get tabs, shown while in the project,
+ * unless their ID is taken. The layer is only used once the user approved
+ * the file's current content; until then a notice above the list offers
+ * to review it.
  *
  * Events published:
- * - command:selected  { command, explanation, id }
+ * - command:selected  { command, explanation, id, run } -> via command-execution.ts
+ * - command-template:open  { command, run } -> for commands with {{placeholders}}
+ *                      or in confirm mode
  * - command:hovered   { explanation, id }
  * - command:hover-end void
- * - custom-command:open-form void
+ * - custom-command:open-form { category } | { command } -> add, or edit from the context menu
+ * - category-form:open void | { category } -> new, or edit a user-defined category
+ * - command-pack:import void -> from a tab's context menu
+ * - command-pack:export { category, name } -> a category's custom commands, or
+ *                      with category null all of them
+ * - command-pack:review-project { file, takenCommandIds } -> from the notice or a tab's context menu
+ * - commands:updated  void -> after saving a reorder, move, hide or delete, or a
+ *                      category change
+ * - workflow:run      { workflow } -> when a workflow button is clicked
  *
  * Events subscribed to:
- * - project:detected  { types: string[] } -> update visible categories
+ * - project:detected  { types: string[], roots, metadata, commandFile } -> update
+ *                      visible categories, show each category's project root
+ *                      on its tab, adapt the built-in commands and add the
+ *                      approved command file's entries
  * - commands:updated   void -> re-render
+ * - session:activated  { sessionId, profileId, defaultCategory } -> switch to
+ *                      the focused profile's default category
  */
 
 import { eventBus } from './event-bus';
-import { DEFAULT_COMMANDS, mergeCommands } from '../shared/default-commands';
-import type { CommandDefinition } from '../shared/types';
+import {
+  DEFAULT_COMMANDS,
+  DEFAULT_WORKFLOWS,
+  adaptCommands,
+  adaptWorkflows,
+  applyPlacements,
+  getNextOrder,
+  getScriptCommands,
+  getTaskCommands,
+  mergeCommands,
+} from '../shared/default-commands';
+import { BUILT_IN_DETECTORS, getDetectorCommands, resolveDetectors } from '../shared/project-detectors';
+import { executeCommand, getExecutionMode } from './command-execution';
+import * as contextMenu from './context-menu';
+import * as logger from './logger';
+import type { ContextMenuItem } from './context-menu';
+import type {
+  AppConfig,
+  CategoryDefinition,
+  CommandDefinition,
+  CommandPlacement,
+  ProjectCommandFile,
+  ProjectDetectorDefinition,
+  ProjectMetadata,
+  WorkflowDefinition,
+} from '../shared/types';
 
 // ---------------------------------------------------------------------------
 // Module state
@@ -30,8 +103,71 @@ let containerEl: HTMLElement | null = null;
 /** Currently loaded commands (built-in merged with custom) */
 let allCommands: CommandDefinition[] = [];
 
-/** Category names that should be visible based on project detection */
-let visibleCategories: string[] = ['git', 'node', 'python', 'docker', 'custom'];
+/** Built-in and config-detector commands, before adaptation */
+let builtInCommands: CommandDefinition[] = [];
+
+/** User-created custom commands from config */
+let customCommands: CommandDefinition[] = [];
+
+/** IDs of built-in and generated commands, which can be overridden but not deleted */
+let builtInIds = new Set<string>();
+
+/** User placement of commands from config, by command ID */
+let commandPlacements: Record<string, CommandPlacement> = {};
+
+/** Commands the user hid, with their placement applied */
+let hiddenCommands: CommandDefinition[] = [];
+
+/** Whether the active category lists its hidden commands */
+let showHidden = false;
+
+/** ID of the command whose button is being dragged */
+let draggedId: string | null = null;
+
+/** Built-in workflows merged with those from config */
+let allWorkflows: WorkflowDefinition[] = [];
+
+/** User-defined workflows from config */
+let customWorkflows: WorkflowDefinition[] = [];
+
+/** Metadata of the last detected project; adapts the built-in commands */
+let projectMetadata: ProjectMetadata | null = null;
+
+/** Categories whose tab is shown, in tab order */
+let visibleCategories: string[] = ['git', 'node', 'custom'];
+
+/** Project types reported by the last detection */
+let projectTypes: string[] = [];
+
+/** Categories shown through showCategory() although not otherwise visible */
+let revealedCategories: string[] = [];
+
+/** categories.alwaysVisible from config */
+let alwaysVisibleCategories: string[] = ['git', 'node', 'custom'];
+
+/** categories.userDefined from config */
+let userCategories: CategoryDefinition[] = [];
+
+/** Project detectors, built-in and from config */
+let detectors: ProjectDetectorDefinition[] = BUILT_IN_DETECTORS;
+
+/** Project categories, one per detector, in detector order */
+let detectorCategories: string[] = BUILT_IN_DETECTORS.map((detector) => detector.type);
+
+/** The last detected project's command file */
+let projectCommandFile: ProjectCommandFile | null = null;
+
+/** Commands of the project's command file whose IDs are not taken, while it is approved */
+let projectCommands: CommandDefinition[] = [];
+
+/** Categories of the project's command file whose IDs are not taken, while it is approved */
+let projectCategories: CategoryDefinition[] = [];
+
+/** File path and hash of the command file whose notice the user closed */
+let dismissedNotice: string | null = null;
+
+/** Directory each detected category's marker was found in (its project root) */
+let projectRoots: Record<string, string> = {};
 
 /** The currently active (selected) category tab */
 let activeCategory: string = 'git';
@@ -39,6 +175,9 @@ let activeCategory: string = 'git';
 /** Tab bar container element */
 let tabBarEl: HTMLElement | null = null;
 
+/** Notice about a project command file waiting for approval */
+let noticeEl: HTMLElement | null = null;
+
 /** Command list container element */
 let commandListEl: HTMLElement | null = null;
 
@@ -46,13 +185,8 @@ let commandListEl: HTMLElement | null = null;
 // Category display labels
 // ---------------------------------------------------------------------------
 
-const CATEGORY_LABELS: Record<string, string> = {
-  git: 'Git',
-  node: 'Node',
-  python: 'Python',
-  docker: 'Docker',
-  custom: 'Custom',
-};
+/** Tab labels by category; refreshed with config-defined detectors and user categories in loadCommands() */
+let categoryLabels: Record<string, string> = buildCategoryLabels(BUILT_IN_DETECTORS, []);
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -71,6 +205,13 @@ export function init(container: HTMLElement): void {
   tabBarEl.className = 'cp-tab-bar';
   containerEl.appendChild(tabBarEl);
 
+  // Create the project command file notice
+  noticeEl = document.createElement('div');
+  noticeEl.className = 'cp-project-notice';
+  noticeEl.setAttribute('role', 'status');
+  noticeEl.style.display = 'none';
+  containerEl.appendChild(noticeEl);
+
   // Create command list container
   commandListEl = document.createElement('div');
   commandListEl.className = 'cp-command-list';
@@ -80,13 +221,48 @@ export function init(container: HTMLElement): void {
   loadCommands();
 
   // Subscribe to events
-  eventBus.on('project:detected', (payload: { types: string[] }) => {
-    setVisibleCategories([...payload.types, 'custom']);
+  eventBus.on('project:detected', (payload: {
+    types: string[];
+    roots?: Record<string, string>;
+    metadata?: ProjectMetadata;
+    commandFile?: ProjectCommandFile | null;
+  }) => {
+    projectRoots = payload.roots ?? {};
+    projectMetadata = payload.metadata ?? null;
+    applyProjectCommandFile(payload.commandFile ?? null);
+    rebuildCommands();
+    setProjectTypes(payload.types);
   });
 
   eventBus.on('commands:updated', () => {
     loadCommands();
   });
+
+  eventBus.on('session:activated', (payload: { defaultCategory?: string | null }) => {
+    if (payload.defaultCategory) {
+      showCategory(payload.defaultCategory);
+    }
+  });
+}
+
+/**
+ * Adapts the built-in commands to a detected project's metadata (package
+ * manager, compose file) and re-renders.
+ */
+export function setProjectMetadata(metadata: ProjectMetadata | null): void {
+  projectMetadata = metadata;
+  rebuildCommands();
+  updateVisibleCategories();
+}
+
+/**
+ * Uses a detected project's command file: its commands and categories
+ * once approved, otherwise a notice offering to review it.
+ */
+export function setProjectCommandFile(file: ProjectCommandFile | null): void {
+  applyProjectCommandFile(file);
+  rebuildCommands();
+  updateVisibleCategories();
 }
 
 /**
@@ -98,21 +274,61 @@ export function setCommands(commands: CommandDefinition[]): void {
 }
 
 /**
- * Sets which category tabs are visible. The 'custom' category is
- * always included regardless of the provided array.
+ * Sets the detected project types. A category's tab is shown when it is
+ * in categories.alwaysVisible, when its project type is detected, or, for
+ * a user-defined category, when its projectType is detected. The Scripts
+ * tab is shown after Node whenever package.json has scripts, and the
+ * categories of an approved project command file always.
  */
-export function setVisibleCategories(categories: string[]): void {
-  // Ensure 'custom' is always present
-  const cats = new Set(categories);
-  cats.add('custom');
-  visibleCategories = Array.from(cats);
+export function setProjectTypes(types: string[]): void {
+  projectTypes = types;
+  revealedCategories = [];
+  updateVisibleCategories();
+}
 
-  // If the active category is no longer visible, switch to the first visible one
-  if (!visibleCategories.includes(activeCategory)) {
-    activeCategory = visibleCategories[0] || 'custom';
+/**
+ * Switches to the given category, making its tab visible if project
+ * detection had hidden it. Unknown categories without commands are ignored.
+ */
+export function showCategory(category: string): void {
+  if (category === activeCategory) return;
+
+  if (!visibleCategories.includes(category)) {
+    const isKnown =
+      getTabOrder().includes(category) ||
+      allCommands.some((cmd) => cmd.category === category) ||
+      allWorkflows.some((workflow) => workflow.category === category);
+    if (!isKnown) return;
+    revealedCategories.push(category);
   }
 
-  render();
+  activeCategory = category;
+  updateVisibleCategories();
+}
+
+/**
+ * Returns every loaded command, in all categories, whether or not its tab
+ * is visible.
+ */
+export function getCommands(): CommandDefinition[] {
+  return allCommands;
+}
+
+/**
+ * Returns every category commands can be put in, in tab order: project
+ * categories, user-defined categories, the project command file's
+ * categories, then Custom. Scripts is left out,
+ * as it only holds the generated package.json scripts.
+ */
+export function getCategories(): string[] {
+  return getTabOrder().filter((category) => category !== 'scripts');
+}
+
+/**
+ * Returns the tab label of a category.
+ */
+export function getCategoryLabel(category: string): string {
+  return categoryLabels[category] || category;
 }
 
 /**
@@ -128,7 +344,8 @@ export function refresh(): void {
 
 /**
  * Loads commands from the built-in defaults and merges with custom
- * commands from the user's configuration.
+ * commands from the user's configuration. Built-in commands are adapted
+ * to the current project metadata.
  */
 async function loadCommands(): Promise<void> {
   // Gather all built-in commands into a flat array
@@ -137,27 +354,213 @@ async function loadCommands(): Promise<void> {
     builtIn.push(...DEFAULT_COMMANDS[category]);
   }
 
-  // Load custom commands from config
-  let customCommands: CommandDefinition[] = [];
+  // Load custom commands, workflows, categories and config-defined detectors from config
+  customCommands = [];
+  customWorkflows = [];
+  commandPlacements = {};
   try {
     const config = await window.api.config.load();
     customCommands = config.customCommands || [];
+    customWorkflows = config.workflows || [];
+    commandPlacements = config.commandPlacements || {};
+    userCategories = config.categories?.userDefined || [];
+    alwaysVisibleCategories = config.categories?.alwaysVisible || alwaysVisibleCategories;
+
+    detectors = resolveDetectors(config.projectDetection?.detectors);
+    detectorCategories = detectors.map((detector) => detector.type);
+    builtIn.push(...getDetectorCommands(detectors));
   } catch {
     // If config fails to load, continue with empty custom commands
   }
 
-  allCommands = mergeCommands(builtIn, customCommands);
+  builtInCommands = builtIn;
+  applyProjectCommandFile(projectCommandFile);
+  rebuildCommands();
+  updateVisibleCategories();
+}
+
+/**
+ * Takes the categories of an approved project command file (its commands
+ * are taken in rebuildCommands). Categories whose ID is already a project
+ * or user-defined category are left out; their commands go to the
+ * existing category.
+ */
+function applyProjectCommandFile(file: ProjectCommandFile | null): void {
+  projectCommandFile = file;
+  const pack = file?.trust === 'approved' ? file.pack : null;
+  const taken = new Set([...detectorCategories, ...userCategories.map((category) => category.id), 'scripts', 'custom']);
+  projectCategories = (pack?.categories ?? []).filter((category) => !taken.has(category.id));
+  categoryLabels = buildCategoryLabels(detectors, [...userCategories, ...projectCategories]);
+}
+
+/**
+ * Rebuilds the command set from the built-in commands, adapted to the
+ * current project metadata, the custom commands and the project command
+ * file's commands, then applies the user's placement and sets hidden
+ * commands aside. Workflows are rebuilt the same way.
+ *
+ * Like its warning rules, a repository's commands only add: one whose ID
+ * is a built-in or custom command's is left out, so a trusted button
+ * such as git-status never runs what the repository put under its ID.
+ */
+function rebuildCommands(): void {
+  const builtIn = [
+    ...adaptCommands(builtInCommands, projectMetadata),
+    ...getScriptCommands(projectMetadata?.node ?? null),
+    ...getTaskCommands(projectMetadata?.tasks ?? []),
+  ];
+  builtInIds = new Set(builtIn.map((cmd) => cmd.id));
+
+  const file = projectCommandFile;
+  const taken = new Set(getTakenCommandIds());
+  projectCommands = (file?.trust === 'approved' ? file.pack?.commands ?? [] : []).filter((cmd) => !taken.has(cmd.id));
+
+  const merged = mergeCommands(mergeCommands(builtIn, customCommands), projectCommands);
+  const placed = applyPlacements(merged, commandPlacements);
+  allCommands = placed.filter((cmd) => !commandPlacements[cmd.id]?.hidden);
+  hiddenCommands = placed.filter((cmd) => commandPlacements[cmd.id]?.hidden);
+  allWorkflows = mergeCommands(adaptWorkflows(DEFAULT_WORKFLOWS, projectMetadata), customWorkflows);
+}
+
+/**
+ * IDs a project command file's commands cannot use: those of the built-in
+ * and custom commands.
+ */
+function getTakenCommandIds(): string[] {
+  return [...builtInIds, ...customCommands.map((cmd) => cmd.id)];
+}
+
+/**
+ * Maps each detector's category and each user-defined category to its tab
+ * label, plus the Scripts and Custom tabs.
+ */
+function buildCategoryLabels(
+  detectors: ProjectDetectorDefinition[],
+  categories: CategoryDefinition[]
+): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const detector of detectors) {
+    labels[detector.type] = detector.label;
+  }
+  for (const category of categories) {
+    labels[category.id] = category.label;
+  }
+  labels.scripts = 'Scripts';
+  labels.custom = 'Custom';
+  return labels;
+}
+
+/**
+ * Every category in tab order: project categories (with Scripts after
+ * Node), user-defined categories, the project command file's categories,
+ * then Custom.
+ */
+function getTabOrder(): string[] {
+  const order = [
+    ...detectorCategories,
+    ...userCategories.map((category) => category.id),
+    ...projectCategories.map((category) => category.id),
+    'custom',
+  ];
+  const nodeIndex = order.indexOf('node');
+  order.splice(nodeIndex === -1 ? order.indexOf('custom') : nodeIndex + 1, 0, 'scripts');
+  return order;
+}
+
+/**
+ * Works out which tabs are shown (see setProjectTypes()), switches away
+ * from the active category if its tab went away, and re-renders.
+ */
+function updateVisibleCategories(): void {
+  const visible = new Set([...alwaysVisibleCategories, ...projectTypes, ...revealedCategories]);
+  for (const category of userCategories) {
+    if (category.projectType && projectTypes.includes(category.projectType)) {
+      visible.add(category.id);
+    }
+  }
+  for (const category of projectCategories) {
+    visible.add(category.id);
+  }
+  visible.delete('scripts');
+  if (allCommands.some((cmd) => cmd.category === 'scripts')) {
+    visible.add('scripts');
+  }
+
+  // Known categories in tab order; unknown ones (e.g. a revealed category
+  // only some commands use) after them
+  const order = getTabOrder();
+  visibleCategories = [
+    ...order.filter((category) => visible.has(category)),
+    ...Array.from(visible).filter((category) => !order.includes(category)),
+  ];
+  if (visibleCategories.length === 0) {
+    visibleCategories = ['custom'];
+  }
+
+  // If the active category is no longer visible, switch to the first visible one
+  if (!visibleCategories.includes(activeCategory)) {
+    activeCategory = visibleCategories[0];
+  }
+
   render();
 }
 
 /**
- * Renders the full command panel: tab bar + command button list.
+ * Renders the full command panel: tab bar, project notice + command
+ * button list.
  */
 function render(): void {
   renderTabs();
+  renderNotice();
   renderCommands();
 }
 
+/**
+ * Shows the notice about a project command file that is new or changed
+ * since the user approved it, unless the user closed it.
+ */
+function renderNotice(): void {
+  if (!noticeEl) return;
+  noticeEl.textContent = '';
+
+  const file = projectCommandFile;
+  if (!file || file.trust === 'approved' || dismissedNotice === `${file.filePath}:${file.hash}`) {
+    noticeEl.style.display = 'none';
+    return;
+  }
+
+  const text = document.createElement('span');
+  text.className = 'cp-project-notice-text';
+  text.textContent = file.trust === 'changed'
+    ? "This repository's commands changed since you approved them."
+    : 'This repository has its own commands.';
+  text.title = file.filePath;
+  noticeEl.appendChild(text);
+
+  const review = document.createElement('button');
+  review.className = 'cp-project-notice-btn';
+  review.type = 'button';
+  review.textContent = 'Review…';
+  review.addEventListener('click', () => {
+    eventBus.emit('command-pack:review-project', { file, takenCommandIds: getTakenCommandIds() });
+  });
+  noticeEl.appendChild(review);
+
+  const dismiss = document.createElement('button');
+  dismiss.className = 'cp-project-notice-close';
+  dismiss.type = 'button';
+  dismiss.textContent = '\u00D7';
+  dismiss.title = 'Not now';
+  dismiss.setAttribute('aria-label', 'Close notice');
+  dismiss.addEventListener('click', () => {
+    dismissedNotice = `${file.filePath}:${file.hash}`;
+    renderNotice();
+  });
+  noticeEl.appendChild(dismiss);
+
+  noticeEl.style.display = '';
+}
+
 /**
  * Renders the category tab bar.
  */
@@ -174,16 +577,47 @@ function renderTabs(): void {
     if (category === activeCategory) {
       tab.classList.add('cp-tab--active');
     }
-    tab.textContent = CATEGORY_LABELS[category] || category;
+    const definition = findCategoryDefinition(category);
+    if (definition?.icon) {
+      const icon = document.createElement('span');
+      icon.className = 'cp-tab-icon';
+      icon.textContent = definition.icon;
+      tab.appendChild(icon);
+    }
+    tab.appendChild(document.createTextNode(getCategoryLabel(category)));
+    if (definition?.color) {
+      tab.classList.add('cp-tab--colored');
+      tab.style.setProperty('--cp-tab-color', definition.color);
+    }
     tab.dataset.category = category;
+    // Scripts come from the Node project's package.json
+    const root = projectRoots[category === 'scripts' ? 'node' : category];
+    if (root) {
+      tab.title = `Project root: ${root}`;
+    }
 
     tab.addEventListener('click', () => {
       activeCategory = category;
+      showHidden = false;
       render();
     });
 
+    tab.addEventListener('contextmenu', (event: MouseEvent) => {
+      contextMenu.showForEvent(event, getCategoryMenuItems(category));
+    });
+
     tabBarEl.appendChild(tab);
   }
+
+  const addTab = document.createElement('button');
+  addTab.className = 'cp-tab cp-tab--add';
+  addTab.type = 'button';
+  addTab.textContent = '+';
+  addTab.title = 'New category';
+  addTab.addEventListener('click', () => {
+    eventBus.emit('category-form:open');
+  });
+  tabBarEl.appendChild(addTab);
 }
 
 /**
@@ -201,36 +635,36 @@ function renderCommands(): void {
     .sort((a, b) => a.order - b.order);
 
   for (const cmd of categoryCommands) {
-    const button = document.createElement('button');
-    button.className = 'cp-command-btn';
-    button.type = 'button';
-    button.textContent = cmd.name;
-    button.dataset.commandId = cmd.id;
-
-    // Click: emit command:selected, then blur so Enter doesn't re-trigger
-    button.addEventListener('click', () => {
-      button.blur();
-      eventBus.emit('command:selected', {
-        command: cmd.command,
-        explanation: cmd.explanation,
-        id: cmd.id,
-      });
-    });
+    commandListEl.appendChild(createCommandButton(cmd, false));
+  }
 
-    // Hover start: emit command:hovered
-    button.addEventListener('mouseenter', () => {
-      eventBus.emit('command:hovered', {
-        explanation: cmd.explanation,
-        id: cmd.id,
-      });
-    });
+  const categoryHidden = hiddenCommands.filter((cmd) => cmd.category === activeCategory);
+  if (showHidden) {
+    for (const cmd of categoryHidden) {
+      commandListEl.appendChild(createCommandButton(cmd, true));
+    }
+  }
 
-    // Hover end: emit command:hover-end
-    button.addEventListener('mouseleave', () => {
-      eventBus.emit('command:hover-end');
-    });
+  // Workflows follow the commands of their category
+  const categoryWorkflows = allWorkflows
+    .filter((workflow) => workflow.category === activeCategory)
+    .sort((a, b) => a.order - b.order);
 
-    commandListEl.appendChild(button);
+  for (const workflow of categoryWorkflows) {
+    commandListEl.appendChild(createWorkflowButton(workflow));
+  }
+
+  // Toggle listing the category's hidden commands
+  if (categoryHidden.length > 0) {
+    const toggle = document.createElement('button');
+    toggle.className = 'cp-hidden-toggle';
+    toggle.type = 'button';
+    toggle.textContent = `${showHidden ? '\u25BE' : '\u25B8'} ${categoryHidden.length} hidden`;
+    toggle.addEventListener('click', () => {
+      showHidden = !showHidden;
+      renderCommands();
+    });
+    commandListEl.appendChild(toggle);
   }
 
   // Add the "+ Add Command" button at the bottom
@@ -240,8 +674,417 @@ function renderCommands(): void {
   addButton.textContent = '+ Add Command';
 
   addButton.addEventListener('click', () => {
-    eventBus.emit('custom-command:open-form');
+    eventBus.emit('custom-command:open-form', { category: activeCategory });
   });
 
   commandListEl.appendChild(addButton);
 }
+
+/**
+ * Creates the button of a command. Hidden commands are dimmed and cannot
+ * be dragged.
+ */
+function createCommandButton(cmd: CommandDefinition, hidden: boolean): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.className = 'cp-command-btn';
+  button.type = 'button';
+  button.textContent = cmd.name;
+  button.dataset.commandId = cmd.id;
+
+  // Click: insert, run or confirm the command, then blur so Enter
+  // doesn't re-trigger
+  button.addEventListener('click', (event: MouseEvent) => {
+    button.blur();
+    executeCommand(cmd, getExecutionMode(cmd, event));
+  });
+
+  // Hover start: emit command:hovered
+  button.addEventListener('mouseenter', () => {
+    eventBus.emit('command:hovered', {
+      explanation: cmd.explanation,
+      id: cmd.id,
+    });
+  });
+
+  // Hover end: emit command:hover-end
+  button.addEventListener('mouseleave', () => {
+    eventBus.emit('command:hover-end');
+  });
+
+  button.addEventListener('contextmenu', (event: MouseEvent) => {
+    contextMenu.showForEvent(event, getCommandMenuItems(cmd, hidden));
+  });
+
+  if (hidden) {
+    button.classList.add('cp-command-btn--hidden');
+  } else {
+    makeDraggable(button, cmd);
+  }
+
+  return button;
+}
+
+/**
+ * Creates the button of a workflow. Its tooltip lists the steps.
+ */
+function createWorkflowButton(workflow: WorkflowDefinition): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.className = 'cp-command-btn cp-command-btn--workflow';
+  button.type = 'button';
+  button.textContent = workflow.name;
+  button.title = workflow.steps.map((step, index) => `${index + 1}. ${step.command}`).join('\n');
+  button.dataset.workflowId = workflow.id;
+
+  button.addEventListener('click', () => {
+    button.blur();
+    eventBus.emit('workflow:run', { workflow });
+  });
+
+  button.addEventListener('mouseenter', () => {
+    eventBus.emit('command:hovered', {
+      explanation: workflow.explanation,
+      id: workflow.id,
+    });
+  });
+
+  button.addEventListener('mouseleave', () => {
+    eventBus.emit('command:hover-end');
+  });
+
+  return button;
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Drag-and-drop reordering
+// ---------------------------------------------------------------------------
+
+/**
+ * Lets a command button be dropped before or after the other buttons of
+ * its category, depending on which half of a button the pointer is over.
+ */
+function makeDraggable(button: HTMLButtonElement, cmd: CommandDefinition): void {
+  button.draggable = true;
+
+  button.addEventListener('dragstart', (event: DragEvent) => {
+    draggedId = cmd.id;
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+    button.classList.add('cp-command-btn--dragging');
+  });
+
+  button.addEventListener('dragover', (event: DragEvent) => {
+    if (!draggedId || draggedId === cmd.id) return;
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    const after = isInLowerHalf(button, event);
+    button.classList.toggle('cp-command-btn--drop-before', !after);
+    button.classList.toggle('cp-command-btn--drop-after', after);
+  });
+
+  button.addEventListener('dragleave', () => {
+    clearDropMarker(button);
+  });
+
+  button.addEventListener('drop', (event: DragEvent) => {
+    event.preventDefault();
+    clearDropMarker(button);
+    if (!draggedId || draggedId === cmd.id) return;
+    moveCommand(draggedId, cmd.id, isInLowerHalf(button, event));
+  });
+
+  button.addEventListener('dragend', () => {
+    draggedId = null;
+    button.classList.remove('cp-command-btn--dragging');
+  });
+}
+
+function isInLowerHalf(element: HTMLElement, event: DragEvent): boolean {
+  const rect = element.getBoundingClientRect();
+  return event.clientY > rect.top + rect.height / 2;
+}
+
+function clearDropMarker(button: HTMLElement): void {
+  button.classList.remove('cp-command-btn--drop-before', 'cp-command-btn--drop-after');
+}
+
+/**
+ * Moves a command before or after another of the active category and
+ * saves the category's new order.
+ */
+function moveCommand(id: string, targetId: string, after: boolean): void {
+  const ids = getCategoryIds(activeCategory).filter((other) => other !== id);
+  ids.splice(ids.indexOf(targetId) + (after ? 1 : 0), 0, id);
+
+  updateConfig((config) => {
+    setOrder(config, ids);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Context menu actions
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the context menu of a command. Built-in commands offer Reset
+ * instead of Delete once edited, and nothing once not. Commands from the
+ * project command file cannot be edited or deleted, only duplicated into
+ * a custom command, moved and hidden.
+ */
+function getCommandMenuItems(cmd: CommandDefinition, hidden: boolean): ContextMenuItem[] {
+  const isBuiltIn = builtInIds.has(cmd.id);
+  const isOverridden = isBuiltIn && customCommands.some((custom) => custom.id === cmd.id);
+  const moveTargets = getMoveTargets(cmd);
+  const hideItem: ContextMenuItem = hidden
+    ? { label: 'Unhide', action: () => setHidden(cmd.id, false) }
+    : { label: 'Hide', action: () => setHidden(cmd.id, true) };
+
+  if (projectCommands.some((projectCmd) => projectCmd.id === cmd.id)) {
+    return [
+      { label: 'From the repository', disabled: true },
+      { label: 'Duplicate', separatorBefore: true, action: () => duplicateCommand(cmd) },
+      { label: 'Move to category', submenu: moveTargets, disabled: moveTargets.length === 0 },
+      hideItem,
+    ];
+  }
+
+  const items: ContextMenuItem[] = [
+    {
+      label: 'Edit…',
+      action: () => eventBus.emit('custom-command:open-form', { command: cmd }),
+    },
+    { label: 'Duplicate', action: () => duplicateCommand(cmd) },
+    { label: 'Move to category', submenu: moveTargets, disabled: moveTargets.length === 0 },
+    hideItem,
+  ];
+
+  if (isOverridden) {
+    items.push({ label: 'Reset to built-in', separatorBefore: true, action: () => removeCustomCommand(cmd.id) });
+  } else if (!isBuiltIn) {
+    items.push({ label: 'Delete', danger: true, separatorBefore: true, action: () => deleteCommand(cmd.id) });
+  }
+  return items;
+}
+
+/**
+ * Lists the categories a command can be moved to: every category except
+ * its own (see getCategories()).
+ */
+function getMoveTargets(cmd: CommandDefinition): ContextMenuItem[] {
+  const categories = getCategories().filter((category) => category !== cmd.category);
+
+  return categories.map((category) => ({
+    label: getCategoryLabel(category),
+    action: () => {
+      const order = getNextOrder([...allCommands, ...hiddenCommands], category);
+      updateConfig((config) => {
+        const placement = getPlacement(config, cmd.id);
+        placement.category = category;
+        placement.order = order;
+      });
+    },
+  }));
+}
+
+/**
+ * Saves a copy of a command as a new custom command, right after it.
+ */
+function duplicateCommand(cmd: CommandDefinition): void {
+  const copy: CommandDefinition = { ...cmd, id: 'custom-' + Date.now(), name: `${cmd.name} (copy)` };
+
+  const ids = getCategoryIds(cmd.category);
+  const index = ids.indexOf(cmd.id);
+  ids.splice(index === -1 ? ids.length : index + 1, 0, copy.id);
+
+  updateConfig((config) => {
+    config.customCommands.push(copy);
+    setOrder(config, ids);
+  });
+}
+
+function setHidden(id: string, hidden: boolean): void {
+  updateConfig((config) => {
+    const placement = getPlacement(config, id);
+    if (hidden) {
+      placement.hidden = true;
+    } else {
+      delete placement.hidden;
+    }
+    prunePlacement(config, id);
+  });
+}
+
+/**
+ * Deletes a custom command and its placement.
+ */
+function deleteCommand(id: string): void {
+  updateConfig((config) => {
+    config.customCommands = config.customCommands.filter((cmd) => cmd.id !== id);
+    delete config.commandPlacements[id];
+  });
+}
+
+/**
+ * Removes the custom command that overrides a built-in one, restoring
+ * the built-in definition. Its placement is kept.
+ */
+function removeCustomCommand(id: string): void {
+  updateConfig((config) => {
+    config.customCommands = config.customCommands.filter((cmd) => cmd.id !== id);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Category menu actions
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the context menu of a category tab. Only user-defined categories
+ * can be edited and deleted; the Scripts tab follows package.json.
+ */
+function getCategoryMenuItems(category: string): ContextMenuItem[] {
+  const items: ContextMenuItem[] = [];
+
+  if (category !== 'scripts') {
+    const alwaysVisible = alwaysVisibleCategories.includes(category);
+    items.push({
+      label: 'Always visible',
+      checked: alwaysVisible,
+      action: () => setAlwaysVisible(category, !alwaysVisible),
+    });
+  }
+
+  const definition = userCategories.find((userCategory) => userCategory.id === category);
+  if (definition) {
+    items.push(
+      { label: 'Edit category…', action: () => eventBus.emit('category-form:open', { category: definition }) },
+      { label: 'Delete category', danger: true, action: () => deleteCategory(definition.id) }
+    );
+  }
+
+  items.push({ label: 'New category…', separatorBefore: true, action: () => eventBus.emit('category-form:open') });
+
+  const label = getCategoryLabel(category);
+  const hasCustomCommands = customCommands.some(
+    (cmd) => (commandPlacements[cmd.id]?.category ?? cmd.category) === category
+  );
+  items.push(
+    {
+      label: 'Import command pack…',
+      separatorBefore: true,
+      action: () => eventBus.emit('command-pack:import'),
+    },
+    {
+      label: `Export ${label} commands…`,
+      disabled: !definition && !hasCustomCommands,
+      action: () => eventBus.emit('command-pack:export', { category, name: label }),
+    },
+    {
+      label: 'Export all custom commands…',
+      action: () => eventBus.emit('command-pack:export', { category: null, name: 'Custom commands' }),
+    }
+  );
+
+  const file = projectCommandFile;
+  if (file) {
+    items.push({
+      label: 'Review repository commands…',
+      action: () => eventBus.emit('command-pack:review-project', { file, takenCommandIds: getTakenCommandIds() }),
+    });
+  }
+  return items;
+}
+
+function setAlwaysVisible(category: string, alwaysVisible: boolean): void {
+  updateConfig((config) => {
+    const others = config.categories.alwaysVisible.filter((other) => other !== category);
+    config.categories.alwaysVisible = alwaysVisible ? [...others, category] : others;
+  });
+}
+
+/**
+ * Deletes a user-defined category. Its custom commands and workflows move
+ * to Custom, and commands placed in it go back to their own category.
+ */
+function deleteCategory(id: string): void {
+  updateConfig((config) => {
+    config.categories.userDefined = config.categories.userDefined.filter((category) => category.id !== id);
+    config.categories.alwaysVisible = config.categories.alwaysVisible.filter((category) => category !== id);
+
+    for (const cmd of config.customCommands) {
+      if (cmd.category === id) cmd.category = 'custom';
+    }
+    for (const workflow of config.workflows) {
+      if (workflow.category === id) workflow.category = 'custom';
+    }
+    for (const [commandId, placement] of Object.entries(config.commandPlacements)) {
+      if (placement.category === id) {
+        delete placement.category;
+        delete placement.order;
+        prunePlacement(config, commandId);
+      }
+    }
+  });
+}
+
+/**
+ * The definition of a user-defined category or one from the project
+ * command file.
+ */
+function findCategoryDefinition(id: string): CategoryDefinition | undefined {
+  return [...userCategories, ...projectCategories].find((category) => category.id === id);
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Saving
+// ---------------------------------------------------------------------------
+
+/**
+ * IDs of a category's visible commands, in display order.
+ */
+function getCategoryIds(category: string): string[] {
+  return allCommands.filter((cmd) => cmd.category === category).map((cmd) => cmd.id);
+}
+
+/**
+ * Numbers the given commands in order.
+ */
+function setOrder(config: AppConfig, ids: string[]): void {
+  ids.forEach((id, index) => {
+    getPlacement(config, id).order = index;
+  });
+}
+
+function getPlacement(config: AppConfig, id: string): CommandPlacement {
+  if (!config.commandPlacements[id]) {
+    config.commandPlacements[id] = {};
+  }
+  return config.commandPlacements[id];
+}
+
+/**
+ * Drops a placement that no longer changes anything.
+ */
+function prunePlacement(config: AppConfig, id: string): void {
+  const placement = config.commandPlacements[id];
+  if (placement && Object.keys(placement).length === 0) {
+    delete config.commandPlacements[id];
+  }
+}
+
+/**
+ * Applies a change to the saved config, then reloads the commands.
+ */
+async function updateConfig(change: (config: AppConfig) => void): Promise<void> {
+  try {
+    const config: AppConfig = await window.api.config.load();
+    config.commandPlacements = config.commandPlacements || {};
+    change(config);
+    await window.api.config.save(config);
+    eventBus.emit('commands:updated');
+  } catch (err) {
+    logger.warn('Failed to save command changes', { error: String(err) });
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * CommandCanvas - Command Template Form
+ *
+ * Renders a modal form that fills in the `{{name}}` placeholders of a
+ * command template before the command is inserted. There is one input per
+ * variable, pre-filled with its default; variables with choices offer
+ * them as suggestions, and choices produced by a shell command are loaded
+ * when the form opens. A preview shows the command as it will be inserted;
+ * a value picked from a command's choices is quoted unless it is a plain
+ * word, since the command's output decided it rather than the user.
+ *
+ * The form is also the confirmation of commands in confirm execution
+ * mode: a command without placeholders shows only its preview and
+ * explanation, with a Run button.
+ *
+ * Events published:
+ * - command:selected  { command, explanation, id, run? } -> with placeholders filled
+ *
+ * Events subscribed to:
+ * - command-template:open  { command: CommandDefinition, run? } -> run: press
+ *                          Enter after inserting the filled command
+ * - session:activated      { sessionId } -> choices commands run in its directory
+ */
+
+import { eventBus } from './event-bus';
+import * as logger from './logger';
+import { fillTemplate, getTemplateVariables, quoteArgument } from '../shared/command-templates';
+import type { CommandDefinition, CommandVariable } from '../shared/types';
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** The overlay container element passed in via init() */
+let containerEl: HTMLElement | null = null;
+
+/** The modal dialog element */
+let modalEl: HTMLElement | null = null;
+
+/** Title element, showing the command name */
+let titleEl: HTMLElement | null = null;
+
+/** The command's explanation */
+let explanationEl: HTMLElement | null = null;
+
+/** Container of the per-variable fields */
+let fieldsEl: HTMLElement | null = null;
+
+/** Live preview of the filled command */
+let previewEl: HTMLElement | null = null;
+
+/** Error display element */
+let errorEl: HTMLElement | null = null;
+
+/** The Insert (or Run) button */
+let submitBtn: HTMLButtonElement | null = null;
+
+/** The command being filled in */
+let template: CommandDefinition | null = null;
+
+/** Whether the filled command is run rather than only inserted */
+let runAfterFill = false;
+
+/** The template's variables, in order of first use */
+let variables: CommandVariable[] = [];
+
+/** Input element of each variable, by name */
+const inputs = new Map<string, HTMLInputElement>();
+
+/** Choices loaded from each variable's choicesCommand, by name */
+const commandChoices = new Map<string, Set<string>>();
+
+/** Session whose working directory choices commands run in */
+let activeSessionId: string | null = null;
+
+/** Incremented per opening so choices that arrive after the form moved on are dropped */
+let openEpoch = 0;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Initializes the template form inside the given overlay container.
+ * Builds the modal DOM structure and wires up event listeners.
+ *
+ * @param initialSessionId - The focused session at startup, activated
+ *                           before this module subscribed
+ */
+export function init(container: HTMLElement, initialSessionId: string | null = null): void {
+  containerEl = container;
+  activeSessionId = initialSessionId;
+
+  buildModal();
+
+  eventBus.on('command-template:open', (payload: { command: CommandDefinition; run?: boolean }) => {
+    open(payload.command, payload.run ?? false);
+  });
+
+  eventBus.on('session:activated', (payload: { sessionId: string }) => {
+    activeSessionId = payload.sessionId;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal: DOM construction
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the modal skeleton; the fields are rebuilt on every opening.
+ */
+function buildModal(): void {
+  if (!containerEl) return;
+
+  modalEl = document.createElement('div');
+  modalEl.className = 'ccf-modal ctf-modal';
+
+  titleEl = document.createElement('h2');
+  titleEl.className = 'ccf-title';
+  modalEl.appendChild(titleEl);
+
+  explanationEl = document.createElement('p');
+  explanationEl.className = 'ctf-explanation';
+  modalEl.appendChild(explanationEl);
+
+  errorEl = document.createElement('div');
+  errorEl.className = 'ccf-error';
+  errorEl.style.display = 'none';
+  modalEl.appendChild(errorEl);
+
+  fieldsEl = document.createElement('div');
+  fieldsEl.className = 'ccf-form';
+  modalEl.appendChild(fieldsEl);
+
+  previewEl = document.createElement('code');
+  previewEl.className = 'ctf-preview';
+  modalEl.appendChild(previewEl);
+
+  const buttonRow = document.createElement('div');
+  buttonRow.className = 'ccf-buttons';
+
+  const cancelBtn = document.createElement('button');
+  cancelBtn.className = 'ccf-btn ccf-btn--cancel';
+  cancelBtn.type = 'button';
+  cancelBtn.textContent = 'Cancel';
+  cancelBtn.addEventListener('click', close);
+  buttonRow.appendChild(cancelBtn);
+
+  submitBtn = document.createElement('button');
+  submitBtn.className = 'ccf-btn ccf-btn--save';
+  submitBtn.type = 'button';
+  submitBtn.textContent = 'Insert';
+  submitBtn.addEventListener('click', handleInsert);
+  buttonRow.appendChild(submitBtn);
+
+  modalEl.appendChild(buttonRow);
+  containerEl.appendChild(modalEl);
+
+  modalEl.addEventListener('keydown', handleKeydown);
+}
+
+/**
+ * Creates the labeled input of one variable. Variables with choices get a
+ * datalist of suggestions; any other value can still be typed.
+ */
+function createField(variable: CommandVariable, index: number): HTMLInputElement {
+  const id = `ctf-var-${index}`;
+
+  const group = document.createElement('div');
+  group.className = 'ccf-field';
+
+  const label = document.createElement('label');
+  label.className = 'ccf-label';
+  label.htmlFor = id;
+  label.textContent = (variable.label || variable.name) + (variable.required ? ' *' : '');
+  group.appendChild(label);
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'ccf-input';
+  input.id = id;
+  input.value = variable.default ?? '';
+  input.addEventListener('input', updatePreview);
+  group.appendChild(input);
+
+  if (variable.choices || variable.choicesCommand) {
+    const datalist = document.createElement('datalist');
+    datalist.id = `${id}-choices`;
+    setChoices(datalist, variable.choices ?? []);
+    input.setAttribute('list', datalist.id);
+    group.appendChild(datalist);
+  }
+
+  fieldsEl?.appendChild(group);
+  return input;
+}
+
+/**
+ * Replaces the options of a datalist.
+ */
+function setChoices(datalist: HTMLDataListElement, choices: string[]): void {
+  datalist.textContent = '';
+  for (const choice of choices) {
+    const option = document.createElement('option');
+    option.value = choice;
+    datalist.appendChild(option);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Open / Close
+// ---------------------------------------------------------------------------
+
+/**
+ * Opens the form for a command template.
+ */
+function open(command: CommandDefinition, run: boolean): void {
+  if (!containerEl || !fieldsEl || !titleEl) return;
+
+  const epoch = ++openEpoch;
+  template = command;
+  runAfterFill = run;
+  variables = getTemplateVariables(command);
+
+  titleEl.textContent = command.name;
+  if (explanationEl) {
+    explanationEl.textContent = command.explanation;
+  }
+  if (submitBtn) {
+    submitBtn.textContent = run ? 'Run' : 'Insert';
+  }
+  fieldsEl.textContent = '';
+  inputs.clear();
+  commandChoices.clear();
+  hideError();
+
+  variables.forEach((variable, index) => {
+    const input = createField(variable, index);
+    inputs.set(variable.name, input);
+    if (variable.choicesCommand) {
+      loadChoices(variable, input, epoch);
+    }
+  });
+
+  updatePreview();
+  containerEl.classList.remove('hidden');
+  // With no fields (confirm mode), Enter activates the focused Run button
+  (inputs.values().next().value ?? submitBtn)?.focus();
+}
+
+/**
+ * Hides the form without inserting anything.
+ */
+function close(): void {
+  openEpoch++;
+  template = null;
+  containerEl?.classList.add('hidden');
+}
+
+/**
+ * Runs a variable's choicesCommand and offers its output as suggestions,
+ * after any fixed choices. Failures leave the input as plain text.
+ */
+async function loadChoices(variable: CommandVariable, input: HTMLInputElement, epoch: number): Promise<void> {
+  const datalist = input.list;
+  if (!variable.choicesCommand || !datalist) return;
+
+  try {
+    const result: { choices: string[]; error: string | null } = await window.api.template.getChoices(
+      variable.choicesCommand,
+      activeSessionId
+    );
+    if (epoch !== openEpoch) return;
+
+    if (result.error) {
+      logger.warn('Template choices command failed', { variable: variable.name, error: result.error });
+    }
+    commandChoices.set(variable.name, new Set(result.choices));
+    setChoices(datalist, [...new Set([...(variable.choices ?? []), ...result.choices])]);
+    updatePreview();
+  } catch (err) {
+    logger.warn('Template choices command failed', { variable: variable.name, error: String(err) });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Error display
+// ---------------------------------------------------------------------------
+
+/**
+ * Shows an error message in the form.
+ */
+function showError(message: string): void {
+  if (!errorEl) return;
+  errorEl.textContent = message;
+  errorEl.style.display = 'block';
+}
+
+/**
+ * Hides the error message.
+ */
+function hideError(): void {
+  if (!errorEl) return;
+  errorEl.textContent = '';
+  errorEl.style.display = 'none';
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Form handlers
+// ---------------------------------------------------------------------------
+
+/**
+ * Collects the current value of every variable, quoting values picked
+ * from a choices command's output.
+ */
+function collectValues(): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, input] of inputs) {
+    values[name] = commandChoices.get(name)?.has(input.value) ? quoteArgument(input.value) : input.value;
+  }
+  return values;
+}
+
+/**
+ * Shows the command as it would be inserted with the current values.
+ */
+function updatePreview(): void {
+  if (!previewEl || !template) return;
+  previewEl.textContent = fillTemplate(template.command, collectValues());
+}
+
+/**
+ * Handles the Insert button (or Enter): checks required variables, then
+ * publishes the filled command for insertion.
+ */
+function handleInsert(): void {
+  if (!template) return;
+
+  const values = collectValues();
+  const missing = variables.find((variable) => variable.required && !values[variable.name].trim());
+  if (missing) {
+    showError(`${missing.label || missing.name} is required.`);
+    inputs.get(missing.name)?.focus();
+    return;
+  }
+
+  const command = template;
+  close();
+  eventBus.emit('command:selected', {
+    command: fillTemplate(command.command, values),
+    explanation: command.explanation,
+    id: command.id,
+    run: runAfterFill,
+  });
+}
+
+/**
+ * Enter inserts, Escape cancels, and Tab stays inside the dialog.
+ */
+function handleKeydown(event: KeyboardEvent): void {
+  if (event.key === 'Escape') {
+    close();
+  } else if (event.key === 'Enter' && event.target instanceof HTMLInputElement) {
+    event.preventDefault();
+    handleInsert();
+  } else if (event.key === 'Tab' && modalEl) {
+    const focusable = modalEl.querySelectorAll<HTMLElement>('button, input');
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+}
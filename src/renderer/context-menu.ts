@@ -0,0 +1,264 @@
+/**
+ * CommandCanvas - Context Menu
+ *
+ * A small right-click menu shown at the pointer. Callers pass the items;
+ * an item either runs its action or, with a submenu, replaces the menu's
+ * items by the submenu's (with a Back item), so nested choices such as
+ * "Move to category" need no second floating element.
+ *
+ * Keys: Up/Down move between items, Enter/Space activate, Left goes back
+ * from a submenu, Escape closes. Clicking outside, scrolling, resizing or
+ * leaving the window also closes the menu.
+ *
+ * Only one menu is open at a time.
+ */
+
+import './styles/context-menu.css';
+
+/** One entry of a context menu */
+export interface ContextMenuItem {
+  label: string;
+  /** Runs after the menu closes */
+  action?: () => void;
+  /** Items shown in place of the menu's when this item is activated */
+  submenu?: ContextMenuItem[];
+  /** Shown but not selectable */
+  disabled?: boolean;
+  /** Makes the item a checkbox, drawn with a check mark when true */
+  checked?: boolean;
+  /** Styled as destructive, e.g. Delete */
+  danger?: boolean;
+  /** Draws a separator line above the item */
+  separatorBefore?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** The menu element, created on first use */
+let menuEl: HTMLElement | null = null;
+
+/** Item lists of the open menu, outermost first; the last one is shown */
+let stack: ContextMenuItem[][] = [];
+
+/** Where the menu was opened, kept so submenus open in the same place */
+let anchor = { x: 0, y: 0 };
+
+/** Element focused before the menu opened; focus returns to it on Escape */
+let previousFocus: HTMLElement | null = null;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Opens a menu with the given items at a viewport position, closing any
+ * other open menu. The first enabled item is focused.
+ */
+export function show(x: number, y: number, items: ContextMenuItem[]): void {
+  if (!menuEl) {
+    buildMenu();
+  }
+  if (stack.length === 0) {
+    previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    addDismissListeners();
+  }
+
+  anchor = { x, y };
+  stack = [items];
+  renderItems();
+}
+
+/**
+ * Opens a menu for the element that received a contextmenu event. Menus
+ * opened from the keyboard (Shift+F10, the menu key) have no pointer
+ * position, so they open at the element's lower left corner instead.
+ */
+export function showForEvent(event: MouseEvent, items: ContextMenuItem[]): void {
+  event.preventDefault();
+  if (event.clientX === 0 && event.clientY === 0 && event.currentTarget instanceof HTMLElement) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    show(rect.left, rect.bottom, items);
+  } else {
+    show(event.clientX, event.clientY, items);
+  }
+}
+
+/**
+ * Closes the menu, if open.
+ *
+ * @param restoreFocus - Return focus to the element focused before the
+ *                       menu opened
+ */
+export function hide(restoreFocus = false): void {
+  if (stack.length === 0) return;
+
+  stack = [];
+  menuEl?.classList.add('hidden');
+  removeDismissListeners();
+
+  if (restoreFocus) {
+    previousFocus?.focus();
+  }
+  previousFocus = null;
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Rendering
+// ---------------------------------------------------------------------------
+
+function buildMenu(): void {
+  menuEl = document.createElement('div');
+  menuEl.className = 'context-menu hidden';
+  menuEl.setAttribute('role', 'menu');
+  menuEl.addEventListener('keydown', handleKeydown);
+  // Keep the menu's own right-clicks from opening the browser menu
+  menuEl.addEventListener('contextmenu', (event) => event.preventDefault());
+  document.body.appendChild(menuEl);
+}
+
+/**
+ * Shows the innermost item list at the anchor, kept inside the window.
+ */
+function renderItems(): void {
+  if (!menuEl) return;
+
+  const items = stack[stack.length - 1];
+  menuEl.textContent = '';
+
+  if (stack.length > 1) {
+    menuEl.appendChild(createItemButton({ label: '‹ Back', action: goBack }, true));
+  }
+  items.forEach((item, index) => {
+    if (item.separatorBefore && (index > 0 || stack.length > 1)) {
+      const separator = document.createElement('div');
+      separator.className = 'context-menu-separator';
+      separator.setAttribute('role', 'separator');
+      menuEl!.appendChild(separator);
+    }
+    menuEl!.appendChild(createItemButton(item, false));
+  });
+
+  menuEl.classList.remove('hidden');
+  const width = menuEl.offsetWidth;
+  const height = menuEl.offsetHeight;
+  menuEl.style.left = `${Math.max(0, Math.min(anchor.x, window.innerWidth - width))}px`;
+  menuEl.style.top = `${Math.max(0, Math.min(anchor.y, window.innerHeight - height))}px`;
+
+  getEnabledButtons()[0]?.focus();
+}
+
+function createItemButton(item: ContextMenuItem, isBack: boolean): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'context-menu-item';
+  button.setAttribute('role', 'menuitem');
+  button.textContent = item.submenu ? `${item.label} ›` : item.label;
+  if (item.checked !== undefined) {
+    button.setAttribute('role', 'menuitemcheckbox');
+    button.setAttribute('aria-checked', String(item.checked));
+    button.classList.add('context-menu-item--checkable');
+  }
+  button.disabled = item.disabled ?? false;
+  if (item.danger) {
+    button.classList.add('context-menu-item--danger');
+  }
+  if (isBack) {
+    button.classList.add('context-menu-item--back');
+  }
+
+  button.addEventListener('click', () => activate(item, isBack));
+  // Follow the pointer so keyboard navigation continues from it
+  button.addEventListener('mouseenter', () => {
+    if (!button.disabled) button.focus();
+  });
+
+  return button;
+}
+
+/**
+ * Opens an item's submenu, or closes the menu and runs its action.
+ */
+function activate(item: ContextMenuItem, isBack: boolean): void {
+  if (item.disabled) return;
+
+  if (isBack) {
+    goBack();
+  } else if (item.submenu) {
+    stack.push(item.submenu);
+    renderItems();
+  } else {
+    hide(true);
+    item.action?.();
+  }
+}
+
+function goBack(): void {
+  if (stack.length <= 1) return;
+  stack.pop();
+  renderItems();
+}
+
+function getEnabledButtons(): HTMLButtonElement[] {
+  if (!menuEl) return [];
+  return Array.from(menuEl.querySelectorAll<HTMLButtonElement>('.context-menu-item:not(:disabled)'));
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Keyboard and dismissal
+// ---------------------------------------------------------------------------
+
+function handleKeydown(event: KeyboardEvent): void {
+  const buttons = getEnabledButtons();
+  const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+
+  switch (event.key) {
+    case 'ArrowDown':
+      event.preventDefault();
+      buttons[(current + 1) % buttons.length]?.focus();
+      break;
+    case 'ArrowUp':
+      event.preventDefault();
+      buttons[(current - 1 + buttons.length) % buttons.length]?.focus();
+      break;
+    case 'ArrowLeft':
+      event.preventDefault();
+      goBack();
+      break;
+    case 'Escape':
+      event.preventDefault();
+      event.stopPropagation();
+      hide(true);
+      break;
+    case 'Tab':
+      // Focus stays in the menu; Tab moves like the arrow keys
+      event.preventDefault();
+      buttons[(current + (event.shiftKey ? -1 : 1) + buttons.length) % buttons.length]?.focus();
+      break;
+  }
+}
+
+function handlePointerDown(event: MouseEvent): void {
+  if (menuEl && !menuEl.contains(event.target as Node)) {
+    hide();
+  }
+}
+
+function handleDismiss(): void {
+  hide();
+}
+
+function addDismissListeners(): void {
+  document.addEventListener('mousedown', handlePointerDown, true);
+  window.addEventListener('blur', handleDismiss);
+  window.addEventListener('resize', handleDismiss);
+  document.addEventListener('scroll', handleDismiss, true);
+}
+
+function removeDismissListeners(): void {
+  document.removeEventListener('mousedown', handlePointerDown, true);
+  window.removeEventListener('blur', handleDismiss);
+  window.removeEventListener('resize', handleDismiss);
+  document.removeEventListener('scroll', handleDismiss, true);
+}
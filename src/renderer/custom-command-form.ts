@@ -3,24 +3,32 @@
  *
  * Renders a modal form for creating and editing custom commands.
  * Hidden by default; shown when the custom-command:open-form event fires.
+ * Editing a built-in command saves a custom command with its ID, which
+ * replaces the built-in one. New commands go after the other commands of
+ * their category, as does an edited command moved to another category.
  *
  * Form fields:
  * - Name (text input)
  * - Command (text input)
  * - Explanation (textarea)
- * - Category (dropdown: git, node, python, docker, custom)
+ * - Category (dropdown: project categories, user-defined categories, custom)
  * - Animation Trigger (dropdown: none, success, error)
+ * - Execution (dropdown: default, insert, run, confirm)
  *
  * Events published:
  * - commands:updated           void
  * - custom-command:close-form  void
  *
  * Events subscribed to:
- * - custom-command:open-form   void | { command: CommandDefinition }
+ * - custom-command:open-form   void | { category?: string; command?: CommandDefinition }
+ *                               -> category: preselected when adding
  */
 
 import { eventBus } from './event-bus';
-import type { CommandDefinition } from '../shared/types';
+import type { CommandDefinition, CommandExecutionMode } from '../shared/types';
+import type { CommandSource } from './command-palette';
+import { BUILT_IN_DETECTORS } from '../shared/project-detectors';
+import { getNextOrder } from '../shared/default-commands';
 
 // ---------------------------------------------------------------------------
 // Module state
@@ -38,6 +46,7 @@ let commandInput: HTMLInputElement | null = null;
 let explanationInput: HTMLTextAreaElement | null = null;
 let categorySelect: HTMLSelectElement | null = null;
 let triggerSelect: HTMLSelectElement | null = null;
+let executionSelect: HTMLSelectElement | null = null;
 
 /** Error display element */
 let errorEl: HTMLElement | null = null;
@@ -45,15 +54,16 @@ let errorEl: HTMLElement | null = null;
 /** The command being edited (null for new command creation) */
 let editingCommand: CommandDefinition | null = null;
 
+/** The loaded commands, for ordering and category labels */
+let source: CommandSource | null = null;
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
+/** Categories offered until the command panel's are known */
 const CATEGORIES = [
-  { value: 'git', label: 'Git' },
-  { value: 'node', label: 'Node' },
-  { value: 'python', label: 'Python' },
-  { value: 'docker', label: 'Docker' },
+  ...BUILT_IN_DETECTORS.map((detector) => ({ value: detector.type, label: detector.label })),
   { value: 'custom', label: 'Custom' },
 ];
 
@@ -63,6 +73,13 @@ const ANIMATION_TRIGGERS = [
   { value: 'error', label: 'Error' },
 ];
 
+const EXECUTION_MODES = [
+  { value: 'default', label: 'Default' },
+  { value: 'insert', label: 'Insert at prompt' },
+  { value: 'run', label: 'Run immediately' },
+  { value: 'confirm', label: 'Ask before running' },
+];
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -70,19 +87,23 @@ const ANIMATION_TRIGGERS = [
 /**
  * Initializes the custom command form inside the given overlay container.
  * Builds the modal DOM structure and wires up event listeners.
+ *
+ * @param commandSource - The loaded commands; new commands are ordered
+ *                        after those of their category
  */
-export function init(container: HTMLElement): void {
+export function init(container: HTMLElement, commandSource: CommandSource | null = null): void {
   containerEl = container;
+  source = commandSource;
 
   // Build the modal structure
   buildModal();
 
   // Subscribe to the open-form event
-  eventBus.on('custom-command:open-form', (payload?: { command?: CommandDefinition }) => {
+  eventBus.on('custom-command:open-form', (payload?: { category?: string; command?: CommandDefinition }) => {
     if (payload && payload.command) {
       openForEdit(payload.command);
     } else {
-      openForCreate();
+      openForCreate(payload?.category);
     }
   });
 }
@@ -131,6 +152,9 @@ function buildModal(): void {
   // Animation Trigger dropdown
   triggerSelect = createSelect(form, 'Animation Trigger', 'ccf-trigger', ANIMATION_TRIGGERS);
 
+  // Execution mode dropdown
+  executionSelect = createSelect(form, 'Execution', 'ccf-execution', EXECUTION_MODES);
+
   modalEl.appendChild(form);
 
   // Button row
@@ -257,9 +281,13 @@ function createSelect(
 /**
  * Opens the modal for creating a new command.
  */
-function openForCreate(): void {
+function openForCreate(category?: string): void {
   editingCommand = null;
   resetForm();
+  // Scripts are generated from package.json, so new commands go elsewhere
+  if (category && category !== 'scripts') {
+    selectCategory(category);
+  }
 
   if (modalEl) {
     const title = modalEl.querySelector('.ccf-title');
@@ -280,14 +308,15 @@ function openForEdit(command: CommandDefinition): void {
   if (nameInput) nameInput.value = command.name;
   if (commandInput) commandInput.value = command.command;
   if (explanationInput) explanationInput.value = command.explanation;
-  if (categorySelect) categorySelect.value = command.category;
+  selectCategory(command.category);
   if (triggerSelect) {
     triggerSelect.value = command.animationTrigger || 'none';
   }
+  if (executionSelect) executionSelect.value = command.execution || 'default';
 
   if (modalEl) {
     const title = modalEl.querySelector('.ccf-title');
-    if (title) title.textContent = 'Edit Custom Command';
+    if (title) title.textContent = 'Edit Command';
   }
 
   showModal();
@@ -318,11 +347,47 @@ function resetForm(): void {
   if (nameInput) nameInput.value = '';
   if (commandInput) commandInput.value = '';
   if (explanationInput) explanationInput.value = '';
-  if (categorySelect) categorySelect.value = 'custom';
+  if (categorySelect) {
+    updateCategoryOptions();
+    categorySelect.value = 'custom';
+  }
   if (triggerSelect) triggerSelect.value = 'none';
+  if (executionSelect) executionSelect.value = 'default';
   hideError();
 }
 
+/**
+ * Offers the command panel's current categories, including user-defined
+ * ones.
+ */
+function updateCategoryOptions(): void {
+  if (!categorySelect || !source) return;
+
+  categorySelect.textContent = '';
+  for (const category of source.getCategories()) {
+    const option = document.createElement('option');
+    option.value = category;
+    option.textContent = source.getCategoryLabel(category);
+    categorySelect.appendChild(option);
+  }
+}
+
+/**
+ * Selects a category, adding it to the dropdown first if it is not offered
+ * (Scripts, or a category only used by commands).
+ */
+function selectCategory(category: string): void {
+  if (!categorySelect) return;
+
+  if (!Array.from(categorySelect.options).some((option) => option.value === category)) {
+    const option = document.createElement('option');
+    option.value = category;
+    option.textContent = source ? source.getCategoryLabel(category) : category;
+    categorySelect.insertBefore(option, categorySelect.lastElementChild);
+  }
+  categorySelect.value = category;
+}
+
 // ---------------------------------------------------------------------------
 // Internal: Error display
 // ---------------------------------------------------------------------------
@@ -360,6 +425,7 @@ async function handleSave(): Promise<void> {
   const explanation = explanationInput?.value.trim() || '';
   const category = categorySelect?.value || 'custom';
   const triggerValue = triggerSelect?.value || 'none';
+  const executionValue = executionSelect?.value || 'default';
 
   // Validation
   if (!name) {
@@ -377,9 +443,18 @@ async function handleSave(): Promise<void> {
   const animationTrigger: 'success' | 'error' | null =
     triggerValue === 'none' ? null : (triggerValue as 'success' | 'error');
 
+  // 'default' leaves the mode to ui.defaultExecution
+  const execution = executionValue === 'default' ? undefined : (executionValue as CommandExecutionMode);
+
   // Build the CommandDefinition
   const id = editingCommand ? editingCommand.id : 'custom-' + Date.now();
 
+  // Keep an edited command's place unless it moves to another category
+  const order =
+    editingCommand && editingCommand.category === category
+      ? editingCommand.order
+      : getNextOrder(source ? source.getCommands() : [], category);
+
   const newCommand: CommandDefinition = {
     id,
     name,
@@ -387,7 +462,9 @@ async function handleSave(): Promise<void> {
     explanation,
     category,
     animationTrigger,
-    order: editingCommand ? editingCommand.order : 0,
+    order,
+    ...(execution ? { execution } : {}),
+    ...(editingCommand?.variables ? { variables: editingCommand.variables } : {}),
   };
 
   try {
@@ -395,7 +472,19 @@ async function handleSave(): Promise<void> {
     const config = await window.api.config.load();
 
     if (editingCommand) {
-      // Replace the existing command in the array
+      // The form showed the command where it is placed; that is now its own
+      // category and order
+      const placement = config.commandPlacements?.[id];
+      if (placement) {
+        delete placement.category;
+        delete placement.order;
+        if (Object.keys(placement).length === 0) {
+          delete config.commandPlacements[id];
+        }
+      }
+
+      // Replace the existing command in the array (or add an override of
+      // a built-in one)
       const idx = config.customCommands.findIndex((c: CommandDefinition) => c.id === editingCommand!.id);
       if (idx !== -1) {
         config.customCommands[idx] = newCommand;
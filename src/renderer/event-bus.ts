@@ -6,25 +6,45 @@
  * and bulk listener removal.
  *
  * Event catalog (see ARCHITECTURE.md Section 6):
- * - command:selected     { command: string; explanation: string; id: string }
+ * - command:selected     { command: string; explanation: string; id: string; run?: boolean }
  * - command:inserted     { command: string }
  * - command:hovered      { explanation: string; id: string }
  * - command:hover-end    void
  * - commands:updated     void
- * - shell:exit           { exitCode: number }
- * - shell:spawned        {}
+ * - shell:exit           { sessionId: string; exitCode: number }
+ * - shell:spawned        { sessionId: string }
+ * - shell:command-started   { sessionId: string }
+ * - shell:command-finished  { sessionId: string; exitCode: number | null; durationMs: number | null }
+ * - shell:cwd-changed       { sessionId: string; cwd: string }
  * - shell:input-start    void
  * - shell:idle           void
- * - project:detected     { types: string[] }
+ * - project:detected     { types: string[]; directory: string; roots: Partial<Record<ProjectType, string>>; metadata: ProjectMetadata; commandFile: ProjectCommandFile | null }
  * - warning:show         WarningDisplayPayload
- * - warning:dismissed    { warningId: string; action: 'confirm' | 'cancel' }
+ * - warning:preview      WarningPreviewPayload
+ * - warning:dismissed    { warningId: string; sessionId: string; action: 'confirm' | 'cancel' }
  * - animation:state-change  { state: string }
- * - custom-command:open-form   {} | { command: CommandDefinition }
+ * - custom-command:open-form   {} | { category: string } | { command: CommandDefinition }
  * - custom-command:close-form  {}
+ * - category-form:open         {} | { category: CategoryDefinition }
+ * - command-pack:import        void
+ * - command-pack:export        { category: string | null; name: string }
+ * - command-pack:review-project  { file: ProjectCommandFile; takenCommandIds: string[] }
+ * - command-template:open      { command: CommandDefinition; run?: boolean }
+ * - workflow:run         { workflow: WorkflowDefinition }
+ * - workflow:progress    WorkflowProgress
+ * - workflow:continue    void
+ * - workflow:stop        void
  * - config:changed       { key: string; value: any }
- * - terminal:focused     {}
- * - terminal:blurred     {}
- * - terminal:resized     { cols: number; rows: number }
+ * - terminal:focused     { sessionId: string }
+ * - terminal:blurred     { sessionId: string }
+ * - terminal:resized     { sessionId: string; cols: number; rows: number }
+ * - session:created      { sessionId: string }
+ * - session:activated    { sessionId: string; profileId: string | null; defaultCategory: string | null }
+ * - session:closed       { sessionId: string }
+ * - tabs:changed         { tabs: { tabId: string; title: string; exited: boolean }[]; activeTabId: string | null }
+ * - tab:new-requested       { profileId?: string | null }
+ * - tab:activate-requested  { tabId: string }
+ * - tab:close-requested     { tabId: string }
  * - error:show           { message: string; details?: string }
  */
 
@@ -2,21 +2,32 @@
  * CommandCanvas - Explanation Panel
  *
  * Displays contextual explanation text when a command button is
- * hovered over or selected in the command panel.
+ * hovered over or selected in the command panel, and the progress of a
+ * running workflow.
  *
  * Behavior:
  * - On command:selected -> show explanation (persists until another is selected)
  * - On command:hovered  -> show explanation (temporary)
- * - On command:hover-end -> revert to selected explanation, or clear if none
+ * - On command:hover-end -> revert to workflow progress or the selected
+ *                           explanation, or clear if neither
+ * - On workflow:progress -> show the workflow's steps, the current step's
+ *                           explanation and Continue/Stop buttons; persists
+ *                           while the workflow runs and after it ends,
+ *                           until a command is selected
+ *
+ * Events published:
+ * - workflow:continue  void
+ * - workflow:stop      void
  *
  * Events subscribed to:
- * - command:selected  { command, explanation, id }
- * - command:hovered   { explanation, id }
- * - command:hover-end void
+ * - command:selected   { command, explanation, id }
+ * - command:hovered    { explanation, id }
+ * - command:hover-end  void
+ * - workflow:progress  WorkflowProgress
  */
 
 import { eventBus } from './event-bus';
-import type { CommandExplanation } from '../shared/types';
+import type { CommandExplanation, WorkflowProgress } from '../shared/types';
 
 // ---------------------------------------------------------------------------
 // Module state
@@ -34,6 +45,12 @@ let selectedExplanation: CommandExplanation | null = null;
 /** Whether the panel is currently showing a hover-triggered explanation */
 let isShowingHover: boolean = false;
 
+/** The workflow progress display element */
+let workflowEl: HTMLElement | null = null;
+
+/** Progress of the current or last workflow, while it is displayed */
+let workflowProgress: WorkflowProgress | null = null;
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -50,6 +67,11 @@ export function init(container: HTMLElement): void {
   textEl.className = 'ep-text';
   containerEl.appendChild(textEl);
 
+  workflowEl = document.createElement('div');
+  workflowEl.className = 'ep-workflow';
+  workflowEl.style.display = 'none';
+  containerEl.appendChild(workflowEl);
+
   // Subscribe to events
   eventBus.on('command:selected', (payload: { command: string; explanation: string; id: string }) => {
     selectedExplanation = {
@@ -57,6 +79,9 @@ export function init(container: HTMLElement): void {
       commandId: payload.id,
     };
     isShowingHover = false;
+    // A running workflow keeps the panel; its buttons are still needed
+    if (workflowProgress && isWorkflowActive(workflowProgress)) return;
+    workflowProgress = null;
     show(selectedExplanation);
   });
 
@@ -71,14 +96,23 @@ export function init(container: HTMLElement): void {
   eventBus.on('command:hover-end', () => {
     if (isShowingHover) {
       isShowingHover = false;
-      // Revert to selected explanation if one exists, otherwise clear
-      if (selectedExplanation) {
+      // Revert to workflow progress or the selected explanation if one exists, otherwise clear
+      if (workflowProgress) {
+        showWorkflow(workflowProgress);
+      } else if (selectedExplanation) {
         show(selectedExplanation);
       } else {
         clear();
       }
     }
   });
+
+  eventBus.on('workflow:progress', (payload: WorkflowProgress) => {
+    workflowProgress = payload;
+    if (!isShowingHover) {
+      showWorkflow(payload);
+    }
+  });
 }
 
 /**
@@ -87,6 +121,10 @@ export function init(container: HTMLElement): void {
 export function show(explanation: { text: string; commandId: string }): void {
   if (!textEl) return;
 
+  if (workflowEl) {
+    workflowEl.style.display = 'none';
+  }
+  textEl.style.display = '';
   textEl.textContent = explanation.text;
   textEl.classList.add('ep-text--visible');
 }
@@ -102,3 +140,89 @@ export function clear(): void {
   selectedExplanation = null;
   isShowingHover = false;
 }
+
+// ---------------------------------------------------------------------------
+// Internal: Workflow progress
+// ---------------------------------------------------------------------------
+
+/**
+ * Replaces the explanation text with a workflow's progress: one marker
+ * per step, a status line and the buttons that apply.
+ */
+function showWorkflow(progress: WorkflowProgress): void {
+  if (!textEl || !workflowEl) return;
+
+  textEl.style.display = 'none';
+  workflowEl.style.display = '';
+  workflowEl.textContent = '';
+
+  const stepsEl = document.createElement('span');
+  stepsEl.className = 'ep-workflow-steps';
+  progress.steps.forEach((step, index) => {
+    const marker = document.createElement('span');
+    marker.className = `ep-workflow-step ep-workflow-step--${step.status}`;
+    if (index === progress.currentStep && isWorkflowActive(progress)) {
+      marker.classList.add('ep-workflow-step--current');
+    }
+    marker.title = `${index + 1}. ${step.command} (${step.status})`;
+    stepsEl.appendChild(marker);
+  });
+  workflowEl.appendChild(stepsEl);
+
+  const statusEl = document.createElement('span');
+  statusEl.className = 'ep-workflow-text';
+  statusEl.textContent = describeWorkflow(progress);
+  statusEl.title = statusEl.textContent;
+  workflowEl.appendChild(statusEl);
+
+  if (progress.state === 'confirming') {
+    workflowEl.appendChild(createButton('Continue', 'workflow:continue', true));
+  }
+  if (isWorkflowActive(progress)) {
+    workflowEl.appendChild(createButton('Stop', 'workflow:stop', false));
+  }
+}
+
+/**
+ * Builds the status line of a workflow's progress.
+ */
+function describeWorkflow(progress: WorkflowProgress): string {
+  const index = progress.currentStep;
+  const step = progress.steps[index];
+  const position = `${index + 1} of ${progress.steps.length}`;
+  const note = progress.message ? ` ${progress.message}` : '';
+
+  switch (progress.state) {
+    case 'running':
+      return `${progress.name} · Step ${position}: ${step.command} — ${step.explanation}`;
+    case 'confirming':
+      return `${progress.name} · Next, step ${position}: ${step.command} — ${step.explanation}`;
+    case 'finished': {
+      const failed = progress.steps.filter((s) => s.status === 'failed').length;
+      return failed > 0
+        ? `${progress.name} finished; ${failed} of ${progress.steps.length} steps failed.`
+        : `${progress.name} finished.`;
+    }
+    case 'failed': {
+      const exit = step.exitCode !== null ? ` (exit code ${step.exitCode})` : '';
+      return `${progress.name} failed at step ${position}: ${step.command}${exit}.${note}`;
+    }
+    case 'stopped':
+      return `${progress.name} stopped at step ${position}.${note}`;
+  }
+}
+
+function createButton(label: string, event: string, primary: boolean): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = primary ? 'ep-workflow-btn ep-workflow-btn--primary' : 'ep-workflow-btn';
+  button.textContent = label;
+  button.addEventListener('click', () => {
+    eventBus.emit(event);
+  });
+  return button;
+}
+
+function isWorkflowActive(progress: WorkflowProgress): boolean {
+  return progress.state === 'running' || progress.state === 'confirming';
+}
@@ -9,24 +9,39 @@
  *  11. Event bus instantiated (singleton, on import)
  *  12. Load configuration from main process
  *  13. Initialize animation engine
- *  14. Initialize terminal renderer
- *  15. Spawn shell
- *  16. Detect project types
+ *  14. Initialize terminal renderer and session tabs
+ *  15. Restore saved tabs and panes, spawning a shell per pane
+ *  16. Detect project types, then re-detect whenever the directory changes
  *  17. Initialize command panel
- *  18. Initialize explanation panel
- *  19. Initialize warning overlay
+ *  18. Initialize explanation panel and workflow runner
+ *  19. Initialize warning overlay, modal forms and command palette
  *  20. Focus terminal
  */
 
 import { eventBus } from './event-bus';
 import * as terminalRenderer from './terminal-renderer';
+import * as sessionTabs from './session-tabs';
 import * as animationEngine from './animation-engine';
 import * as commandPanel from './command-panel';
 import * as explanationPanel from './explanation-panel';
 import * as warningOverlay from './warning-overlay';
 import * as customCommandForm from './custom-command-form';
+import * as categoryForm from './category-form';
+import * as commandPackDialog from './command-pack-dialog';
+import * as commandTemplateForm from './command-template-form';
+import * as commandPalette from './command-palette';
+import * as commandExecution from './command-execution';
+import * as projectTracker from './project-tracker';
+import * as workflowRunner from './workflow-runner';
 import * as logger from './logger';
-import type { AppConfig, WarningDisplayPayload } from '../shared/types';
+import type {
+  AppConfig,
+  ProjectCommandFile,
+  ProjectDetectionResult,
+  ProjectMetadata,
+  WarningDisplayPayload,
+  WarningPreviewPayload,
+} from '../shared/types';
 
 /**
  * Default configuration used as fallback when config loading fails.
@@ -38,6 +53,7 @@ const DEFAULT_CONFIG: AppConfig = {
     defaultCwd: null,
     env: {},
     args: [],
+    shellIntegration: true,
   },
   animation: {
     enabled: true,
@@ -78,8 +94,23 @@ const DEFAULT_CONFIG: AppConfig = {
       brightCyan: '#94e2d5',
       brightWhite: '#a6adc8',
     },
+    paneLayouts: [],
+    recentCommandIds: [],
+    defaultExecution: 'insert',
   },
   customCommands: [],
+  commandPlacements: {},
+  workflows: [],
+  profiles: [],
+  projectDetection: {
+    boundaries: ['~'],
+    detectors: [],
+    trustedCommandFiles: {},
+  },
+  categories: {
+    userDefined: [],
+    alwaysVisible: ['git', 'node', 'custom'],
+  },
 };
 
 /**
@@ -117,7 +148,18 @@ async function initialize(): Promise<void> {
     }
   }
 
-  // Step 14: Initialize terminal renderer
+  // Step 14: Initialize terminal renderer and session tabs
+  const sessionTabsEl = document.getElementById('session-tabs');
+  if (sessionTabsEl) {
+    try {
+      sessionTabs.init(sessionTabsEl);
+      sessionTabs.setProfiles(config.profiles);
+      logger.info('Session tabs initialized');
+    } catch (err) {
+      logger.warn('Session tabs initialization failed', { error: String(err) });
+    }
+  }
+
   const terminalOutput = document.getElementById('terminal-output');
   if (terminalOutput) {
     terminalRenderer.init(terminalOutput);
@@ -128,11 +170,7 @@ async function initialize(): Promise<void> {
     return;
   }
 
-  // Step 15: Spawn shell
-  const dims = terminalRenderer.getDimensions();
-  const cols = dims?.cols ?? 80;
-  const rows = dims?.rows ?? 24;
-
+  // Step 15: Restore saved tabs and panes, spawning a shell per pane
   // Determine the working directory
   let cwd: string;
   try {
@@ -143,37 +181,50 @@ async function initialize(): Promise<void> {
   }
 
   try {
-    window.api.shell.spawn(cwd, cols, rows);
-    eventBus.emit('shell:spawned', {});
-    logger.info('Shell spawned', { cwd, cols, rows });
+    terminalRenderer.restoreLayout(config.ui.paneLayouts, cwd);
   } catch (err) {
     logger.error('Failed to spawn shell', { error: String(err) });
   }
 
-  // Step 16: Detect project types
+  // Step 16: Detect project types, then follow the focused shell's directory
   let projectTypes: string[] = [];
+  let projectMetadata: ProjectMetadata | null = null;
+  let projectCommandFile: ProjectCommandFile | null = null;
   try {
-    projectTypes = await window.api.project.detect(cwd);
-    eventBus.emit('project:detected', { types: projectTypes });
-    logger.info('Project types detected', { types: projectTypes });
+    const detection: ProjectDetectionResult = await window.api.project.detect(cwd);
+    projectTypes = detection.types;
+    projectMetadata = detection.metadata;
+    projectCommandFile = detection.commandFile;
+    eventBus.emit('project:detected', {
+      types: projectTypes,
+      directory: cwd,
+      roots: detection.roots,
+      metadata: detection.metadata,
+      commandFile: detection.commandFile,
+    });
+    logger.info('Project types detected', { types: projectTypes, roots: detection.roots });
   } catch (err) {
     logger.warn('Project detection failed', { error: String(err) });
   }
+  projectTracker.init(cwd);
 
   // Step 17: Initialize command panel
+  commandExecution.setDefaultExecution(config.ui.defaultExecution);
   const commandPanelEl = document.getElementById('command-panel');
   if (commandPanelEl) {
     try {
       commandPanel.init(commandPanelEl);
-      const alwaysVisible = ['git', 'node'];
-      commandPanel.setVisibleCategories([...new Set([...alwaysVisible, ...projectTypes, 'custom'])]);
+      commandPanel.setProjectMetadata(projectMetadata);
+      commandPanel.setProjectCommandFile(projectCommandFile);
+      commandPanel.setProjectTypes(projectTypes);
       logger.info('Command panel initialized');
     } catch (err) {
       logger.warn('Command panel initialization failed', { error: String(err) });
     }
   }
 
-  // Step 18: Initialize explanation panel
+  // Step 18: Initialize explanation panel and the workflow runner, whose
+  // progress it displays
   const explanationPanelEl = document.getElementById('explanation-panel');
   if (explanationPanelEl) {
     try {
@@ -183,8 +234,15 @@ async function initialize(): Promise<void> {
       logger.warn('Explanation panel initialization failed', { error: String(err) });
     }
   }
+  workflowRunner.init(terminalRenderer.getActiveSessionId());
 
-  // Step 19: Initialize warning overlay and custom command form
+  // Step 19: Initialize warning overlay, custom command and category forms, command pack dialog,
+  // template form and command palette
+  const commandSource = {
+    getCommands: commandPanel.getCommands,
+    getCategoryLabel: commandPanel.getCategoryLabel,
+    getCategories: commandPanel.getCategories,
+  };
   const warningOverlayEl = document.getElementById('warning-overlay');
   if (warningOverlayEl) {
     try {
@@ -198,17 +256,60 @@ async function initialize(): Promise<void> {
   const customCommandModalEl = document.getElementById('custom-command-modal');
   if (customCommandModalEl) {
     try {
-      customCommandForm.init(customCommandModalEl);
+      customCommandForm.init(customCommandModalEl, commandSource);
       logger.info('Custom command form initialized');
     } catch (err) {
       logger.warn('Custom command form initialization failed', { error: String(err) });
     }
   }
 
+  const categoryModalEl = document.getElementById('category-modal');
+  if (categoryModalEl) {
+    try {
+      categoryForm.init(categoryModalEl, commandSource);
+      logger.info('Category form initialized');
+    } catch (err) {
+      logger.warn('Category form initialization failed', { error: String(err) });
+    }
+  }
+
+  const commandPackModalEl = document.getElementById('command-pack-modal');
+  if (commandPackModalEl) {
+    try {
+      commandPackDialog.init(commandPackModalEl);
+      logger.info('Command pack dialog initialized');
+    } catch (err) {
+      logger.warn('Command pack dialog initialization failed', { error: String(err) });
+    }
+  }
+
+  const commandTemplateModalEl = document.getElementById('command-template-modal');
+  if (commandTemplateModalEl) {
+    try {
+      commandTemplateForm.init(commandTemplateModalEl, terminalRenderer.getActiveSessionId());
+      logger.info('Command template form initialized');
+    } catch (err) {
+      logger.warn('Command template form initialization failed', { error: String(err) });
+    }
+  }
+
+  const commandPaletteEl = document.getElementById('command-palette');
+  if (commandPaletteEl) {
+    try {
+      commandPalette.init(commandPaletteEl, commandSource, config.ui.recentCommandIds);
+      logger.info('Command palette initialized');
+    } catch (err) {
+      logger.warn('Command palette initialization failed', { error: String(err) });
+    }
+  }
+
   // Wire up warning IPC callback to event bus
   window.api.warning.onWarning((payload: WarningDisplayPayload) => {
     eventBus.emit('warning:show', payload);
   });
+  window.api.warning.onPreview((payload: WarningPreviewPayload) => {
+    eventBus.emit('warning:preview', payload);
+  });
 
   // Step 20: Focus terminal
   terminalRenderer.focus();
@@ -0,0 +1,141 @@
+/**
+ * CommandCanvas - Project Tracker
+ *
+ * Keeps project detection in step with the directory the user is actually
+ * in. Whenever the focused session's shell changes directory, or focus
+ * moves to a session in another directory, project detection runs again
+ * for that directory and the result is published as project:detected.
+ * The main process reports each shell's starting directory as its first
+ * shell:cwd-changed, so a tab that never changes directory is known too.
+ *
+ * Bursts of directory changes (e.g. a script that cd's around) are
+ * debounced; results are cached per directory by the main process.
+ * When the main process reports that the detected package.json or a task
+ * runner file changed on disk, the current directory is detected again
+ * so the commands generated from them follow the files. The same happens
+ * when the project's command file changes or is approved.
+ *
+ * Events published:
+ * - project:detected  { types: string[], directory, roots, metadata, commandFile }
+ *
+ * Events subscribed to:
+ * - shell:cwd-changed  { sessionId, cwd }
+ * - session:activated  { sessionId }
+ * - session:closed     { sessionId }
+ */
+
+import { eventBus } from './event-bus';
+import * as logger from './logger';
+import type { ProjectDetectionResult } from '../shared/types';
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** Last known working directory of each session, from its spawn on */
+const sessionCwds = new Map<string, string>();
+
+/** The session whose directory drives detection */
+let activeSessionId: string | null = null;
+
+/** Directory of the last published detection */
+let detectedDirectory: string | null = null;
+
+/** Pending debounced detection */
+let detectTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Incremented per detection so late results for an old directory are dropped */
+let detectEpoch = 0;
+
+/** Delay after the last directory change before detection runs */
+const DETECT_DEBOUNCE_MS = 300;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Starts tracking session directories.
+ *
+ * @param initialDirectory - Directory detection already ran for at startup,
+ *                           so the first matching report is not re-detected
+ */
+export function init(initialDirectory: string | null = null): void {
+  detectedDirectory = initialDirectory;
+
+  eventBus.on('shell:cwd-changed', (payload: { sessionId: string; cwd: string }) => {
+    sessionCwds.set(payload.sessionId, payload.cwd);
+    if (payload.sessionId === activeSessionId) {
+      scheduleDetect();
+    }
+  });
+
+  eventBus.on('session:activated', (payload: { sessionId: string }) => {
+    activeSessionId = payload.sessionId;
+    if (sessionCwds.has(payload.sessionId)) {
+      scheduleDetect();
+    }
+  });
+
+  window.api.project.onChanged(() => {
+    if (detectedDirectory) {
+      detect(detectedDirectory);
+    }
+  });
+
+  eventBus.on('session:closed', (payload: { sessionId: string }) => {
+    sessionCwds.delete(payload.sessionId);
+    if (payload.sessionId === activeSessionId) {
+      activeSessionId = null;
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Runs detection for the active session's directory once changes settle.
+ */
+function scheduleDetect(): void {
+  if (detectTimer !== null) {
+    clearTimeout(detectTimer);
+  }
+
+  detectTimer = setTimeout(() => {
+    detectTimer = null;
+    const directory = activeSessionId ? sessionCwds.get(activeSessionId) : undefined;
+    if (directory && directory !== detectedDirectory) {
+      detect(directory);
+    }
+  }, DETECT_DEBOUNCE_MS);
+}
+
+/**
+ * Detects project types in a directory and publishes the result.
+ */
+async function detect(directory: string): Promise<void> {
+  const epoch = ++detectEpoch;
+  detectedDirectory = directory;
+
+  try {
+    const result: ProjectDetectionResult = await window.api.project.detect(directory);
+    if (epoch !== detectEpoch) return;
+
+    eventBus.emit('project:detected', {
+      types: result.types,
+      directory,
+      roots: result.roots,
+      metadata: result.metadata,
+      commandFile: result.commandFile,
+    });
+    logger.info('Project types detected', { directory, types: result.types, roots: result.roots });
+  } catch (err) {
+    if (epoch === detectEpoch) {
+      // Allow a retry the next time this directory is reported
+      detectedDirectory = null;
+    }
+    logger.warn('Project detection failed', { directory, error: String(err) });
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * CommandCanvas - Session Tabs
+ *
+ * Renders the tab strip above the terminal area: one tab per terminal
+ * tab (each of which may hold several split panes), a close button on
+ * each tab and a "+" button to open a new tab. When shell profiles are
+ * configured, the "+" button opens a picker to choose which profile the
+ * new tab runs. The tab strip owns no terminals itself; it only reflects
+ * the tab list published by the terminal renderer and publishes requests
+ * that the renderer acts on.
+ *
+ * Events published:
+ * - tab:new-requested       { profileId } (null for the default profile)
+ * - tab:activate-requested  { tabId }
+ * - tab:close-requested     { tabId }
+ *
+ * Events subscribed to:
+ * - tabs:changed  { tabs: { tabId, title, exited }[], activeTabId }
+ */
+
+import { eventBus } from './event-bus';
+import type { ShellProfile } from '../shared/types';
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+interface TabInfo {
+  tabId: string;
+  title: string;
+  exited: boolean;
+}
+
+/** The root container element passed in via init() */
+let containerEl: HTMLElement | null = null;
+
+/** Tab list element (holds one entry per tab) */
+let tabListEl: HTMLElement | null = null;
+
+/** Tabs in creation order */
+let tabs: TabInfo[] = [];
+
+/** The tab that is highlighted */
+let activeTabId: string | null = null;
+
+/** Profiles offered by the "+" button's picker */
+let profiles: ShellProfile[] = [];
+
+/** The open profile picker, if any */
+let profileMenuEl: HTMLElement | null = null;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Initializes the session tab strip inside the given container element.
+ */
+export function init(container: HTMLElement): void {
+  containerEl = container;
+
+  tabListEl = document.createElement('div');
+  tabListEl.className = 'st-tab-list';
+  tabListEl.setAttribute('role', 'tablist');
+  containerEl.appendChild(tabListEl);
+
+  const newButton = document.createElement('button');
+  newButton.className = 'st-new-btn';
+  newButton.type = 'button';
+  newButton.textContent = '+';
+  newButton.title = 'New tab (Ctrl+Shift+T)';
+  newButton.addEventListener('click', (e) => {
+    e.stopPropagation();
+    newButton.blur();
+    if (profiles.length === 0) {
+      eventBus.emit('tab:new-requested', { profileId: null });
+    } else if (profileMenuEl) {
+      closeProfileMenu();
+    } else {
+      openProfileMenu(newButton);
+    }
+  });
+  containerEl.appendChild(newButton);
+
+  document.addEventListener('click', closeProfileMenu);
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') closeProfileMenu();
+  });
+
+  eventBus.on('tabs:changed', (payload: { tabs: TabInfo[]; activeTabId: string | null }) => {
+    tabs = payload.tabs;
+    activeTabId = payload.activeTabId;
+    render();
+  });
+}
+
+/**
+ * Sets the shell profiles offered when opening a new tab.
+ * Profiles without an ID are skipped.
+ */
+export function setProfiles(list: ShellProfile[]): void {
+  profiles = (Array.isArray(list) ? list : []).filter(
+    (profile) => profile && typeof profile.id === 'string' && profile.id !== ''
+  );
+  closeProfileMenu();
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Opens the profile picker below the "+" button. The first entry is the
+ * default shell, followed by the configured profiles.
+ */
+function openProfileMenu(anchor: HTMLElement): void {
+  if (!containerEl) return;
+
+  const menu = document.createElement('div');
+  menu.className = 'st-profile-menu';
+  menu.setAttribute('role', 'menu');
+
+  const entries: Array<{ profileId: string | null; label: string }> = [
+    { profileId: null, label: 'Default shell' },
+    ...profiles.map((profile) => ({ profileId: profile.id, label: profile.name || profile.id })),
+  ];
+
+  for (const entry of entries) {
+    const item = document.createElement('button');
+    item.className = 'st-profile-item';
+    item.type = 'button';
+    item.setAttribute('role', 'menuitem');
+    item.textContent = entry.label;
+    item.addEventListener('click', (e) => {
+      e.stopPropagation();
+      closeProfileMenu();
+      eventBus.emit('tab:new-requested', { profileId: entry.profileId });
+    });
+    menu.appendChild(item);
+  }
+
+  menu.style.left = `${anchor.offsetLeft}px`;
+  menu.style.top = `${anchor.offsetTop + anchor.offsetHeight}px`;
+  containerEl.appendChild(menu);
+  profileMenuEl = menu;
+}
+
+/**
+ * Closes the profile picker if it is open.
+ */
+function closeProfileMenu(): void {
+  if (profileMenuEl) {
+    profileMenuEl.remove();
+    profileMenuEl = null;
+  }
+}
+
+/**
+ * Renders the tab list.
+ */
+function render(): void {
+  if (!tabListEl) return;
+
+  tabListEl.textContent = '';
+
+  for (const tab of tabs) {
+    const tabEl = document.createElement('div');
+    tabEl.className = 'st-tab';
+    tabEl.setAttribute('role', 'tab');
+    tabEl.dataset.tabId = tab.tabId;
+    if (tab.tabId === activeTabId) {
+      tabEl.classList.add('st-tab--active');
+      tabEl.setAttribute('aria-selected', 'true');
+    }
+    if (tab.exited) {
+      tabEl.classList.add('st-tab--exited');
+    }
+
+    const label = document.createElement('span');
+    label.className = 'st-tab-label';
+    label.textContent = tab.title;
+    tabEl.appendChild(label);
+
+    const closeButton = document.createElement('button');
+    closeButton.className = 'st-tab-close';
+    closeButton.type = 'button';
+    closeButton.textContent = '×';
+    closeButton.title = 'Close tab';
+    closeButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      eventBus.emit('tab:close-requested', { tabId: tab.tabId });
+    });
+    tabEl.appendChild(closeButton);
+
+    tabEl.addEventListener('click', () => {
+      eventBus.emit('tab:activate-requested', { tabId: tab.tabId });
+    });
+
+    tabListEl.appendChild(tabEl);
+  }
+}
@@ -5,12 +5,48 @@
  * pipes user input to the preload API and shell output to the
  * terminal display.
  *
+ * The terminal area holds one or more tabs. Each tab holds a binary tree
+ * of panes split horizontally or vertically, and every pane is backed by
+ * its own shell session (one xterm instance bound to one PTY in main).
+ * Only the active tab is visible; commands, writes and focus always
+ * target the focused pane of the active tab.
+ *
+ * Keyboard shortcuts (handled while a terminal has focus):
+ * - Alt+Shift+Plus   split the focused pane vertically (new pane on the right)
+ * - Alt+Shift+Minus  split the focused pane horizontally (new pane below)
+ * - Alt+Arrow        move focus to the neighbouring pane
+ * - Ctrl+Shift+W     close the focused pane
+ * - Ctrl+Shift+T     open a new tab
+ * - Ctrl+Shift+P     kept from the shell; the command palette opens on it
+ *
  * Public API (from ARCHITECTURE.md Section 12.7):
  * - init(container: HTMLElement): void
+ * - restoreLayout(layouts: PaneLayout[], cwd: string): void
+ * - createTab(cwd?: string | null, layout?: PaneLayout): string
+ * - splitPane(direction: PaneSplitDirection): void
+ * - closePane(sessionId?: string): void
  * - write(data: string): void
  * - insertCommand(command: string): void
+ * - runCommand(command: string): void
  * - focus(): void
  * - dispose(): void
+ *
+ * Events published:
+ * - tabs:changed       { tabs: { tabId, title, exited }[], activeTabId }
+ * - session:created    { sessionId }
+ * - session:activated  { sessionId, profileId, defaultCategory }
+ * - session:closed     { sessionId }
+ * - shell:spawned      { sessionId }
+ * - shell:exit         { sessionId, exitCode }
+ * - shell:command-started   { sessionId }
+ * - shell:command-finished  { sessionId, exitCode, durationMs }
+ * - shell:cwd-changed       { sessionId, cwd }
+ *
+ * Events subscribed to:
+ * - tab:new-requested       { profileId? } | void
+ * - tab:activate-requested  { tabId }
+ * - tab:close-requested     { tabId }
+ * - command:selected        { command, explanation, id, run? }
  */
 
 import { Terminal } from '@xterm/xterm';
@@ -18,23 +54,98 @@ import { FitAddon } from '@xterm/addon-fit';
 import '@xterm/xterm/css/xterm.css';
 import { eventBus } from './event-bus';
 import * as logger from './logger';
-import type { AppConfig } from '../shared/types';
+import type {
+  AppConfig,
+  PaneLayout,
+  PaneSplitDirection,
+  ShellCommandEvent,
+  ShellProfile,
+  TerminalThemeConfig,
+} from '../shared/types';
+
+/**
+ * A single terminal session: one xterm instance bound to one PTY in main.
+ */
+interface TerminalSession {
+  id: string;
+  terminal: Terminal;
+  fitAddon: FitAddon;
+  /** The pane element the terminal is mounted into */
+  element: HTMLElement;
+  resizeObserver: ResizeObserver;
+  /**
+   * The shell's working directory (live once main reports it); null until
+   * then if main chose the profile's directory
+   */
+  cwd: string | null;
+  /** Shell profile the session was opened with; null for the default */
+  profileId: string | null;
+  exited: boolean;
+  /** Debounce flag to prevent rapid shell restarts */
+  restartInProgress: boolean;
+}
+
+/** Runtime pane tree: like PaneLayout, but leaves point at live sessions */
+type PaneNode =
+  | { type: 'pane'; sessionId: string; profileId: string | null }
+  | {
+      type: 'split';
+      direction: PaneSplitDirection;
+      ratio: number;
+      first: PaneNode;
+      second: PaneNode;
+    };
+
+/**
+ * A terminal tab: a pane tree mounted into its own element.
+ */
+interface TerminalTab {
+  id: string;
+  title: string;
+  root: PaneNode;
+  element: HTMLElement;
+  focusedSessionId: string;
+}
+
+type FocusDirection = 'left' | 'right' | 'up' | 'down';
+
+const sessions = new Map<string, TerminalSession>();
+const tabs = new Map<string, TerminalTab>();
+let activeTabId: string | null = null;
+let sessionCounter = 0;
+let tabCounter = 0;
+let defaultCwd = '.';
+let currentConfig: AppConfig | null = null;
 
-let terminal: Terminal | null = null;
-let fitAddon: FitAddon | null = null;
-let resizeObserver: ResizeObserver | null = null;
 let containerElement: HTMLElement | null = null;
 let unsubscribeShellData: (() => void) | null = null;
 let unsubscribeShellExit: (() => void) | null = null;
-let unsubscribeCommandSelected: (() => void) | null = null;
+let unsubscribeShellCommand: (() => void) | null = null;
+let unsubscribeShellCwd: (() => void) | null = null;
+let busUnsubscribers: Array<() => void> = [];
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
 let shellListenerGeneration = 0;
 let shellDataEventCount = 0;
 let rapidDuplicateShellChunkCount = 0;
 let lastShellChunk = '';
+let lastShellChunkSessionId = '';
 let lastShellChunkAtMs = 0;
 
-/** Debounce flag to prevent rapid shell restarts */
-let restartInProgress = false;
+/** Smallest share of a split either pane may shrink to */
+const MIN_SPLIT_RATIO = 0.1;
+
+/** Upper bound on panes per tab, so a bad saved layout cannot spawn runaway shells */
+const MAX_PANES_PER_TAB = 8;
+
+/** Delay before layout changes are written to config */
+const PERSIST_DEBOUNCE_MS = 500;
+
+const ARROW_DIRECTIONS: Record<string, FocusDirection> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+};
 
 /**
  * Default terminal theme (Catppuccin Mocha).
@@ -64,12 +175,12 @@ const DEFAULT_THEME = {
 };
 
 /**
- * Initialize the xterm.js terminal inside the given container element.
- * Sets up data piping between the terminal and the shell process via
- * the preload API.
+ * Initialize the terminal renderer inside the given container element.
+ * Sets up shell output routing. No tab is created here; call
+ * restoreLayout() or createTab() once the working directory is known.
  */
 export function init(container: HTMLElement): void {
-  if (terminal) {
+  if (containerElement) {
     logger.warn('Terminal already initialized, disposing previous instance');
     dispose();
   }
@@ -78,41 +189,6 @@ export function init(container: HTMLElement): void {
   const listenerGeneration = ++shellListenerGeneration;
   logger.debug('Binding terminal shell listeners', { listenerGeneration });
 
-  // Create xterm.js terminal instance
-  terminal = new Terminal({
-    cursorBlink: true,
-    cursorStyle: 'block',
-    fontSize: 14,
-    fontFamily: 'monospace',
-    theme: DEFAULT_THEME,
-    allowProposedApi: true,
-    scrollback: 5000,
-    convertEol: true,
-  });
-
-  // Create and load the fit addon for auto-resizing
-  fitAddon = new FitAddon();
-  terminal.loadAddon(fitAddon);
-
-  // Open the terminal in the container
-  terminal.open(container);
-
-  // Initial fit
-  try {
-    fitAddon.fit();
-  } catch (err) {
-    logger.warn('Initial terminal fit failed, will retry on resize', { error: String(err) });
-  }
-
-  // Pipe user input from xterm to the shell process
-  terminal.onData((data: string) => {
-    try {
-      window.api.shell.write(data);
-    } catch (err) {
-      logger.error('Failed to write to shell', { error: String(err) });
-    }
-  });
-
   if (unsubscribeShellData) {
     unsubscribeShellData();
     unsubscribeShellData = null;
@@ -123,13 +199,24 @@ export function init(container: HTMLElement): void {
     unsubscribeShellExit = null;
   }
 
-  // Pipe shell output from the shell process to xterm
-  unsubscribeShellData = window.api.shell.onData((data: string) => {
+  if (unsubscribeShellCommand) {
+    unsubscribeShellCommand();
+    unsubscribeShellCommand = null;
+  }
+
+  if (unsubscribeShellCwd) {
+    unsubscribeShellCwd();
+    unsubscribeShellCwd = null;
+  }
+
+  // Route shell output from the shell processes to their xterm instances
+  unsubscribeShellData = window.api.shell.onData((sessionId: string, data: string) => {
     shellDataEventCount += 1;
     const now = Date.now();
-    if (data === lastShellChunk && now - lastShellChunkAtMs <= 50) {
+    if (data === lastShellChunk && sessionId === lastShellChunkSessionId && now - lastShellChunkAtMs <= 50) {
       rapidDuplicateShellChunkCount += 1;
       logger.warn('Potential duplicate shell data detected', {
+        sessionId,
         listenerGeneration,
         activeGeneration: shellListenerGeneration,
         rapidDuplicateShellChunkCount,
@@ -138,6 +225,7 @@ export function init(container: HTMLElement): void {
       });
     }
     lastShellChunk = data;
+    lastShellChunkSessionId = sessionId;
     lastShellChunkAtMs = now;
 
     if (listenerGeneration !== shellListenerGeneration) {
@@ -154,148 +242,353 @@ export function init(container: HTMLElement): void {
       });
     }
 
-    if (terminal) {
-      terminal.write(data);
+    const session = sessions.get(sessionId);
+    if (session) {
+      session.terminal.write(data);
     }
   });
 
   // Handle shell exit events
-  unsubscribeShellExit = window.api.shell.onExit((exitCode: number) => {
-    logger.debug('Shell exit callback invoked', {
-      listenerGeneration,
-      activeGeneration: shellListenerGeneration,
-      exitCode,
-    });
-    logger.info('Shell process exited', { exitCode });
-    eventBus.emit('shell:exit', { exitCode });
+  unsubscribeShellExit = window.api.shell.onExit((sessionId: string, exitCode: number) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      // Pane was closed by the user; nothing left to report
+      return;
+    }
+
+    logger.info('Shell process exited', { sessionId, exitCode });
+    session.exited = true;
+    eventBus.emit('shell:exit', { sessionId, exitCode });
+    emitTabsChanged();
 
     // Write restart instructions into the terminal
-    if (terminal) {
-      terminal.write(
-        '\r\n\x1b[31m[Shell process terminated unexpectedly (exit code: ' +
-        exitCode +
-        '). Press Enter to restart.]\x1b[0m\r\n'
-      );
-
-      // One-time listener to restart the shell on Enter
-      const disposable = terminal.onData((restartData: string) => {
-        if (restartData === '\r' || restartData === '\n') {
-          disposable.dispose();
-          restartShell();
-        }
+    session.terminal.write(
+      '\r\n\x1b[31m[Shell process terminated unexpectedly (exit code: ' +
+      exitCode +
+      '). Press Enter to restart.]\x1b[0m\r\n'
+    );
+
+    // One-time listener to restart the shell on Enter
+    const disposable = session.terminal.onData((restartData: string) => {
+      if (restartData === '\r' || restartData === '\n') {
+        disposable.dispose();
+        restartShell(session);
+      }
+    });
+  });
+
+  // Per-command events from shell integration (OSC 133 markers)
+  unsubscribeShellCommand = window.api.shell.onCommand((event: ShellCommandEvent) => {
+    if (!sessions.has(event.sessionId)) return;
+
+    if (event.phase === 'start') {
+      eventBus.emit('shell:command-started', { sessionId: event.sessionId });
+    } else if (event.phase === 'finish') {
+      logger.debug('Command finished', {
+        sessionId: event.sessionId,
+        exitCode: event.exitCode,
+        durationMs: event.durationMs,
+      });
+      eventBus.emit('shell:command-finished', {
+        sessionId: event.sessionId,
+        exitCode: event.exitCode,
+        durationMs: event.durationMs,
       });
     }
   });
 
-  // Listen for command:selected events to insert commands
-  unsubscribeCommandSelected = eventBus.on('command:selected', (payload: { command: string; explanation: string; id: string }) => {
-    insertCommand(payload.command);
-    focus();
-    eventBus.emit('command:inserted', { command: payload.command });
+  // Live working directory reported by main; splits and restarts reuse it
+  unsubscribeShellCwd = window.api.shell.onCwdChanged((sessionId: string, cwd: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+
+    session.cwd = cwd;
+    eventBus.emit('shell:cwd-changed', { sessionId, cwd });
   });
 
-  // Set up ResizeObserver for auto-fitting
-  resizeObserver = new ResizeObserver(() => {
-    if (fitAddon && terminal) {
-      try {
-        fitAddon.fit();
-        const dims = { cols: terminal.cols, rows: terminal.rows };
-        window.api.shell.resize(dims.cols, dims.rows);
-        eventBus.emit('terminal:resized', dims);
-      } catch (err) {
-        logger.debug('Terminal resize failed', { error: String(err) });
+  // Listen for command:selected events to insert commands
+  busUnsubscribers.push(
+    eventBus.on('command:selected', (payload: { command: string; explanation: string; id: string; run?: boolean }) => {
+      if (payload.run) {
+        runCommand(payload.command);
+      } else {
+        insertCommand(payload.command);
       }
-    }
-  });
-  resizeObserver.observe(container);
+      focus();
+      eventBus.emit('command:inserted', { command: payload.command });
+    })
+  );
 
-  // Emit focus/blur events
-  terminal.textarea?.addEventListener('focus', () => {
-    eventBus.emit('terminal:focused', {});
-  });
-  terminal.textarea?.addEventListener('blur', () => {
-    eventBus.emit('terminal:blurred', {});
-  });
+  // Tab management requests (from the session tab strip)
+  busUnsubscribers.push(
+    eventBus.on('tab:new-requested', (payload?: { profileId?: string | null }) => {
+      const profileId = payload?.profileId ?? null;
+      createTab(defaultCwd, profileId ? { type: 'pane', profileId } : { type: 'pane' });
+    }),
+    eventBus.on('tab:activate-requested', (payload: { tabId: string }) => {
+      activateTab(payload.tabId);
+    }),
+    eventBus.on('tab:close-requested', (payload: { tabId: string }) => {
+      closeTab(payload.tabId);
+    })
+  );
+
+  logger.info('Terminal renderer initialized');
+}
+
+/**
+ * Recreate the saved tabs and their pane layouts, spawning one shell per pane.
+ * Falls back to a single tab with a single pane when nothing valid was saved.
+ *
+ * @param layouts - Saved pane layouts from config.ui.paneLayouts
+ * @param cwd - Working directory for every restored shell
+ */
+export function restoreLayout(layouts: PaneLayout[], cwd: string): void {
+  defaultCwd = cwd;
+
+  const valid = (Array.isArray(layouts) ? layouts : [])
+    .map((layout) => sanitizeLayout(layout, { remaining: MAX_PANES_PER_TAB }))
+    .filter((layout): layout is PaneLayout => layout !== null);
+
+  if (valid.length === 0) {
+    createTab(cwd);
+    return;
+  }
+
+  const tabIds = valid.map((layout) => createTab(cwd, layout));
+  activateTab(tabIds[0]);
+  logger.info('Pane layout restored', { tabs: tabIds.length });
+}
+
+/**
+ * Create a new tab, spawn a shell for each of its panes and make it active.
+ *
+ * @param cwd - Working directory for the shells. Defaults to the directory
+ *              the first tab was opened in. Panes with a profile start in
+ *              the profile's directory instead.
+ * @param layout - Pane layout to build; a single pane if omitted
+ * @returns The new tab's ID
+ */
+export function createTab(cwd: string = defaultCwd, layout: PaneLayout = { type: 'pane' }): string {
+  if (!containerElement) {
+    throw new Error('Terminal renderer not initialized');
+  }
 
-  logger.info('Terminal renderer initialized', {
-    cols: terminal.cols,
-    rows: terminal.rows,
+  if (tabs.size === 0) {
+    defaultCwd = cwd;
+  }
+
+  tabCounter += 1;
+  const id = `tab-${tabCounter}`;
+
+  const element = document.createElement('div');
+  element.className = 'terminal-tab';
+  element.dataset.tabId = id;
+  containerElement.appendChild(element);
+
+  const root = buildPaneTree(layout, cwd);
+  const tab: TerminalTab = {
+    id,
+    title: findProfile(firstProfileId(root))?.name || `Shell ${tabCounter}`,
+    root,
+    element,
+    focusedSessionId: firstSessionId(root),
+  };
+  tabs.set(id, tab);
+
+  renderTab(tab);
+
+  // Show the tab before spawning so every PTY gets real dimensions
+  activateTab(id);
+  for (const sessionId of collectSessionIds(root)) {
+    spawnSession(sessionId);
+  }
+
+  schedulePersist();
+  return id;
+}
+
+/**
+ * Split the focused pane of the active tab, opening a new shell in the
+ * new half and moving focus to it.
+ *
+ * @param direction - 'vertical' for side by side, 'horizontal' for stacked
+ */
+export function splitPane(direction: PaneSplitDirection): void {
+  const tab = getActiveTab();
+  if (!tab) return;
+
+  if (collectSessionIds(tab.root).length >= MAX_PANES_PER_TAB) {
+    logger.warn('Cannot split pane: pane limit reached', { tabId: tab.id, max: MAX_PANES_PER_TAB });
+    return;
+  }
+
+  // The new pane inherits the focused pane's directory and profile
+  const target = tab.focusedSessionId;
+  const targetSession = sessions.get(target);
+  const profileId = targetSession?.profileId ?? null;
+  const newSession = createSession(targetSession ? targetSession.cwd : defaultCwd, profileId);
+
+  tab.root = replaceLeaf(tab.root, target, {
+    type: 'split',
+    direction,
+    ratio: 0.5,
+    first: { type: 'pane', sessionId: target, profileId },
+    second: { type: 'pane', sessionId: newSession.id, profileId },
   });
+
+  renderTab(tab);
+  fitTab(tab);
+  spawnSession(newSession.id);
+  focusPane(newSession.id);
+
+  logger.info('Pane split', { tabId: tab.id, direction, sessionId: newSession.id });
+  schedulePersist();
+}
+
+/**
+ * Close a pane and kill its shell. The sibling pane takes over the space.
+ * Closing the last pane of a tab closes the tab.
+ *
+ * @param sessionId - Pane to close; defaults to the focused pane of the active tab
+ */
+export function closePane(sessionId?: string): void {
+  const tab = sessionId ? findTabBySession(sessionId) : getActiveTab();
+  if (!tab) return;
+
+  const target = sessionId ?? tab.focusedSessionId;
+  if (tab.root.type === 'pane') {
+    closeTab(tab.id);
+    return;
+  }
+
+  tab.root = removeLeaf(tab.root, target) ?? tab.root;
+  destroySession(target);
+
+  if (tab.focusedSessionId === target) {
+    tab.focusedSessionId = firstSessionId(tab.root);
+  }
+
+  renderTab(tab);
+  fitTab(tab);
+  if (tab.id === activeTabId) {
+    focusPane(tab.focusedSessionId);
+  }
+
+  schedulePersist();
 }
 
 /**
- * Apply configuration to the terminal instance.
- * Called after config is loaded to update font size, font family, and theme.
+ * Apply configuration to every terminal instance.
+ * Called after config is loaded to update font size, font family, and theme
+ * (including per-profile theme overrides).
+ * Sessions created later pick up the same settings.
  */
 export function applyConfig(config: AppConfig): void {
-  if (!terminal) return;
+  currentConfig = config;
 
   const ui = config.ui;
-  terminal.options.fontSize = ui.terminalFontSize;
-  terminal.options.fontFamily = ui.terminalFontFamily;
-  terminal.options.theme = ui.terminalTheme;
+  for (const session of sessions.values()) {
+    session.terminal.options.fontSize = ui.terminalFontSize;
+    session.terminal.options.fontFamily = ui.terminalFontFamily;
+    session.terminal.options.theme = themeForProfile(session.profileId);
+  }
 
   // Re-fit after changing font metrics
-  if (fitAddon) {
-    try {
-      fitAddon.fit();
-    } catch (err) {
-      logger.debug('Terminal re-fit after config change failed', { error: String(err) });
-    }
+  const tab = getActiveTab();
+  if (tab) {
+    fitTab(tab);
   }
 }
 
 /**
- * Write data directly to the terminal display.
+ * Write data directly to the focused terminal display.
  * Used for programmatic output, not user input.
  */
 export function write(data: string): void {
-  if (terminal) {
-    terminal.write(data);
+  const session = getActiveSession();
+  if (session) {
+    session.terminal.write(data);
   }
 }
 
 /**
- * Insert a command string into the terminal.
- * Writes the command character-by-character to both the xterm display
- * and the shell process, so the shell sees the typed input.
+ * Insert a command string into the focused pane's shell.
+ * Writes the command to the shell process, so the shell sees the typed input.
  * Does NOT press Enter -- the user can edit the command first.
  */
 export function insertCommand(command: string): void {
-  if (!terminal) {
-    logger.warn('Cannot insert command: terminal not initialized');
+  const session = getActiveSession();
+  if (!session) {
+    logger.warn('Cannot insert command: no active terminal session');
     return;
   }
 
   // Write the command to the shell process so it becomes the current
   // input line. The shell will echo it back to xterm via shell:data.
   try {
-    window.api.shell.write(command);
+    window.api.shell.write(session.id, command);
   } catch (err) {
-    logger.error('Failed to insert command into shell', { error: String(err) });
+    logger.error('Failed to insert command into shell', { sessionId: session.id, error: String(err) });
   }
 }
 
 /**
- * Focus the terminal so it receives keyboard input.
+ * Run a command in the focused pane's shell: clear the input line
+ * (Ctrl+U), type the command and press Enter. Enter goes through the
+ * warning pipeline like a typed one.
+ */
+export function runCommand(command: string): void {
+  const session = getActiveSession();
+  if (!session) {
+    logger.warn('Cannot run command: no active terminal session');
+    return;
+  }
+
+  try {
+    window.api.shell.write(session.id, `\x15${command}\r`);
+  } catch (err) {
+    logger.error('Failed to run command in shell', { sessionId: session.id, error: String(err) });
+  }
+}
+
+/**
+ * Focus the focused pane's terminal so it receives keyboard input.
  */
 export function focus(): void {
-  if (terminal) {
-    terminal.focus();
+  const session = getActiveSession();
+  if (session) {
+    session.terminal.focus();
   }
 }
 
 /**
- * Get the current terminal dimensions (cols, rows).
- * Returns null if terminal is not initialized.
+ * Get the ID of the focused pane's session, or null if none exists.
+ */
+export function getActiveSessionId(): string | null {
+  return getActiveSession()?.id ?? null;
+}
+
+/**
+ * Get the working directory of the focused pane's shell, as last reported
+ * by main. Returns null if no session exists or the directory is not yet known.
+ */
+export function getActiveCwd(): string | null {
+  return getActiveSession()?.cwd ?? null;
+}
+
+/**
+ * Get the focused terminal's dimensions (cols, rows).
+ * Returns null if no session exists.
  */
 export function getDimensions(): { cols: number; rows: number } | null {
-  if (!terminal) return null;
-  return { cols: terminal.cols, rows: terminal.rows };
+  const session = getActiveSession();
+  if (!session) return null;
+  return { cols: session.terminal.cols, rows: session.terminal.rows };
 }
 
 /**
- * Clean up terminal resources.
+ * Clean up terminal resources. Kills every session's shell.
  */
 export function dispose(): void {
   shellListenerGeneration += 1;
@@ -310,37 +603,220 @@ export function dispose(): void {
     unsubscribeShellExit = null;
   }
 
-  if (unsubscribeCommandSelected) {
-    unsubscribeCommandSelected();
-    unsubscribeCommandSelected = null;
+  if (unsubscribeShellCommand) {
+    unsubscribeShellCommand();
+    unsubscribeShellCommand = null;
   }
 
-  if (resizeObserver) {
-    resizeObserver.disconnect();
-    resizeObserver = null;
+  if (unsubscribeShellCwd) {
+    unsubscribeShellCwd();
+    unsubscribeShellCwd = null;
   }
 
-  if (terminal) {
-    terminal.dispose();
-    terminal = null;
+  for (const unsub of busUnsubscribers) {
+    unsub();
   }
+  busUnsubscribers = [];
+
+  if (persistTimer !== null) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+
+  for (const sessionId of [...sessions.keys()]) {
+    destroySession(sessionId);
+  }
+  for (const tab of tabs.values()) {
+    tab.element.remove();
+  }
+  tabs.clear();
+  activeTabId = null;
 
-  fitAddon = null;
   containerElement = null;
 
   logger.info('Terminal renderer disposed');
 }
 
+// ---------------------------------------------------------------------------
+// Internal: Sessions
+// ---------------------------------------------------------------------------
+
 /**
- * Restart the shell process after it crashes.
+ * Create an xterm instance for a new session. The shell is not spawned
+ * until spawnSession() is called, once the pane is laid out.
+ *
+ * @param cwd - Starting directory; null to use the profile's directory
+ * @param profileId - Shell profile to launch; null for the default profile
+ */
+function createSession(cwd: string | null, profileId: string | null = null): TerminalSession {
+  sessionCounter += 1;
+  const id = `session-${sessionCounter}`;
+
+  const element = document.createElement('div');
+  element.className = 'terminal-pane';
+  element.dataset.sessionId = id;
+
+  // Create xterm.js terminal instance
+  const terminal = new Terminal({
+    cursorBlink: true,
+    cursorStyle: 'block',
+    fontSize: currentConfig?.ui.terminalFontSize ?? 14,
+    fontFamily: currentConfig?.ui.terminalFontFamily ?? 'monospace',
+    theme: themeForProfile(profileId),
+    allowProposedApi: true,
+    scrollback: 5000,
+    convertEol: true,
+  });
+
+  // Create and load the fit addon for auto-resizing
+  const fitAddon = new FitAddon();
+  terminal.loadAddon(fitAddon);
+
+  // Open the terminal in its own pane element
+  terminal.open(element);
+
+  const session: TerminalSession = {
+    id,
+    terminal,
+    fitAddon,
+    element,
+    resizeObserver: new ResizeObserver(() => fitSession(session)),
+    cwd,
+    profileId,
+    exited: false,
+    restartInProgress: false,
+  };
+  session.resizeObserver.observe(element);
+  sessions.set(id, session);
+
+  // Pipe user input from xterm to this session's shell process
+  terminal.onData((data: string) => {
+    try {
+      window.api.shell.write(id, data);
+    } catch (err) {
+      logger.error('Failed to write to shell', { sessionId: id, error: String(err) });
+    }
+  });
+
+  // Pane and tab shortcuts take priority over the shell
+  terminal.attachCustomKeyEventHandler(handleShortcut);
+
+  // Track which pane has focus, and emit focus/blur events
+  terminal.textarea?.addEventListener('focus', () => {
+    markFocused(id);
+    eventBus.emit('terminal:focused', { sessionId: id });
+  });
+  terminal.textarea?.addEventListener('blur', () => {
+    eventBus.emit('terminal:blurred', { sessionId: id });
+  });
+
+  eventBus.emit('session:created', { sessionId: id });
+  return session;
+}
+
+/**
+ * Look up a shell profile in the current config.
+ */
+function findProfile(profileId: string | null): ShellProfile | null {
+  if (!profileId || !currentConfig || !Array.isArray(currentConfig.profiles)) {
+    return null;
+  }
+  return currentConfig.profiles.find((profile) => profile && profile.id === profileId) ?? null;
+}
+
+/**
+ * The terminal theme for a session: the configured theme with the
+ * profile's overrides (if any) applied on top.
+ */
+function themeForProfile(profileId: string | null): TerminalThemeConfig {
+  const base = currentConfig?.ui.terminalTheme ?? DEFAULT_THEME;
+  const override = findProfile(profileId)?.terminalTheme;
+  return override ? { ...base, ...override } : base;
+}
+
+/**
+ * Spawn the shell process for a session, sized to its pane.
+ */
+function spawnSession(sessionId: string): void {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  fitSession(session);
+  try {
+    window.api.shell.spawn(
+      session.id,
+      session.cwd,
+      session.terminal.cols,
+      session.terminal.rows,
+      session.profileId
+    );
+    session.exited = false;
+    eventBus.emit('shell:spawned', { sessionId: session.id });
+    logger.info('Shell spawned', {
+      sessionId: session.id,
+      profileId: session.profileId,
+      cwd: session.cwd,
+      cols: session.terminal.cols,
+      rows: session.terminal.rows,
+    });
+  } catch (err) {
+    logger.error('Failed to spawn shell', { sessionId: session.id, error: String(err) });
+  }
+}
+
+/**
+ * Kill a session's shell and dispose its terminal.
+ */
+function destroySession(sessionId: string): void {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  try {
+    window.api.shell.kill(sessionId);
+  } catch (err) {
+    logger.error('Failed to kill shell', { sessionId, error: String(err) });
+  }
+
+  session.resizeObserver.disconnect();
+  session.terminal.dispose();
+  session.element.remove();
+  sessions.delete(sessionId);
+
+  eventBus.emit('session:closed', { sessionId });
+  logger.info('Session closed', { sessionId });
+}
+
+/**
+ * Fit a session's terminal to its pane and propagate the new size
+ * to the session's PTY. Panes in hidden tabs are skipped.
+ */
+function fitSession(session: TerminalSession): void {
+  if (session.element.clientWidth === 0 || session.element.clientHeight === 0) {
+    return;
+  }
+
+  try {
+    session.fitAddon.fit();
+    const dims = { cols: session.terminal.cols, rows: session.terminal.rows };
+    window.api.shell.resize(session.id, dims.cols, dims.rows);
+    eventBus.emit('terminal:resized', { sessionId: session.id, ...dims });
+  } catch (err) {
+    logger.debug('Terminal resize failed', { sessionId: session.id, error: String(err) });
+  }
+}
+
+/**
+ * Restart a session's shell process after it crashes.
  * Spawns a new shell with the terminal's current dimensions.
  */
-function restartShell(): void {
-  if (!terminal) return;
-  if (restartInProgress) return; // Prevent rapid restart loops
+function restartShell(session: TerminalSession): void {
+  if (!sessions.has(session.id)) return;
+  if (session.restartInProgress) return; // Prevent rapid restart loops
+
+  session.restartInProgress = true;
+  logger.info('Restarting shell process', { sessionId: session.id });
 
-  restartInProgress = true;
-  logger.info('Restarting shell process');
+  const terminal = session.terminal;
 
   // Clear the terminal
   terminal.clear();
@@ -348,24 +824,444 @@ function restartShell(): void {
   terminal.write('Restarting shell...\r\n');
 
   try {
-    // Use home directory as fallback CWD
-    const cwd = '.'; // The main process will resolve this
-    window.api.shell.spawn(cwd, terminal.cols, terminal.rows);
-    eventBus.emit('shell:spawned', {});
+    window.api.shell.spawn(session.id, session.cwd, terminal.cols, terminal.rows, session.profileId);
+    session.exited = false;
+    eventBus.emit('shell:spawned', { sessionId: session.id });
+    emitTabsChanged();
   } catch (err) {
-    logger.error('Failed to restart shell', { error: String(err) });
-    if (terminal) {
-      terminal.write('\r\n\x1b[31m[Failed to restart shell. Press Enter to try again.]\x1b[0m\r\n');
-      // Give the user another chance to retry
-      const retryDisposable = terminal.onData((retryData: string) => {
-        if (retryData === '\r' || retryData === '\n') {
-          retryDisposable.dispose();
-          restartShell();
-        }
-      });
-    }
+    logger.error('Failed to restart shell', { sessionId: session.id, error: String(err) });
+    terminal.write('\r\n\x1b[31m[Failed to restart shell. Press Enter to try again.]\x1b[0m\r\n');
+    // Give the user another chance to retry
+    const retryDisposable = terminal.onData((retryData: string) => {
+      if (retryData === '\r' || retryData === '\n') {
+        retryDisposable.dispose();
+        restartShell(session);
+      }
+    });
   } finally {
     // Allow restart again after a short cooldown
-    setTimeout(() => { restartInProgress = false; }, 1000);
+    setTimeout(() => { session.restartInProgress = false; }, 1000);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Tabs and focus
+// ---------------------------------------------------------------------------
+
+/**
+ * Make the given tab the visible one and focus its focused pane.
+ */
+function activateTab(tabId: string): void {
+  const tab = tabs.get(tabId);
+  if (!tab) {
+    logger.warn('Cannot activate unknown tab', { tabId });
+    return;
+  }
+
+  activeTabId = tabId;
+  for (const other of tabs.values()) {
+    other.element.classList.toggle('hidden', other.id !== tabId);
+  }
+
+  // The tab was hidden until now, so its pane sizes may be stale
+  fitTab(tab);
+  focusPane(tab.focusedSessionId);
+  emitTabsChanged();
+}
+
+/**
+ * Close a tab and kill every shell in it.
+ * If the last tab is closed, a fresh one is created in its place.
+ */
+function closeTab(tabId: string): void {
+  const tab = tabs.get(tabId);
+  if (!tab) return;
+
+  for (const sessionId of collectSessionIds(tab.root)) {
+    destroySession(sessionId);
+  }
+  tab.element.remove();
+  tabs.delete(tabId);
+  logger.info('Tab closed', { tabId });
+
+  if (activeTabId === tabId) {
+    activeTabId = null;
+    const remaining = Array.from(tabs.keys());
+    if (remaining.length > 0) {
+      activateTab(remaining[remaining.length - 1]);
+    } else {
+      createTab();
+    }
+  }
+
+  emitTabsChanged();
+  schedulePersist();
+}
+
+/**
+ * Give keyboard focus to a pane.
+ */
+function focusPane(sessionId: string): void {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  markFocused(sessionId);
+  session.terminal.focus();
+}
+
+/**
+ * Record a pane as its tab's focused pane and update the pane highlight.
+ */
+function markFocused(sessionId: string): void {
+  const tab = findTabBySession(sessionId);
+  if (!tab) return;
+
+  const changed = tab.focusedSessionId !== sessionId;
+  tab.focusedSessionId = sessionId;
+
+  for (const id of collectSessionIds(tab.root)) {
+    sessions.get(id)?.element.classList.toggle('terminal-pane--focused', id === sessionId);
+  }
+
+  if (changed || tab.id === activeTabId) {
+    const profileId = sessions.get(sessionId)?.profileId ?? null;
+    eventBus.emit('session:activated', {
+      sessionId,
+      profileId,
+      defaultCategory: findProfile(profileId)?.defaultCategory ?? null,
+    });
+  }
+}
+
+/**
+ * Move focus to the nearest pane in the given direction, measured from
+ * the centre of the focused pane.
+ */
+function moveFocus(direction: FocusDirection): void {
+  const tab = getActiveTab();
+  const current = getActiveSession();
+  if (!tab || !current) return;
+
+  const from = current.element.getBoundingClientRect();
+  const fromX = from.left + from.width / 2;
+  const fromY = from.top + from.height / 2;
+
+  let best: { id: string; distance: number } | null = null;
+  for (const id of collectSessionIds(tab.root)) {
+    if (id === current.id) continue;
+    const rect = sessions.get(id)?.element.getBoundingClientRect();
+    if (!rect) continue;
+
+    const inDirection =
+      (direction === 'left' && rect.right <= from.left + 1) ||
+      (direction === 'right' && rect.left >= from.right - 1) ||
+      (direction === 'up' && rect.bottom <= from.top + 1) ||
+      (direction === 'down' && rect.top >= from.bottom - 1);
+    if (!inDirection) continue;
+
+    const distance = Math.hypot(rect.left + rect.width / 2 - fromX, rect.top + rect.height / 2 - fromY);
+    if (!best || distance < best.distance) {
+      best = { id, distance };
+    }
+  }
+
+  if (best) {
+    focusPane(best.id);
+  }
+}
+
+/**
+ * xterm custom key handler for pane and tab shortcuts.
+ * Returns false for handled keys so xterm does not send them to the shell.
+ */
+function handleShortcut(e: KeyboardEvent): boolean {
+  let action: (() => void) | null = null;
+
+  if (e.altKey && e.shiftKey && !e.ctrlKey && (e.code === 'Equal' || e.code === 'NumpadAdd')) {
+    action = () => splitPane('vertical');
+  } else if (e.altKey && e.shiftKey && !e.ctrlKey && (e.code === 'Minus' || e.code === 'NumpadSubtract')) {
+    action = () => splitPane('horizontal');
+  } else if (e.altKey && !e.shiftKey && !e.ctrlKey && ARROW_DIRECTIONS[e.key]) {
+    const direction = ARROW_DIRECTIONS[e.key];
+    action = () => moveFocus(direction);
+  } else if (e.ctrlKey && e.shiftKey && !e.altKey && e.code === 'KeyW') {
+    action = () => closePane();
+  } else if (e.ctrlKey && e.shiftKey && !e.altKey && e.code === 'KeyT') {
+    action = () => createTab();
+  } else if (e.ctrlKey && e.shiftKey && !e.altKey && e.code === 'KeyP') {
+    // The command palette opens from its document-level listener
+    return false;
+  }
+
+  if (!action) {
+    return true;
+  }
+
+  // Swallow keypress/keyup of the same combination too, but act only once
+  if (e.type === 'keydown') {
+    e.preventDefault();
+    action();
+  }
+  return false;
+}
+
+/**
+ * Publish the tab list for the tab strip.
+ */
+function emitTabsChanged(): void {
+  eventBus.emit('tabs:changed', {
+    tabs: Array.from(tabs.values()).map((tab) => ({
+      tabId: tab.id,
+      title: tab.title,
+      exited: collectSessionIds(tab.root).some((id) => sessions.get(id)?.exited),
+    })),
+    activeTabId,
+  });
+}
+
+function getActiveTab(): TerminalTab | null {
+  return activeTabId ? tabs.get(activeTabId) ?? null : null;
+}
+
+function getActiveSession(): TerminalSession | null {
+  const tab = getActiveTab();
+  return tab ? sessions.get(tab.focusedSessionId) ?? null : null;
+}
+
+function findTabBySession(sessionId: string): TerminalTab | null {
+  for (const tab of tabs.values()) {
+    if (collectSessionIds(tab.root).includes(sessionId)) {
+      return tab;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fit every pane of a tab.
+ */
+function fitTab(tab: TerminalTab): void {
+  for (const id of collectSessionIds(tab.root)) {
+    const session = sessions.get(id);
+    if (session) {
+      fitSession(session);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Pane tree
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a runtime pane tree from a layout, creating a session per leaf.
+ * Leaves with a profile start in the profile's directory rather than `cwd`.
+ */
+function buildPaneTree(layout: PaneLayout, cwd: string): PaneNode {
+  if (layout.type === 'split') {
+    return {
+      type: 'split',
+      direction: layout.direction,
+      ratio: layout.ratio,
+      first: buildPaneTree(layout.first, cwd),
+      second: buildPaneTree(layout.second, cwd),
+    };
+  }
+  const profileId = layout.profileId ?? null;
+  return { type: 'pane', sessionId: createSession(profileId ? null : cwd, profileId).id, profileId };
+}
+
+/**
+ * Convert a runtime pane tree back to its persistable layout.
+ */
+function toLayout(node: PaneNode): PaneLayout {
+  if (node.type === 'split') {
+    return {
+      type: 'split',
+      direction: node.direction,
+      ratio: node.ratio,
+      first: toLayout(node.first),
+      second: toLayout(node.second),
+    };
   }
+  return node.profileId ? { type: 'pane', profileId: node.profileId } : { type: 'pane' };
+}
+
+/**
+ * Validate a saved layout, dropping malformed nodes and capping the
+ * number of panes. Returns null if nothing usable remains.
+ */
+function sanitizeLayout(value: unknown, budget: { remaining: number }): PaneLayout | null {
+  if (!value || typeof value !== 'object' || budget.remaining <= 0) {
+    return null;
+  }
+
+  const node = value as Record<string, unknown>;
+  if (node.type === 'pane') {
+    budget.remaining -= 1;
+    return typeof node.profileId === 'string' && node.profileId
+      ? { type: 'pane', profileId: node.profileId }
+      : { type: 'pane' };
+  }
+
+  if (node.type === 'split' && (node.direction === 'horizontal' || node.direction === 'vertical')) {
+    const first = sanitizeLayout(node.first, budget);
+    const second = sanitizeLayout(node.second, budget);
+    if (first && second) {
+      return { type: 'split', direction: node.direction, ratio: clampRatio(Number(node.ratio)), first, second };
+    }
+    return first ?? second;
+  }
+
+  return null;
+}
+
+function clampRatio(ratio: number): number {
+  if (!Number.isFinite(ratio)) return 0.5;
+  return Math.min(1 - MIN_SPLIT_RATIO, Math.max(MIN_SPLIT_RATIO, ratio));
+}
+
+function collectSessionIds(node: PaneNode): string[] {
+  if (node.type === 'pane') {
+    return [node.sessionId];
+  }
+  return [...collectSessionIds(node.first), ...collectSessionIds(node.second)];
+}
+
+function firstSessionId(node: PaneNode): string {
+  return node.type === 'pane' ? node.sessionId : firstSessionId(node.first);
+}
+
+function firstProfileId(node: PaneNode): string | null {
+  return node.type === 'pane' ? node.profileId : firstProfileId(node.first);
+}
+
+/**
+ * Return a copy of the tree with the given leaf replaced.
+ */
+function replaceLeaf(node: PaneNode, sessionId: string, replacement: PaneNode): PaneNode {
+  if (node.type === 'pane') {
+    return node.sessionId === sessionId ? replacement : node;
+  }
+  return {
+    ...node,
+    first: replaceLeaf(node.first, sessionId, replacement),
+    second: replaceLeaf(node.second, sessionId, replacement),
+  };
+}
+
+/**
+ * Return a copy of the tree with the given leaf removed; its sibling takes
+ * the parent split's place. Returns null if the tree was that single leaf.
+ */
+function removeLeaf(node: PaneNode, sessionId: string): PaneNode | null {
+  if (node.type === 'pane') {
+    return node.sessionId === sessionId ? null : node;
+  }
+  const first = removeLeaf(node.first, sessionId);
+  const second = removeLeaf(node.second, sessionId);
+  if (!first) return second;
+  if (!second) return first;
+  return { ...node, first, second };
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuild a tab's DOM from its pane tree. Existing pane elements are
+ * moved, not recreated, so terminal contents survive re-layout.
+ */
+function renderTab(tab: TerminalTab): void {
+  tab.element.textContent = '';
+  tab.element.appendChild(renderNode(tab.root));
+  markFocused(tab.focusedSessionId);
+}
+
+function renderNode(node: PaneNode): HTMLElement {
+  if (node.type === 'pane') {
+    const session = sessions.get(node.sessionId);
+    if (session) {
+      return session.element;
+    }
+    return document.createElement('div');
+  }
+
+  const splitEl = document.createElement('div');
+  splitEl.className = `pane-split pane-split--${node.direction}`;
+
+  const firstSlot = document.createElement('div');
+  firstSlot.className = 'pane-slot';
+  firstSlot.appendChild(renderNode(node.first));
+
+  const divider = document.createElement('div');
+  divider.className = 'pane-divider';
+  divider.setAttribute('role', 'separator');
+
+  const secondSlot = document.createElement('div');
+  secondSlot.className = 'pane-slot';
+  secondSlot.appendChild(renderNode(node.second));
+
+  const applyRatio = () => {
+    firstSlot.style.flex = `${node.ratio} 1 0`;
+    secondSlot.style.flex = `${1 - node.ratio} 1 0`;
+  };
+  applyRatio();
+
+  // Drag the divider to resize; the panes' ResizeObservers refit the terminals
+  divider.addEventListener('mousedown', (e: MouseEvent) => {
+    e.preventDefault();
+    const rect = splitEl.getBoundingClientRect();
+    splitEl.classList.add('pane-split--dragging');
+
+    const onMove = (ev: MouseEvent) => {
+      const position = node.direction === 'vertical'
+        ? (ev.clientX - rect.left) / rect.width
+        : (ev.clientY - rect.top) / rect.height;
+      node.ratio = clampRatio(position);
+      applyRatio();
+    };
+
+    const onUp = () => {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+      splitEl.classList.remove('pane-split--dragging');
+      schedulePersist();
+    };
+
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  });
+
+  splitEl.appendChild(firstSlot);
+  splitEl.appendChild(divider);
+  splitEl.appendChild(secondSlot);
+  return splitEl;
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * Save the pane layout of every tab to config.ui.paneLayouts, debounced
+ * so that divider drags and bursts of splits write once.
+ */
+function schedulePersist(): void {
+  if (persistTimer !== null) {
+    clearTimeout(persistTimer);
+  }
+
+  persistTimer = setTimeout(async () => {
+    persistTimer = null;
+    const paneLayouts = Array.from(tabs.values()).map((tab) => toLayout(tab.root));
+    try {
+      const ui = await window.api.config.get('ui');
+      await window.api.config.set('ui', { ...ui, paneLayouts });
+      logger.debug('Pane layout saved', { tabs: paneLayouts.length });
+    } catch (err) {
+      logger.warn('Failed to save pane layout', { error: String(err) });
+    }
+  }, PERSIST_DEBOUNCE_MS);
 }
@@ -3,10 +3,14 @@
  *
  * Displays a modal overlay when the warning engine detects a potentially
  * dangerous command. Shows the risk level, command text, description, and
- * recommendation. The user can choose to cancel or execute anyway.
+ * recommendation of the highest-risk matching rule, then lists any other
+ * rules the command matched. Rules with a preview command show its output
+ * once the main process has run it, e.g. the files `git clean -fd` would
+ * remove. The user can choose to cancel or execute anyway.
  *
  * Integration:
  * - Subscribes to `warning:show` events from the event bus
+ * - Subscribes to `warning:preview` events with the output of preview commands
  * - Publishes `warning:dismissed` events with the user's decision
  * - Calls window.api.warning.confirmExecution / cancelExecution to communicate
  *   the decision back to the main process
@@ -19,7 +23,7 @@
 
 import './styles/warning.css';
 import { eventBus } from './event-bus';
-import type { WarningDisplayPayload } from '../shared/types';
+import type { WarningDisplayPayload, WarningMatch, WarningPreviewPayload } from '../shared/types';
 
 // ============================================================
 // Module State
@@ -34,6 +38,12 @@ let currentResolve: ((value: boolean) => void) | null = null;
 /** The warningId of the currently displayed warning */
 let currentWarningId: string | null = null;
 
+/** The shell session that holds the currently displayed warning's command */
+let currentSessionId: string | null = null;
+
+/** Output element of each preview command shown, until its output arrives */
+const previewOutputs = new Map<string, HTMLElement>();
+
 /** Bound keydown handler reference (for cleanup) */
 let boundKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
 
@@ -72,6 +82,12 @@ export function init(containerEl: HTMLElement): void {
   eventBus.on('warning:show', (payload: WarningDisplayPayload) => {
     show(payload);
   });
+
+  eventBus.on('warning:preview', (payload: WarningPreviewPayload) => {
+    if (payload.warningId === currentWarningId) {
+      showPreviewOutput(payload);
+    }
+  });
 }
 
 /**
@@ -93,6 +109,7 @@ export function show(warning: WarningDisplayPayload): Promise<boolean> {
   return new Promise<boolean>((resolve) => {
     currentResolve = resolve;
     currentWarningId = warning.warningId;
+    currentSessionId = warning.sessionId;
 
     renderOverlay(warning);
     showContainer();
@@ -110,7 +127,9 @@ export function hide(): void {
     clearContainer();
   }
   detachKeyboardHandler();
+  previewOutputs.clear();
   currentWarningId = null;
+  currentSessionId = null;
 }
 
 // ============================================================
@@ -126,6 +145,7 @@ function renderOverlay(warning: WarningDisplayPayload): void {
 
   // Clear any previous content
   clearContainer();
+  previewOutputs.clear();
 
   // Create backdrop (clicking it = cancel)
   const backdrop = document.createElement('div');
@@ -192,6 +212,14 @@ function renderOverlay(warning: WarningDisplayPayload): void {
   recommendation.className = 'warning-recommendation';
   recommendation.textContent = warning.recommendation;
 
+  // Preview of the highest-risk rule, if it has one
+  const [top] = warning.matches;
+  const preview = top?.preview ? renderPreview(top.preview) : null;
+
+  // Other matching rules, below the highest-risk one shown above
+  const others = warning.matches.slice(1);
+  const othersSection = others.length > 0 ? renderOtherMatches(others) : null;
+
   // Button row
   const buttons = document.createElement('div');
   buttons.className = 'warning-buttons';
@@ -221,6 +249,12 @@ function renderOverlay(warning: WarningDisplayPayload): void {
   modal.appendChild(commandSection);
   modal.appendChild(description);
   modal.appendChild(recommendation);
+  if (preview) {
+    modal.appendChild(preview);
+  }
+  if (othersSection) {
+    modal.appendChild(othersSection);
+  }
   modal.appendChild(buttons);
 
   // Mount into backdrop -> container
@@ -233,6 +267,111 @@ function renderOverlay(warning: WarningDisplayPayload): void {
   });
 }
 
+/**
+ * Builds the list of the other rules a command matched, each with its
+ * risk level, name, description and recommendation.
+ */
+function renderOtherMatches(matches: WarningMatch[]): HTMLElement {
+  const section = document.createElement('div');
+  section.className = 'warning-others';
+
+  const label = document.createElement('span');
+  label.className = 'warning-command-label';
+  label.textContent = matches.length === 1 ? 'Also matched 1 other rule' : `Also matched ${matches.length} other rules`;
+  section.appendChild(label);
+
+  const list = document.createElement('ul');
+  list.className = 'warning-others-list';
+
+  for (const match of matches) {
+    const item = document.createElement('li');
+    item.className = 'warning-other';
+
+    const heading = document.createElement('div');
+    heading.className = 'warning-other-heading';
+
+    const badge = document.createElement('span');
+    badge.className = `warning-badge warning-badge--${match.riskLevel}`;
+    badge.textContent = match.riskLevel;
+
+    const name = document.createElement('span');
+    name.className = 'warning-other-name';
+    name.textContent = match.ruleName;
+
+    heading.appendChild(badge);
+    heading.appendChild(name);
+
+    const description = document.createElement('p');
+    description.className = 'warning-other-description';
+    description.textContent = match.description;
+
+    const recommendation = document.createElement('p');
+    recommendation.className = 'warning-other-recommendation';
+    recommendation.textContent = match.recommendation;
+
+    item.appendChild(heading);
+    item.appendChild(description);
+    item.appendChild(recommendation);
+    // A preview shared with an earlier rule is only shown there
+    if (match.preview && !previewOutputs.has(match.preview)) {
+      item.appendChild(renderPreview(match.preview));
+    }
+    list.appendChild(item);
+  }
+
+  section.appendChild(list);
+  return section;
+}
+
+/**
+ * Builds a preview block: the preview command and, until its output
+ * arrives, a placeholder. Registers the output element by command.
+ */
+function renderPreview(command: string): HTMLElement {
+  const section = document.createElement('div');
+  section.className = 'warning-preview';
+
+  const label = document.createElement('span');
+  label.className = 'warning-command-label';
+  label.textContent = 'Preview';
+
+  const commandText = document.createElement('code');
+  commandText.className = 'warning-preview-command';
+  commandText.textContent = command;
+
+  const output = document.createElement('pre');
+  output.className = 'warning-preview-output warning-preview-output--pending';
+  output.textContent = 'Running preview\u2026';
+
+  section.appendChild(label);
+  section.appendChild(commandText);
+  section.appendChild(output);
+
+  previewOutputs.set(command, output);
+  return section;
+}
+
+/**
+ * Fills in a preview's output, followed by why it failed, if it did.
+ */
+function showPreviewOutput(payload: WarningPreviewPayload): void {
+  const output = previewOutputs.get(payload.command);
+  if (!output) return;
+  previewOutputs.delete(payload.command);
+
+  output.classList.remove('warning-preview-output--pending');
+  output.textContent = payload.output !== ''
+    ? payload.output + (payload.truncated ? '\n\u2026' : '')
+    : '(no output)';
+
+  if (payload.error) {
+    const error = document.createElement('p');
+    error.className = 'warning-preview-error';
+    error.textContent = `Preview failed: ${payload.error}`;
+    output.after(error);
+  }
+}
+
 // ============================================================
 // Internal: Dismiss Logic
 // ============================================================
@@ -246,22 +385,24 @@ function renderOverlay(warning: WarningDisplayPayload): void {
  */
 function dismissWithAction(action: 'confirm' | 'cancel'): void {
   const warningId = currentWarningId;
+  const sessionId = currentSessionId;
   const resolve = currentResolve;
 
   // Clear state first to prevent re-entrant calls
   currentResolve = null;
   currentWarningId = null;
+  currentSessionId = null;
 
   // Communicate decision to main process via IPC
-  if (warningId) {
+  if (warningId && sessionId) {
     if (action === 'confirm') {
-      window.api.warning.confirmExecution(warningId);
+      window.api.warning.confirmExecution(sessionId, warningId);
     } else {
-      window.api.warning.cancelExecution(warningId);
+      window.api.warning.cancelExecution(sessionId, warningId);
     }
 
     // Emit event for other renderer modules
-    eventBus.emit('warning:dismissed', { warningId, action });
+    eventBus.emit('warning:dismissed', { warningId, sessionId, action });
   }
 
   // Hide the overlay
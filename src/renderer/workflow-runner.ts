@@ -0,0 +1,314 @@
+/**
+ * CommandCanvas - Workflow Runner
+ *
+ * Runs a workflow's steps one at a time in the focused session. Each step
+ * is typed into the shell followed by Enter, so it passes through the
+ * warning pipeline like any other command; the next step starts when
+ * shell integration reports that the step finished. Those same events
+ * drive the animation engine, so every step plays success or error.
+ *
+ * A step that exits non-zero stops the workflow unless its stopOnFailure
+ * is off. With confirmSteps on, the runner waits for workflow:continue
+ * before each step after the first. Cancelling a step's warning fails the
+ * step; closing its session stops the workflow. Shells without shell
+ * integration never report a step starting, so the workflow stops after
+ * STEP_START_TIMEOUT_MS rather than waiting forever.
+ *
+ * Only one workflow runs at a time.
+ *
+ * Events published:
+ * - workflow:progress  WorkflowProgress -> after every change
+ *
+ * Events subscribed to:
+ * - workflow:run            { workflow: WorkflowDefinition }
+ * - workflow:continue       void
+ * - workflow:stop           void
+ * - shell:command-started   { sessionId }
+ * - shell:command-finished  { sessionId, exitCode }
+ * - warning:show            WarningDisplayPayload -> a step's warning is open
+ * - warning:dismissed       { warningId, sessionId, action }
+ * - shell:exit              { sessionId }
+ * - session:closed          { sessionId }
+ * - session:activated       { sessionId } -> workflows run in this session
+ */
+
+import { eventBus } from './event-bus';
+import * as logger from './logger';
+import type {
+  WarningDisplayPayload,
+  WorkflowDefinition,
+  WorkflowProgress,
+  WorkflowRunState,
+} from '../shared/types';
+
+/**
+ * A workflow in progress.
+ */
+interface WorkflowRun {
+  workflow: WorkflowDefinition;
+  /** Session the steps are typed into */
+  sessionId: string;
+  progress: WorkflowProgress;
+  /** Whether shell integration reported that the running step started */
+  stepStarted: boolean;
+  /** Warning held for the running step, if one is open */
+  warningId: string | null;
+  /** Stops the workflow if the running step never starts */
+  startTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// ---------------------------------------------------------------------------
+// Module state
+// ---------------------------------------------------------------------------
+
+/** The current or last workflow run */
+let run: WorkflowRun | null = null;
+
+/** The focused session, where new workflows run */
+let activeSessionId: string | null = null;
+
+/** Time a typed step has to be reported as started */
+const STEP_START_TIMEOUT_MS = 3000;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Starts listening for workflow requests and shell events.
+ *
+ * @param initialSessionId - The focused session at startup, activated
+ *                           before this module subscribed
+ */
+export function init(initialSessionId: string | null = null): void {
+  activeSessionId = initialSessionId;
+
+  eventBus.on('workflow:run', (payload: { workflow: WorkflowDefinition }) => {
+    start(payload.workflow);
+  });
+
+  eventBus.on('workflow:continue', () => {
+    if (run?.progress.state === 'confirming') {
+      runStep(run.progress.currentStep);
+    }
+  });
+
+  eventBus.on('workflow:stop', () => {
+    if (!isActive()) return;
+    const stepRunning = run!.progress.state === 'running';
+    end('stopped', stepRunning ? 'The running step was left running in the terminal.' : null);
+  });
+
+  eventBus.on('shell:command-started', (payload: { sessionId: string }) => {
+    if (!isStepRunning(payload.sessionId)) return;
+    run!.stepStarted = true;
+    clearStartTimer();
+  });
+
+  eventBus.on('shell:command-finished', (payload: { sessionId: string; exitCode: number | null }) => {
+    if (!isStepRunning(payload.sessionId) || !run!.stepStarted) return;
+    finishStep(payload.exitCode);
+  });
+
+  eventBus.on('warning:show', (payload: WarningDisplayPayload) => {
+    if (!isStepRunning(payload.sessionId)) return;
+    // The step cannot start until the warning is answered
+    run!.warningId = payload.warningId;
+    clearStartTimer();
+  });
+
+  eventBus.on('warning:dismissed', (payload: { warningId: string; action: 'confirm' | 'cancel' }) => {
+    if (!run || run.warningId !== payload.warningId) return;
+    run.warningId = null;
+
+    if (payload.action === 'cancel') {
+      const step = run.progress.steps[run.progress.currentStep];
+      step.status = 'failed';
+      end('failed', 'The warning for this step was cancelled.');
+    } else {
+      armStartTimer();
+    }
+  });
+
+  eventBus.on('shell:exit', (payload: { sessionId: string }) => {
+    if (isActive() && run!.sessionId === payload.sessionId) {
+      end('stopped', 'The shell exited.');
+    }
+  });
+
+  eventBus.on('session:closed', (payload: { sessionId: string }) => {
+    if (isActive() && run!.sessionId === payload.sessionId) {
+      end('stopped', 'The terminal was closed.');
+    }
+  });
+
+  eventBus.on('session:activated', (payload: { sessionId: string }) => {
+    activeSessionId = payload.sessionId;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Running steps
+// ---------------------------------------------------------------------------
+
+/**
+ * Starts a workflow in the focused session.
+ */
+function start(workflow: WorkflowDefinition): void {
+  if (isActive()) {
+    logger.warn('Workflow not started: another workflow is running', {
+      workflowId: workflow.id,
+      runningId: run!.workflow.id,
+    });
+    emitProgress();
+    return;
+  }
+  if (!activeSessionId) {
+    logger.warn('Workflow not started: no active terminal session', { workflowId: workflow.id });
+    return;
+  }
+  if (workflow.steps.length === 0) return;
+
+  run = {
+    workflow,
+    sessionId: activeSessionId,
+    progress: {
+      workflowId: workflow.id,
+      name: workflow.name,
+      state: 'running',
+      currentStep: 0,
+      steps: workflow.steps.map((step) => ({ ...step, status: 'pending', exitCode: null })),
+      message: null,
+    },
+    stepStarted: false,
+    warningId: null,
+    startTimer: null,
+  };
+
+  logger.info('Workflow started', { workflowId: workflow.id, sessionId: run.sessionId });
+  runStep(0);
+}
+
+/**
+ * Types a step into the shell and presses Enter. Ctrl+U first clears
+ * anything already on the input line.
+ */
+function runStep(index: number): void {
+  if (!run) return;
+
+  const step = run.progress.steps[index];
+  step.status = 'running';
+  run.progress.state = 'running';
+  run.progress.currentStep = index;
+  run.stepStarted = false;
+  run.warningId = null;
+
+  try {
+    window.api.shell.write(run.sessionId, `\x15${step.command}\r`);
+  } catch (err) {
+    logger.error('Failed to write workflow step to shell', { sessionId: run.sessionId, error: String(err) });
+    step.status = 'failed';
+    end('failed', 'The step could not be sent to the shell.');
+    return;
+  }
+
+  armStartTimer();
+  emitProgress();
+}
+
+/**
+ * Records the running step's exit code and moves on: to the next step,
+ * to confirmation, or to the end of the workflow.
+ */
+function finishStep(exitCode: number | null): void {
+  if (!run) return;
+  clearStartTimer();
+
+  const index = run.progress.currentStep;
+  const step = run.progress.steps[index];
+  step.exitCode = exitCode;
+  // A shell that sends no exit code gives no reason to stop
+  step.status = exitCode === null || exitCode === 0 ? 'success' : 'failed';
+
+  if (step.status === 'failed' && run.workflow.stopOnFailure !== false) {
+    end('failed', null);
+    return;
+  }
+
+  const next = index + 1;
+  if (next >= run.progress.steps.length) {
+    end('finished', null);
+  } else if (run.workflow.confirmSteps) {
+    run.progress.state = 'confirming';
+    run.progress.currentStep = next;
+    emitProgress();
+  } else {
+    runStep(next);
+  }
+}
+
+/**
+ * Ends the run. Steps that did not run are marked skipped; a step still
+ * running in the shell keeps its status.
+ */
+function end(state: Exclude<WorkflowRunState, 'running' | 'confirming'>, message: string | null): void {
+  if (!run) return;
+  clearStartTimer();
+
+  for (const step of run.progress.steps) {
+    if (step.status === 'pending') {
+      step.status = 'skipped';
+    }
+  }
+  run.progress.state = state;
+  run.progress.message = message;
+  run.warningId = null;
+
+  logger.info('Workflow ended', { workflowId: run.workflow.id, state, step: run.progress.currentStep });
+  emitProgress();
+}
+
+// ---------------------------------------------------------------------------
+// Internal: Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Stops the workflow if the running step is not reported as started in
+ * time, which means the shell has no shell integration.
+ */
+function armStartTimer(): void {
+  clearStartTimer();
+  if (!run) return;
+
+  run.startTimer = setTimeout(() => {
+    if (!run || run.stepStarted || run.warningId) return;
+    run.startTimer = null;
+    end('stopped', 'The shell did not report the step starting. Workflows need shell integration (bash, zsh or fish).');
+  }, STEP_START_TIMEOUT_MS);
+}
+
+function clearStartTimer(): void {
+  if (run?.startTimer) {
+    clearTimeout(run.startTimer);
+    run.startTimer = null;
+  }
+}
+
+function isActive(): boolean {
+  return run !== null && (run.progress.state === 'running' || run.progress.state === 'confirming');
+}
+
+function isStepRunning(sessionId: string): boolean {
+  return run !== null && run.progress.state === 'running' && run.sessionId === sessionId;
+}
+
+/**
+ * Publishes a copy of the progress, so listeners never see it change.
+ */
+function emitProgress(): void {
+  if (!run) return;
+  eventBus.emit('workflow:progress', {
+    ...run.progress,
+    steps: run.progress.steps.map((step) => ({ ...step })),
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * CommandCanvas - Command Templates
+ *
+ * A command may contain `{{name}}` placeholders, e.g.
+ * `git checkout {{branch}}`. Before such a command is inserted, the
+ * template form asks for a value for each placeholder; the optional
+ * `variables` of the CommandDefinition supply labels, defaults, required
+ * flags and choice lists.
+ *
+ * Values are substituted as typed, without shell quoting: the template
+ * decides the quoting (`git commit -m "{{message}}"`). Only a value picked
+ * from a `choicesCommand`'s output, which the user did not write, is
+ * quoted with quoteArgument() unless it is a plain word. In insert mode the
+ * user still reviews the inserted command before pressing Enter. In run
+ * and confirm mode the form's Run button inserts the command and presses
+ * Enter at once, so the form's preview of the filled command is the last
+ * look the user gets before it executes; it still passes through the
+ * warning pipeline like a typed command.
+ *
+ * This module is shared between main and renderer processes at build time.
+ * It contains only static data and pure functions — no side effects.
+ */
+
+import type { CommandDefinition, CommandVariable } from './types';
+
+/** Matches one placeholder; the name may be padded with spaces */
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/** Arguments that can be passed on the command line without quoting */
+const PLAIN_ARGUMENT = /^[\w.:@/+-]+$/;
+
+/**
+ * Checks whether a command contains any placeholders.
+ */
+export function hasPlaceholders(command: string): boolean {
+  return new RegExp(PLACEHOLDER.source).test(command);
+}
+
+/**
+ * Lists the variables of a command template in order of first use, each
+ * merged with its entry in `variables` if there is one.
+ *
+ * @param definition - The command whose template is inspected
+ * @returns One CommandVariable per distinct placeholder
+ */
+export function getTemplateVariables(definition: CommandDefinition): CommandVariable[] {
+  const settings = new Map<string, CommandVariable>();
+  for (const variable of definition.variables ?? []) {
+    if (variable && typeof variable.name === 'string') {
+      settings.set(variable.name, variable);
+    }
+  }
+
+  const variables: CommandVariable[] = [];
+  const seen = new Set<string>();
+  for (const match of definition.command.matchAll(PLACEHOLDER)) {
+    const name = match[1];
+    if (seen.has(name)) continue;
+    seen.add(name);
+    variables.push({ ...settings.get(name), name });
+  }
+  return variables;
+}
+
+/**
+ * Replaces every placeholder with its value. Placeholders without a value
+ * are replaced with an empty string.
+ *
+ * @param command - The command template
+ * @param values - Values by variable name
+ */
+export function fillTemplate(command: string, values: Record<string, string>): string {
+  return command.replace(PLACEHOLDER, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Quotes a value for the shell unless it is a plain word, such as a
+ * script name or a branch name printed by a choices command.
+ */
+export function quoteArgument(value: string): string {
+  return PLAIN_ARGUMENT.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`;
+}
@@ -1,33 +1,52 @@
 /**
  * CommandCanvas - Built-in Default Command Definitions
  *
- * Defines the built-in command packs per category (git, node, python, docker).
- * Provides utility functions for merging built-in commands with user-defined
- * custom commands and for retrieving commands by category.
+ * Defines the built-in command packs per category, one per built-in project
+ * detector (see project-detectors.ts).
+ * Also defines the built-in workflows (multi-step command sequences).
+ * Provides utility functions for adapting the built-in commands to the
+ * detected project (package manager, compose file), generating commands
+ * from package.json scripts and task runner files, merging them with
+ * user-defined custom commands, applying the user's placement of commands
+and retrieving commands by category.
  *
  * This module is shared between main and renderer processes at build time.
  * It contains only static data and pure functions — no side effects.
  */
 
-import type { CommandDefinition } from './types';
+import { quoteArgument } from './command-templates';
+import type {
+  CommandDefinition,
+  CommandPlacement,
+  NodePackageManager,
+  NodeProjectInfo,
+  ProjectMetadata,
+  ProjectTask,
+  PythonPackageManager,
+  WorkflowDefinition,
+} from './types';
 
 /**
  * Built-in command definitions organized by category.
  * These are the default commands available when the app starts.
  * Each category maps to an array of CommandDefinition objects.
  *
- * Command packs: git (10), node (6), python (5), docker (5).
+ * Command packs: git (10), node (6), python (5), docker (5), compose (5),
+ * rust (6), go (6), java (6), ruby (5), make (3), just (2), task (2),
+ * terraform (6), kubernetes (6).
  */
 export const DEFAULT_COMMANDS: Record<string, CommandDefinition[]> = {
   git: [
     { id: 'git-status',   name: 'Status',    command: 'git status',             explanation: 'Shows the working tree status: modified, staged, and untracked files.', category: 'git', order: 0 },
     { id: 'git-add-all',  name: 'Stage All', command: 'git add .',              explanation: 'Stages all changes in the current directory for the next commit.',      category: 'git', order: 1 },
-    { id: 'git-commit',   name: 'Commit',    command: 'git commit -m ""',       explanation: 'Creates a snapshot of staged changes with a message.',                  category: 'git', order: 2 },
+    { id: 'git-commit',   name: 'Commit',    command: 'git commit -m "{{message}}"', explanation: 'Creates a snapshot of staged changes with a message.',            category: 'git', order: 2,
+      variables: [{ name: 'message', label: 'Commit message', required: true }] },
     { id: 'git-push',     name: 'Push',      command: 'git push',               explanation: 'Uploads local branch commits to the remote repository.',                category: 'git', order: 3 },
     { id: 'git-pull',     name: 'Pull',      command: 'git pull',               explanation: 'Fetches and integrates changes from the remote repository.',             category: 'git', order: 4 },
     { id: 'git-log',      name: 'Log',       command: 'git log --oneline -10',  explanation: 'Shows the last 10 commits in a compact one-line format.',                category: 'git', order: 5 },
     { id: 'git-branch',   name: 'Branches',  command: 'git branch',             explanation: 'Lists all local branches. The current branch is highlighted.',           category: 'git', order: 6 },
-    { id: 'git-checkout', name: 'Checkout',  command: 'git checkout ',           explanation: 'Switches to a different branch or restores files.',                      category: 'git', order: 7 },
+    { id: 'git-checkout', name: 'Checkout',  command: 'git checkout {{branch}}', explanation: 'Switches to a different branch or restores files.',                   category: 'git', order: 7,
+      variables: [{ name: 'branch', label: 'Branch or path', required: true, choicesCommand: 'git branch --format="%(refname:short)"' }] },
     { id: 'git-diff',     name: 'Diff',      command: 'git diff',               explanation: 'Shows unstaged changes between working directory and index.',            category: 'git', order: 8 },
     { id: 'git-stash',    name: 'Stash',     command: 'git stash',              explanation: 'Temporarily stores modified tracked files for later use.',               category: 'git', order: 9 },
   ],
@@ -43,7 +62,8 @@ export const DEFAULT_COMMANDS: Record<string, CommandDefinition[]> = {
     { id: 'py-venv',      name: 'Create Venv',    command: 'python -m venv venv',            explanation: 'Creates a virtual environment in a venv/ directory.',  category: 'python', order: 0 },
     { id: 'py-activate',  name: 'Activate Venv',  command: 'source venv/bin/activate',        explanation: 'Activates the Python virtual environment. On Windows, use: venv\\Scripts\\activate', category: 'python', order: 1 },
     { id: 'pip-install',  name: 'Pip Install',    command: 'pip install -r requirements.txt', explanation: 'Installs all dependencies from requirements.txt.',     category: 'python', order: 2 },
-    { id: 'py-run',       name: 'Run',            command: 'python ',                         explanation: 'Runs a Python script.',                                category: 'python', order: 3 },
+    { id: 'py-run',       name: 'Run',            command: 'python {{script}}',               explanation: 'Runs a Python script.',                                category: 'python', order: 3,
+      variables: [{ name: 'script', label: 'Script and arguments', required: true }] },
     { id: 'pip-freeze',   name: 'Freeze',         command: 'pip freeze > requirements.txt',   explanation: 'Writes installed packages to requirements.txt.',       category: 'python', order: 4 },
   ],
   docker: [
@@ -53,10 +73,308 @@ export const DEFAULT_COMMANDS: Record<string, CommandDefinition[]> = {
     { id: 'docker-compose-up',   name: 'Compose Up',   command: 'docker compose up',      explanation: 'Starts all services defined in docker-compose.yml.',             category: 'docker', order: 3 },
     { id: 'docker-compose-down', name: 'Compose Down', command: 'docker compose down',    explanation: 'Stops and removes all containers defined in docker-compose.yml.', category: 'docker', order: 4 },
   ],
+  compose: [
+    { id: 'compose-up-detached', name: 'Up (Detached)', command: 'docker compose up -d',   explanation: 'Starts all services in the background.',                         category: 'compose', order: 0 },
+    { id: 'compose-ps',          name: 'Services',      command: 'docker compose ps',      explanation: 'Lists the containers of this compose project and their state.',  category: 'compose', order: 1 },
+    { id: 'compose-logs',        name: 'Logs',          command: 'docker compose logs -f', explanation: 'Follows the log output of all services. Press Ctrl+C to stop.',   category: 'compose', order: 2 },
+    { id: 'compose-build',       name: 'Build',         command: 'docker compose build',   explanation: 'Builds or rebuilds the images of all services.',                 category: 'compose', order: 3 },
+    { id: 'compose-restart',     name: 'Restart',       command: 'docker compose restart', explanation: 'Restarts all running services.',                                 category: 'compose', order: 4 },
+  ],
+  rust: [
+    { id: 'cargo-build',  name: 'Build',  command: 'cargo build',  explanation: 'Compiles the current package and its dependencies.',           category: 'rust', order: 0 },
+    { id: 'cargo-run',    name: 'Run',    command: 'cargo run',    explanation: 'Builds and runs the binary of the current package.',           category: 'rust', order: 1 },
+    { id: 'cargo-test',   name: 'Test',   command: 'cargo test',   explanation: 'Builds and runs the package tests.',                           category: 'rust', order: 2 },
+    { id: 'cargo-check',  name: 'Check',  command: 'cargo check',  explanation: 'Checks the code for errors without producing a binary.',        category: 'rust', order: 3 },
+    { id: 'cargo-clippy', name: 'Clippy', command: 'cargo clippy', explanation: 'Runs the Clippy linter to catch common mistakes.',              category: 'rust', order: 4 },
+    { id: 'cargo-fmt',    name: 'Format', command: 'cargo fmt',    explanation: 'Formats all source files with rustfmt.',                      category: 'rust', order: 5 },
+  ],
+  go: [
+    { id: 'go-build',    name: 'Build',  command: 'go build ./...',  explanation: 'Compiles all packages in the module.',                  category: 'go', order: 0 },
+    { id: 'go-run',      name: 'Run',    command: 'go run .',        explanation: 'Compiles and runs the main package in this directory.', category: 'go', order: 1 },
+    { id: 'go-test',     name: 'Test',   command: 'go test ./...',   explanation: 'Runs the tests of all packages in the module.',         category: 'go', order: 2 },
+    { id: 'go-vet',      name: 'Vet',    command: 'go vet ./...',    explanation: 'Reports suspicious constructs in all packages.',        category: 'go', order: 3 },
+    { id: 'go-mod-tidy', name: 'Tidy',   command: 'go mod tidy',     explanation: 'Adds missing and removes unused module requirements.',  category: 'go', order: 4 },
+    { id: 'go-fmt',      name: 'Format', command: 'gofmt -w .',      explanation: 'Formats all Go files in this directory tree.',          category: 'go', order: 5 },
+  ],
+  java: [
+    { id: 'mvn-package',   name: 'Maven Package', command: 'mvn package',       explanation: 'Compiles, tests and packages the project (e.g. into a JAR).', category: 'java', order: 0 },
+    { id: 'mvn-test',      name: 'Maven Test',    command: 'mvn test',          explanation: 'Runs the unit tests with Maven.',                             category: 'java', order: 1 },
+    { id: 'mvn-install',   name: 'Maven Install', command: 'mvn clean install', explanation: 'Rebuilds from scratch and installs into the local repository.', category: 'java', order: 2 },
+    { id: 'gradle-build',  name: 'Gradle Build',  command: './gradlew build',   explanation: 'Builds and tests the project with the Gradle wrapper.',       category: 'java', order: 3 },
+    { id: 'gradle-test',   name: 'Gradle Test',   command: './gradlew test',    explanation: 'Runs the unit tests with the Gradle wrapper.',                 category: 'java', order: 4 },
+    { id: 'gradle-tasks',  name: 'Gradle Tasks',  command: './gradlew tasks',   explanation: 'Lists the tasks available in this Gradle project.',           category: 'java', order: 5 },
+  ],
+  ruby: [
+    { id: 'bundle-install', name: 'Bundle Install', command: 'bundle install',       explanation: 'Installs the gems listed in the Gemfile.',            category: 'ruby', order: 0 },
+    { id: 'bundle-exec',    name: 'Bundle Exec',    command: 'bundle exec {{command}}', explanation: 'Runs a command with the gems from the Gemfile.', category: 'ruby', order: 1,
+      variables: [{ name: 'command', label: 'Command', required: true }] },
+    { id: 'rake-tasks',     name: 'Rake Tasks',     command: 'bundle exec rake -T',  explanation: 'Lists the Rake tasks defined for this project.',      category: 'ruby', order: 2 },
+    { id: 'rspec',          name: 'RSpec',          command: 'bundle exec rspec',    explanation: 'Runs the RSpec test suite.',                          category: 'ruby', order: 3 },
+    { id: 'bundle-outdated', name: 'Outdated',      command: 'bundle outdated',      explanation: 'Lists gems that have newer versions available.',      category: 'ruby', order: 4 },
+  ],
+  make: [
+    { id: 'make-default', name: 'Make',  command: 'make',       explanation: 'Builds the first (default) target in the Makefile.',       category: 'make', order: 0 },
+    { id: 'make-clean',   name: 'Clean', command: 'make clean', explanation: 'Runs the clean target, if the Makefile defines one.',      category: 'make', order: 1 },
+    { id: 'make-target',  name: 'Target', command: 'make {{target}}', explanation: 'Builds a specific target.',                  category: 'make', order: 2,
+      variables: [{ name: 'target', label: 'Target', required: true }] },
+  ],
+  just: [
+    { id: 'just-default', name: 'Default', command: 'just',        explanation: 'Runs the first recipe in the justfile.',              category: 'just', order: 0 },
+    { id: 'just-list',    name: 'List',    command: 'just --list', explanation: 'Lists the recipes in the justfile with their docs.', category: 'just', order: 1 },
+  ],
+  task: [
+    { id: 'task-default', name: 'Default', command: 'task',            explanation: 'Runs the task named default in the Taskfile.',             category: 'task', order: 0 },
+    { id: 'task-list',    name: 'List',    command: 'task --list-all', explanation: 'Lists every task in the Taskfile, with or without a description.', category: 'task', order: 1 },
+  ],
+  terraform: [
+    { id: 'tf-init',     name: 'Init',     command: 'terraform init',     explanation: 'Initializes the working directory and downloads providers.', category: 'terraform', order: 0 },
+    { id: 'tf-fmt',      name: 'Format',   command: 'terraform fmt',      explanation: 'Rewrites configuration files to the canonical format.',     category: 'terraform', order: 1 },
+    { id: 'tf-validate', name: 'Validate', command: 'terraform validate', explanation: 'Checks that the configuration is syntactically valid.',     category: 'terraform', order: 2 },
+    { id: 'tf-plan',     name: 'Plan',     command: 'terraform plan',     explanation: 'Shows the changes Terraform would make to infrastructure.', category: 'terraform', order: 3 },
+    { id: 'tf-apply',    name: 'Apply',    command: 'terraform apply',    explanation: 'Creates or updates infrastructure to match the configuration.', category: 'terraform', order: 4 },
+    { id: 'tf-destroy',  name: 'Destroy',  command: 'terraform destroy',  explanation: 'Destroys all infrastructure managed by this configuration.', category: 'terraform', order: 5 },
+  ],
+  kubernetes: [
+    { id: 'kubectl-context', name: 'Context',   command: 'kubectl config current-context', explanation: 'Shows which cluster kubectl is currently talking to.',   category: 'kubernetes', order: 0 },
+    { id: 'kubectl-pods',    name: 'Pods',      command: 'kubectl get pods',               explanation: 'Lists pods in the current namespace.',                   category: 'kubernetes', order: 1 },
+    { id: 'kubectl-svc',     name: 'Services',  command: 'kubectl get services',           explanation: 'Lists services in the current namespace.',               category: 'kubernetes', order: 2 },
+    { id: 'kubectl-diff',    name: 'Diff',      command: 'kubectl diff -f {{manifests}}',  explanation: 'Shows what applying the given manifests would change.',  category: 'kubernetes', order: 3,
+      variables: [{ name: 'manifests', label: 'Manifest file or directory', required: true }] },
+    { id: 'kubectl-apply',   name: 'Apply',     command: 'kubectl apply -f {{manifests}}', explanation: 'Creates or updates resources from the given manifests.', category: 'kubernetes', order: 4,
+      variables: [{ name: 'manifests', label: 'Manifest file or directory', required: true }] },
+    { id: 'kubectl-logs',    name: 'Logs',      command: 'kubectl logs -f {{pod}}',        explanation: 'Follows the logs of a pod.',                             category: 'kubernetes', order: 5,
+      variables: [{ name: 'pod', label: 'Pod', required: true, choicesCommand: 'kubectl get pods -o name' }] },
+  ],
 };
 
 /**
- * Merges built-in commands with user-defined custom commands.
+ * Built-in workflows. They are listed in their category after its commands.
+ */
+export const DEFAULT_WORKFLOWS: WorkflowDefinition[] = [
+  {
+    id: 'wf-update-branch',
+    name: 'Update Branch',
+    explanation: 'Rebases the current branch onto its upstream, keeping uncommitted changes, then reinstalls dependencies.',
+    category: 'node',
+    order: 6,
+    stopOnFailure: true,
+    // `git stash pop` restores the most recent stash even if step 1 had nothing to stash
+    confirmSteps: true,
+    steps: [
+      { command: 'git stash',          explanation: 'Sets uncommitted changes aside so the rebase starts from a clean working tree.' },
+      { command: 'git pull --rebase',  explanation: 'Fetches the upstream branch and replays local commits on top of it.' },
+      { command: 'git stash pop',      explanation: 'Restores the changes set aside in the first step.' },
+      { command: 'npm install',        explanation: 'Installs dependencies that changed upstream.' },
+    ],
+  },
+];
+
+/** Fields of a built-in command that an adaptation replaces; null hides the command */
+type CommandAdaptation = Partial<Pick<CommandDefinition, 'name' | 'command' | 'explanation'>> | null;
+
+/**
+ * Node command variants by package manager, keyed by built-in command ID.
+ * npm is the default, so it needs no entry.
+ */
+const NODE_ADAPTATIONS: Record<Exclude<NodePackageManager, 'npm'>, Record<string, CommandAdaptation>> = {
+  pnpm: {
+    'npm-install':   { command: 'pnpm install' },
+    'npm-start':     { command: 'pnpm start' },
+    'npm-test':      { command: 'pnpm test' },
+    'npm-run-build': { command: 'pnpm run build' },
+    'npm-run-dev':   { command: 'pnpm run dev' },
+    'npm-outdated':  { command: 'pnpm outdated' },
+  },
+  yarn: {
+    'npm-install':   { command: 'yarn install' },
+    'npm-start':     { command: 'yarn start' },
+    'npm-test':      { command: 'yarn test' },
+    'npm-run-build': { command: 'yarn run build' },
+    'npm-run-dev':   { command: 'yarn run dev' },
+    'npm-outdated':  { command: 'yarn outdated' },
+  },
+  bun: {
+    // `bun test` is Bun's own test runner, so scripts go through `bun run`
+    'npm-install':   { command: 'bun install' },
+    'npm-start':     { command: 'bun run start' },
+    'npm-test':      { command: 'bun run test' },
+    'npm-run-build': { command: 'bun run build' },
+    'npm-run-dev':   { command: 'bun run dev' },
+    'npm-outdated':  { command: 'bun outdated' },
+  },
+};
+
+/**
+ * Built-in Node commands that run a package.json script. Once package.json
+ * has been read, the scripts category has a button for every script that
+ * actually exists, so these are hidden.
+ */
+const NODE_SCRIPT_COMMAND_IDS = ['npm-start', 'npm-test', 'npm-run-build', 'npm-run-dev'];
+
+/** Discovered tasks are listed after the runner's built-in commands */
+const TASK_ORDER_OFFSET = 100;
+
+/**
+ * Python command variants by package manager, keyed by built-in command ID.
+ * pip is the default, so it needs no entry. Poetry and Pipenv manage the
+ * virtual environment themselves, so the venv commands are hidden.
+ */
+const PYTHON_ADAPTATIONS: Record<Exclude<PythonPackageManager, 'pip'>, Record<string, CommandAdaptation>> = {
+  poetry: {
+    'py-venv':     null,
+    'py-activate': null,
+    'pip-install': { name: 'Install', command: 'poetry install',     explanation: 'Installs the dependencies pinned in poetry.lock into the project environment.' },
+    'py-run':      { command: 'poetry run python {{script}}', explanation: 'Runs a Python script inside the project environment.' },
+    'pip-freeze':  { name: 'Lock',    command: 'poetry lock',        explanation: 'Resolves the dependencies in pyproject.toml and writes poetry.lock.' },
+  },
+  uv: {
+    'py-venv':     { command: 'uv venv',                   explanation: 'Creates a virtual environment in a .venv/ directory.' },
+    'py-activate': { command: 'source .venv/bin/activate', explanation: 'Activates the Python virtual environment. On Windows, use: .venv\\Scripts\\activate' },
+    'pip-install': { name: 'Sync',    command: 'uv sync',  explanation: 'Installs the dependencies pinned in uv.lock into .venv/.' },
+    'py-run':      { command: 'uv run {{script}}', explanation: 'Runs a Python script or command inside the project environment.' },
+    'pip-freeze':  { name: 'Lock',    command: 'uv lock',  explanation: 'Resolves the dependencies in pyproject.toml and writes uv.lock.' },
+  },
+  pipenv: {
+    'py-venv':     null,
+    'py-activate': { name: 'Shell',   command: 'pipenv shell',        explanation: 'Starts a shell inside the project environment. Type exit to leave it.' },
+    'pip-install': { name: 'Install', command: 'pipenv install',      explanation: 'Installs the dependencies from Pipfile and Pipfile.lock.' },
+    'py-run':      { command: 'pipenv run python {{script}}', explanation: 'Runs a Python script inside the project environment.' },
+    'pip-freeze':  { name: 'Lock',    command: 'pipenv lock',         explanation: 'Resolves the dependencies in Pipfile and writes Pipfile.lock.' },
+  },
+};
+
+/**
+ * Adapts built-in commands to the detected project: Node and Python
+ * commands use the project's package manager, Node commands that run a
+ * script give way to the scripts category, `make clean` gives way to the
+ * discovered Makefile targets, and Compose commands name the compose file
+ * in their explanation. Commands are copied, never
+ * mutated, and keep their IDs so custom overrides still apply.
+ *
+ * @param commands - Built-in CommandDefinition objects
+ * @param metadata - Metadata from project detection, or null if unknown
+ * @returns The adapted commands, without those that do not apply
+ */
+export function adaptCommands(
+  commands: CommandDefinition[],
+  metadata: ProjectMetadata | null
+): CommandDefinition[] {
+  if (!metadata) return commands;
+
+  const nodeManager = metadata.node?.packageManager;
+  const pythonManager = metadata.python?.packageManager;
+  const adaptations: Record<string, CommandAdaptation> = {
+    ...(nodeManager && nodeManager !== 'npm' ? NODE_ADAPTATIONS[nodeManager] : {}),
+    ...(pythonManager && pythonManager !== 'pip' ? PYTHON_ADAPTATIONS[pythonManager] : {}),
+  };
+  if (metadata.node) {
+    for (const id of NODE_SCRIPT_COMMAND_IDS) {
+      adaptations[id] = null;
+    }
+  }
+  if (metadata.tasks.some((task) => task.runner === 'make')) {
+    adaptations['make-clean'] = null;
+  }
+
+  const adapted: CommandDefinition[] = [];
+  for (const cmd of commands) {
+    if (cmd.category === 'compose' && metadata.compose) {
+      adapted.push({ ...cmd, explanation: `${cmd.explanation} Uses ${metadata.compose.file}.` });
+      continue;
+    }
+
+    if (!(cmd.id in adaptations)) {
+      adapted.push(cmd);
+      continue;
+    }
+
+    const adaptation = adaptations[cmd.id];
+    if (adaptation) {
+      adapted.push({ ...cmd, ...adaptation });
+    }
+  }
+  return adapted;
+}
+
+/**
+ * Adapts built-in workflows to the detected project: a step that runs a
+ * built-in command, such as `npm install`, runs that command's adapted
+ * form, such as `pnpm install`. Workflows are copied, never mutated.
+ *
+ * @param workflows - Built-in WorkflowDefinition objects
+ * @param metadata - Metadata from project detection, or null if unknown
+ * @returns The adapted workflows
+ */
+export function adaptWorkflows(
+  workflows: WorkflowDefinition[],
+  metadata: ProjectMetadata | null
+): WorkflowDefinition[] {
+  if (!metadata) return workflows;
+
+  const builtIn = Object.values(DEFAULT_COMMANDS).flat();
+  const adapted = new Map(adaptCommands(builtIn, metadata).map((cmd) => [cmd.id, cmd.command]));
+  const replacements = new Map<string, string>();
+  for (const cmd of builtIn) {
+    const command = adapted.get(cmd.id);
+    if (command !== undefined && command !== cmd.command) {
+      replacements.set(cmd.command, command);
+    }
+  }
+
+  return workflows.map((workflow) => ({
+    ...workflow,
+    steps: workflow.steps.map((step) => ({
+      ...step,
+      command: replacements.get(step.command) ?? step.command,
+    })),
+  }));
+}
+
+/**
+ * Generates one command per package.json script, in the 'scripts'
+ * category, run with the project's package manager. The script body
+ * serves as the explanation.
+ *
+ * @param node - Node project metadata, or null if no Node project was detected
+ * @returns Script commands in package.json order
+ */
+export function getScriptCommands(node: NodeProjectInfo | null): CommandDefinition[] {
+  if (!node) return [];
+
+  return node.scripts.map((script, index) => ({
+    id: `script-${script.name}`,
+    name: script.name,
+    command: `${node.packageManager} run ${quoteArgument(script.name)}`,
+    explanation: script.body,
+    category: 'scripts',
+    order: index,
+  }));
+}
+
+/**
+ * Generates one command per discovered Makefile target, justfile recipe
+ * or Taskfile task, in the category of its runner ('make', 'just' or
+ * 'task'). The help comment or description serves as the explanation.
+ * Tasks that need arguments get an `{{arguments}}` placeholder.
+ *
+ * @param tasks - Tasks from project metadata
+ * @returns Task commands, after each runner's built-in commands
+ */
+export function getTaskCommands(tasks: ProjectTask[]): CommandDefinition[] {
+  return tasks.map((task, index) => ({
+    id: `${task.runner}-task-${task.name}`,
+    name: task.name,
+    command: `${task.runner} ${quoteArgument(task.name)}${task.needsArguments ? ' {{arguments}}' : ''}`,
+    explanation: task.description || `Runs ${task.name} from ${task.file}.`,
+    category: task.runner,
+    order: TASK_ORDER_OFFSET + index,
+    ...(task.needsArguments ? { variables: [{ name: 'arguments', label: 'Arguments', required: true }] } : {}),
+  }));
+}
+
+/**
+ * Merges built-in commands with user-defined custom commands. Workflows
+ * are merged the same way.
  *
  * Custom commands with the same ID as a built-in command will override the
  * built-in version. Custom commands with unique IDs are appended.
@@ -65,18 +383,15 @@ export const DEFAULT_COMMANDS: Record<string, CommandDefinition[]> = {
  * @param custom - Array of user-defined custom CommandDefinition objects
  * @returns Merged array of CommandDefinition objects, sorted by order
  */
-export function mergeCommands(
-  builtIn: CommandDefinition[],
-  custom: CommandDefinition[]
-): CommandDefinition[] {
+export function mergeCommands<T extends { id: string; order: number }>(builtIn: T[], custom: T[]): T[] {
   // Build a map of custom commands keyed by ID for quick lookup
-  const customMap = new Map<string, CommandDefinition>();
+  const customMap = new Map<string, T>();
   for (const cmd of custom) {
     customMap.set(cmd.id, cmd);
   }
 
   // Start with built-in commands, replacing any that have a custom override
-  const merged: CommandDefinition[] = builtIn.map((cmd) => {
+  const merged: T[] = builtIn.map((cmd) => {
     if (customMap.has(cmd.id)) {
       const override = customMap.get(cmd.id)!;
       customMap.delete(cmd.id);
@@ -94,10 +409,44 @@ export function mergeCommands(
   return merged.sort((a, b) => a.order - b.order);
 }
 
+/**
+ * Returns the order that puts a command after every command of a category.
+ */
+export function getNextOrder(commands: CommandDefinition[], category: string): number {
+  return commands
+    .filter((cmd) => cmd.category === category)
+    .reduce((next, cmd) => Math.max(next, cmd.order + 1), 0);
+}
+
+/**
+ * Applies the user's placement (category and order) to merged commands.
+ * Hidden commands are kept; callers decide whether to show them.
+ *
+ * @param commands - Merged commands, e.g. from mergeCommands()
+ * @param placements - AppConfig.commandPlacements, by command ID
+ * @returns The placed commands, sorted by order
+ */
+export function applyPlacements(
+  commands: CommandDefinition[],
+  placements: Record<string, CommandPlacement>
+): CommandDefinition[] {
+  return commands
+    .map((cmd) => {
+      const placement = placements[cmd.id];
+      if (!placement) return cmd;
+      return {
+        ...cmd,
+        category: placement.category ?? cmd.category,
+        order: placement.order ?? cmd.order,
+      };
+    })
+    .sort((a, b) => a.order - b.order);
+}
+
 /**
  * Retrieves the built-in commands for a specific category.
  *
- * @param category - The category name (e.g., 'git', 'node', 'python', 'docker')
+ * @param category - The category name (e.g., 'git', 'node', 'rust', 'terraform')
  * @returns Array of CommandDefinition objects for that category, or empty array if not found
  */
 export function getCommandsByCategory(category: string): CommandDefinition[] {
@@ -0,0 +1,106 @@
+/**
+ * CommandCanvas - Fuzzy Search
+ *
+ * Subsequence matching for the command palette: every character of the
+ * query must appear in the text in order, but not necessarily adjacent,
+ * so `gco` matches `git checkout`. Matches score higher when characters
+ * are consecutive, start a word or start the text, and lower the more
+ * text lies between the first and last matched character.
+ *
+ * Matching is case-insensitive.
+ *
+ * This module is shared between main and renderer processes at build time.
+ * It contains only static data and pure functions — no side effects.
+ */
+
+/** A successful match */
+export interface FuzzyMatch {
+  score: number;
+  /** Positions in the text of the matched characters, ascending */
+  indices: number[];
+}
+
+/** Score of every matched character */
+const SCORE_MATCH = 16;
+
+/** Bonus for a character directly after the previous matched one */
+const BONUS_CONSECUTIVE = 12;
+
+/** Bonus for a character at the start of a word (after a separator or a lowercase-uppercase change) */
+const BONUS_WORD_START = 10;
+
+/** Extra bonus when the first query character is the first character of the text */
+const BONUS_TEXT_START = 8;
+
+/** Penalty per unmatched character between the first and last match */
+const PENALTY_GAP = 1;
+
+/** Characters after which a new word starts */
+const SEPARATORS = /[\s\-_./:\\|@=,'"()[\]{}]/;
+
+/**
+ * Match a query against a text.
+ *
+ * The leftmost match is found first, then tightened from its end
+ * backwards, so the matched characters lie as close together as possible.
+ *
+ * @param query - What the user typed; an empty query matches with score 0
+ * @param text - The text to search
+ * @returns The match, or null if the query is not a subsequence of the text
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  if (query === '') return { score: 0, indices: [] };
+
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+
+  // Forward pass: leftmost position where the whole query has matched
+  let qi = 0;
+  let end = -1;
+  for (let ti = 0; ti < t.length; ti++) {
+    if (t[ti] === q[qi]) {
+      qi++;
+      if (qi === q.length) {
+        end = ti;
+        break;
+      }
+    }
+  }
+  if (end === -1) return null;
+
+  // Backward pass: the latest start that still matches up to `end`
+  const indices: number[] = new Array(q.length);
+  qi = q.length - 1;
+  for (let ti = end; ti >= 0 && qi >= 0; ti--) {
+    if (t[ti] === q[qi]) {
+      indices[qi] = ti;
+      qi--;
+    }
+  }
+
+  let score = 0;
+  for (let i = 0; i < indices.length; i++) {
+    const index = indices[i];
+    score += SCORE_MATCH;
+    if (i > 0 && index === indices[i - 1] + 1) {
+      score += BONUS_CONSECUTIVE;
+    }
+    if (isWordStart(text, index)) {
+      score += BONUS_WORD_START;
+    }
+  }
+  if (indices[0] === 0) {
+    score += BONUS_TEXT_START;
+  }
+  score -= (indices[indices.length - 1] - indices[0] + 1 - indices.length) * PENALTY_GAP;
+
+  return { score, indices };
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  const current = text[index];
+  if (SEPARATORS.test(previous)) return true;
+  return previous === previous.toLowerCase() && current !== current.toLowerCase();
+}
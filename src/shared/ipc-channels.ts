@@ -6,10 +6,13 @@ export const IPC_CHANNELS = {
   SHELL_KILL: 'shell:kill',
   SHELL_DATA: 'shell:data',
   SHELL_EXIT: 'shell:exit',
+  SHELL_COMMAND: 'shell:command',
+  SHELL_CWD_CHANGED: 'shell:cwd-changed',
 
   // Warnings
   WARNING_CHECK: 'warning:check',
   WARNING_TRIGGERED: 'warning:triggered',
+  WARNING_PREVIEW: 'warning:preview',
   WARNING_CONFIRM: 'warning:confirm',
   WARNING_CANCEL: 'warning:cancel',
 
@@ -21,6 +24,16 @@ export const IPC_CHANNELS = {
 
   // Project Detection
   PROJECT_DETECT: 'project:detect',
+  PROJECT_CHANGED: 'project:changed',
+  PROJECT_TRUST_COMMANDS: 'project:trust-commands',
+
+  // Command Templates
+  TEMPLATE_CHOICES: 'template:choices',
+
+  // Command Packs
+  PACK_IMPORT: 'pack:import',
+  PACK_APPLY: 'pack:apply',
+  PACK_EXPORT: 'pack:export',
 
   // Animation
   ANIMATION_LOAD_THEME: 'animation:load-theme',
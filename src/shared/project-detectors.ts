@@ -0,0 +1,126 @@
+/**
+ * CommandCanvas - Project Detector Registry
+ *
+ * Declares which marker files identify each project type. The main process
+ * uses the markers for detection; the renderer uses the labels for the
+ * category tabs. Each built-in detector's command pack lives under the same
+ * key in DEFAULT_COMMANDS.
+ *
+ * Teams add their own detectors (with their own commands) through
+ * `projectDetection.detectors` in the config; resolveDetectors() merges
+ * them with the built-in ones.
+ *
+ * This module is shared between main and renderer processes at build time.
+ * It contains only static data and pure functions — no side effects.
+ */
+
+import type { CommandDefinition, ProjectDetectorDefinition } from './types';
+
+/**
+ * Built-in detectors, in category tab order.
+ */
+export const BUILT_IN_DETECTORS: ProjectDetectorDefinition[] = [
+  { type: 'git',        label: 'Git',        markers: ['.git'] },
+  { type: 'node',       label: 'Node',       markers: ['package.json'] },
+  { type: 'python',     label: 'Python',     markers: ['requirements.txt', 'pyproject.toml', 'Pipfile'] },
+  { type: 'docker',     label: 'Docker',     markers: ['Dockerfile'] },
+  { type: 'compose',    label: 'Compose',    markers: ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'] },
+  { type: 'rust',       label: 'Rust',       markers: ['Cargo.toml'] },
+  { type: 'go',         label: 'Go',         markers: ['go.mod'] },
+  { type: 'java',       label: 'Java',       markers: ['pom.xml', 'build.gradle', 'build.gradle.kts'] },
+  { type: 'ruby',       label: 'Ruby',       markers: ['Gemfile'] },
+  { type: 'make',       label: 'Make',       markers: ['GNUmakefile', 'makefile', 'Makefile'] },
+  { type: 'just',       label: 'Just',       markers: ['justfile', 'Justfile', '.justfile'] },
+  { type: 'task',       label: 'Task',       markers: ['Taskfile.yml', 'Taskfile.yaml', 'taskfile.yml', 'taskfile.yaml', 'Taskfile.dist.yml', 'Taskfile.dist.yaml'] },
+  { type: 'terraform',  label: 'Terraform',  markers: ['*.tf'] },
+  { type: 'kubernetes', label: 'Kubernetes', markers: ['kustomization.yaml', 'kustomization.yml', 'Chart.yaml', 'skaffold.yaml', 'k8s', 'kubernetes'] },
+];
+
+/**
+ * Merges the built-in detectors with detectors defined in config.
+ *
+ * Config detectors are validated: entries without a type or markers are
+ * dropped, a missing label falls back to the type, and their commands are
+ * forced into the detector's category. A config detector with the same
+ * type as a built-in one replaces it; new types are appended.
+ *
+ * @param custom - The `projectDetection.detectors` array from config
+ * @returns Detectors in category tab order
+ */
+export function resolveDetectors(custom: unknown): ProjectDetectorDefinition[] {
+  const byType = new Map<string, ProjectDetectorDefinition>();
+  for (const detector of BUILT_IN_DETECTORS) {
+    byType.set(detector.type, detector);
+  }
+
+  for (const entry of Array.isArray(custom) ? custom : []) {
+    const detector = sanitizeDetector(entry);
+    if (detector) {
+      byType.set(detector.type, detector);
+    }
+  }
+
+  return Array.from(byType.values());
+}
+
+/**
+ * Checks whether a file name matches a detector marker.
+ * Markers are exact names, or patterns where '*' matches any run of characters.
+ */
+export function matchesMarker(fileName: string, marker: string): boolean {
+  if (!marker.includes('*')) {
+    return fileName === marker;
+  }
+  const pattern = marker
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`).test(fileName);
+}
+
+/**
+ * Collects the commands contributed by config-defined detectors.
+ */
+export function getDetectorCommands(detectors: ProjectDetectorDefinition[]): CommandDefinition[] {
+  return detectors.flatMap((detector) => detector.commands ?? []);
+}
+
+/**
+ * Validates one config detector entry. Returns null if it is unusable.
+ */
+function sanitizeDetector(entry: unknown): ProjectDetectorDefinition | null {
+  if (!entry || typeof entry !== 'object') {
+    return null;
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const type = typeof raw.type === 'string' ? raw.type.trim() : '';
+  const markers = Array.isArray(raw.markers)
+    ? raw.markers.filter((m): m is string => typeof m === 'string' && m !== '')
+    : [];
+  if (!type || markers.length === 0) {
+    return null;
+  }
+
+  const commands = Array.isArray(raw.commands)
+    ? raw.commands
+        .filter((cmd): cmd is CommandDefinition =>
+          !!cmd && typeof cmd === 'object' &&
+          typeof (cmd as CommandDefinition).id === 'string' &&
+          typeof (cmd as CommandDefinition).command === 'string')
+        .map((cmd, index) => ({
+          ...cmd,
+          name: typeof cmd.name === 'string' ? cmd.name : cmd.id,
+          explanation: typeof cmd.explanation === 'string' ? cmd.explanation : '',
+          category: type,
+          order: typeof cmd.order === 'number' ? cmd.order : index,
+        }))
+    : [];
+
+  return {
+    type,
+    label: typeof raw.label === 'string' && raw.label ? raw.label : type,
+    markers,
+    commands,
+  };
+}
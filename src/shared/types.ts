@@ -8,8 +8,32 @@
 // Project Types
 // ============================================================
 
-/** Project types detected by filesystem marker files */
-export type ProjectType = 'git' | 'node' | 'python' | 'docker';
+/**
+ * Project type reported by a detector; doubles as the command category name.
+ * Built-in detectors report 'git', 'node', 'python', 'docker', 'rust', 'go',
+ * 'java', 'ruby', 'make', 'terraform', 'kubernetes' and 'compose'; detectors
+ * defined in config may report any other name.
+ */
+export type ProjectType = string;
+
+/**
+ * A project detector: the marker files that identify a project type.
+ * Built-in detectors live in shared/project-detectors.ts; teams can add
+ * their own under projectDetection.detectors in the config.
+ */
+export interface ProjectDetectorDefinition {
+  /** Project type and command category name, e.g. 'rust' */
+  type: ProjectType;
+  /** Label for the category tab, e.g. 'Rust' */
+  label: string;
+  /**
+   * File or directory names whose presence marks the project.
+   * A '*' matches any run of characters, e.g. '*.tf'.
+   */
+  markers: string[];
+  /** Commands for this category (config-defined detectors only; built-in packs live in DEFAULT_COMMANDS) */
+  commands?: CommandDefinition[];
+}
 
 /** Maps a marker filename to a project type */
 export interface ProjectMarker {
@@ -17,21 +41,219 @@ export interface ProjectMarker {
   type: ProjectType;
 }
 
+/** A marker file found during detection, with the directory it was found in */
+export interface DetectedMarker extends ProjectMarker {
+  directory: string;
+}
+
+/**
+ * Result of scanning a directory and its ancestors for marker files.
+ * For each marker the nearest directory containing it wins.
+ */
+export interface ProjectDetectionResult {
+  /** The directory detection started from */
+  directory: string;
+  types: ProjectType[];
+  markers: DetectedMarker[];
+  /** Nearest directory holding a marker of each detected type (the project root) */
+  roots: Partial<Record<ProjectType, string>>;
+  /** Details read from the project files, used to adapt the built-in commands */
+  metadata: ProjectMetadata;
+  /** The nearest checked-in command file, if there is one */
+  commandFile: ProjectCommandFile | null;
+}
+
+/** Package managers recognized for Node projects */
+export type NodePackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+/** Package managers recognized for Python projects */
+export type PythonPackageManager = 'pip' | 'poetry' | 'uv' | 'pipenv';
+
+/**
+ * What detection learned from the contents of a project's files, beyond
+ * which markers exist. Each entry is null when that type was not detected.
+ */
+export interface ProjectMetadata {
+  node: NodeProjectInfo | null;
+  python: PythonProjectInfo | null;
+  compose: ComposeProjectInfo | null;
+  /** Targets, recipes and tasks found in Makefiles, justfiles and Taskfiles */
+  tasks: ProjectTask[];
+}
+
+export interface NodeProjectInfo {
+  /** From the package.json "packageManager" field, else the lockfile; 'npm' if neither says */
+  packageManager: NodePackageManager;
+  /** Lockfile name, e.g. 'pnpm-lock.yaml'; may sit in a workspace root above the package */
+  lockfile: string | null;
+  /** The package.json scripts, in file order */
+  scripts: NodeScript[];
+}
+
+/** One entry of the package.json "scripts" object */
+export interface NodeScript {
+  name: string;
+  /** The shell command the script runs, e.g. 'tsc -p .' */
+  body: string;
+}
+
+export interface PythonProjectInfo {
+  /** From the lockfile, else the pyproject.toml tool sections; 'pip' if neither says */
+  packageManager: PythonPackageManager;
+  /** Lockfile name, e.g. 'poetry.lock' */
+  lockfile: string | null;
+}
+
+/** Task runners whose files are parsed for tasks; each is also a command category */
+export type TaskRunner = 'make' | 'just' | 'task';
+
+/** A Makefile target, justfile recipe or Taskfile task */
+export interface ProjectTask {
+  runner: TaskRunner;
+  name: string;
+  /** Help comment or description from the file; empty if it has none */
+  description: string;
+  /** File the task was found in, e.g. 'Makefile' */
+  file: string;
+  /** The task takes arguments without defaults (justfile recipe parameters) */
+  needsArguments: boolean;
+}
+
+export interface ComposeProjectInfo {
+  /** Compose file name, e.g. 'docker-compose.yml' */
+  file: string;
+}
+
 // ============================================================
 // Warning Types
 // ============================================================
 
-/** A warning rule definition (built-in or custom) */
+/**
+ * A warning rule definition (built-in or custom). A rule has a regex
+ * `pattern`, a structured `match`, or both, in which case one command of
+ * the line must satisfy both.
+ */
 export interface WarningRule {
   id: string;
   name: string;
-  pattern: string;
+  /** Regular expression matched case-insensitively against each command of the line */
+  pattern?: string;
+  /** Conditions on a command's parsed program, arguments and working directory */
+  match?: WarningMatcher;
+  /** Context the command must run in for the rule to apply */
+  when?: WarningCondition;
+  /** Context in which the rule does not apply, e.g. paths in a temp directory */
+  unless?: WarningCondition;
+  /**
+   * Read-only command whose output previews what the matched command would
+   * do, e.g. `git clean --dry-run {{args}}`. `{{args}}` is replaced by the
+   * matched command's arguments after the matcher's subcommand and
+   * `{{paths}}` by its path arguments, resolved against the working
+   * directory, each single-quoted. Ignored for project rules, and dropped
+   * from rules imported from a command pack.
+   */
+  preview?: string;
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   description: string;
   recommendation: string;
 }
 
-/** Result returned by the warning engine when a command matches a rule */
+/**
+ * A structured warning rule condition, checked against each command of
+ * the line (and the commands they wrap, e.g. after sudo). Every field
+ * that is set must hold.
+ */
+export interface WarningMatcher {
+  /** Program name without directory, e.g. 'git' */
+  program: string;
+  /**
+   * The first argument that is not a flag, e.g. 'push'; for git, the
+   * value of a global option such as `-C repo` does not count
+   */
+  subcommand?: string;
+  /**
+   * At least one of these flags must be given. `--force` also matches
+   * `--force=…`, and a single-letter flag like `-f` also matches inside
+   * a group such as `-fd`.
+   */
+  flagsAny?: string[];
+  /** None of these flags may be given, e.g. `--force-with-lease` */
+  flagsNone?: string[];
+  /** Regular expression at least one argument must match (case-insensitive) */
+  argMatches?: string;
+  /** Regular expression the session's working directory must match */
+  cwdMatches?: string;
+}
+
+/** A place a command's path arguments can be in, for WarningCondition.paths */
+export type WarningPathScope = 'repo' | 'temp';
+
+/**
+ * A condition on the context a command runs in (see WarningContext).
+ * Every field that is set must hold. A field whose context value is
+ * unknown, e.g. `branch` on a detached HEAD or anything after a `cd` in
+ * the same line, holds in a `when` and does not in an `unless`.
+ */
+export interface WarningCondition {
+  /** Regular expression the current git branch must match */
+  branch?: string;
+  /** Regular expression the URL of the branch's remote must match */
+  remote?: string;
+  /** Regular expression the session's working directory must match */
+  cwd?: string;
+  /** Whether the working directory is inside a git repository */
+  inRepo?: boolean;
+  /**
+   * Every path argument of the command (its arguments that are not flags,
+   * after the matcher's subcommand) must be below one of these: 'repo' is
+   * the git repository around the working directory, 'temp' a temp directory.
+   */
+  paths?: WarningPathScope[];
+  /** Regular expression the session's NODE_ENV must match */
+  nodeEnv?: string;
+  /** Regular expression the current kubectl context must match */
+  kubeContext?: string;
+}
+
+/** What the warning pipeline knows about where a command runs */
+export interface WarningContext {
+  /** The session's working directory */
+  cwd: string | null;
+  /**
+   * Whether cwd was read from the shell process itself rather than from a
+   * report in its output (OSC 7), which any program can fake. An
+   * unverified cwd never makes an `unless` condition hold.
+   */
+  cwdVerified: boolean;
+  /** Top directory of the git repository around cwd, or null outside one */
+  repoRoot: string | null;
+  /** Checked-out git branch; null outside a repository or on a detached HEAD */
+  branch: string | null;
+  /** URL of the branch's remote (origin if it has none), or null */
+  remote: string | null;
+  /** The session's NODE_ENV, or null if unset */
+  nodeEnv: string | null;
+  /** current-context of the session's kubeconfig, or null */
+  kubeContext: string | null;
+  /** Home directory, for `~` in path arguments */
+  home: string;
+}
+
+/** A warning rule that matched a command */
+export interface WarningMatch {
+  ruleId: string;
+  ruleName: string;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  description: string;
+  recommendation: string;
+  /** The rule's preview command for this command; its output follows as a WarningPreviewPayload */
+  preview?: string;
+}
+
+/**
+ * Result returned by the warning engine when a command matches a rule.
+ * The top-level fields describe the highest-risk match.
+ */
 export interface WarningResult {
   warningId: string;
   ruleId: string;
@@ -39,15 +261,33 @@ export interface WarningResult {
   command: string;
   description: string;
   recommendation: string;
+  /** Every matching rule, highest risk first (the first is the one above) */
+  matches: WarningMatch[];
 }
 
 /** Payload sent to the renderer to display a warning overlay */
 export interface WarningDisplayPayload {
   warningId: string;
+  sessionId: string;
   command: string;
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   description: string;
   recommendation: string;
+  /** Every matching rule, highest risk first */
+  matches: WarningMatch[];
+}
+
+/** Output of a preview command, sent after the warning it belongs to */
+export interface WarningPreviewPayload {
+  warningId: string;
+  sessionId: string;
+  /** The preview command, as in WarningMatch.preview */
+  command: string;
+  output: string;
+  /** Whether the output was cut off */
+  truncated: boolean;
+  /** Why the preview failed (exit code, timeout), or null if it succeeded */
+  error: string | null;
 }
 
 // ============================================================
@@ -63,6 +303,115 @@ export interface CommandDefinition {
   category: string;
   animationTrigger?: 'success' | 'error' | null;
   order: number;
+  /** What clicking the command does; unset uses ui.defaultExecution */
+  execution?: CommandExecutionMode;
+  /**
+   * Settings for the `{{name}}` placeholders in `command`. Placeholders
+   * without an entry are optional free-text inputs.
+   */
+  variables?: CommandVariable[];
+}
+
+/**
+ * What happens when a command is picked:
+ * - insert:  typed at the prompt without Enter, so it can be edited first
+ * - run:     typed and Enter pressed
+ * - confirm: shown with its explanation, and run once the user confirms
+ *
+ * Run and confirm send Enter through the warning pipeline like typed input.
+ */
+export type CommandExecutionMode = 'insert' | 'run' | 'confirm';
+
+/**
+ * Where the command panel shows a command, as arranged by the user:
+ * dragged within its category, moved to another category or hidden.
+ * Kept apart from the command itself, so built-in commands can be
+ * arranged without copying them.
+ */
+export interface CommandPlacement {
+  /** Category shown in instead of the command's own */
+  category?: string;
+  /** Order within the category instead of the command's own */
+  order?: number;
+  /** Left out of the command panel and the command palette */
+  hidden?: boolean;
+}
+
+/**
+ * A `{{name}}` placeholder in a command template. Before the command is
+ * inserted, a form asks for a value for each placeholder.
+ */
+export interface CommandVariable {
+  /** Placeholder name, as written between the braces */
+  name: string;
+  /** Form label; defaults to the name */
+  label?: string;
+  /** Initial value in the form */
+  default?: string;
+  /** The command cannot be inserted while this value is empty */
+  required?: boolean;
+  /** Fixed suggestions offered in the form */
+  choices?: string[];
+  /**
+   * Shell command whose output lines are offered as suggestions, run in
+   * the focused shell's working directory, e.g. `git branch --format='%(refname:short)'`
+   */
+  choicesCommand?: string;
+}
+
+/**
+ * A named sequence of commands run one after another in the focused
+ * session, e.g. stash, pull --rebase, stash pop, npm install. Each step
+ * is typed into the shell and the next one starts once shell integration
+ * reports that it finished.
+ */
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  explanation: string;
+  category: string;
+  order: number;
+  steps: WorkflowStep[];
+  /** Stop at the first step that exits non-zero; defaults to true */
+  stopOnFailure?: boolean;
+  /** Ask before each step after the first; defaults to false */
+  confirmSteps?: boolean;
+}
+
+export interface WorkflowStep {
+  command: string;
+  /** Shown in the explanation panel while the step runs */
+  explanation: string;
+}
+
+/**
+ * - pending:  not run yet
+ * - running:  typed into the shell, waiting for it to finish
+ * - success:  exited 0 (or the shell sent no exit code)
+ * - failed:   exited non-zero, or its warning was cancelled
+ * - skipped:  not run because the workflow stopped
+ */
+export type WorkflowStepStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+/**
+ * - running:    a step is running
+ * - confirming: waiting for the user to continue with the next step
+ * - finished:   every step ran (failures included if stopOnFailure is off)
+ * - failed:     a step failed and the workflow stopped
+ * - stopped:    the user stopped the workflow or its session went away
+ */
+export type WorkflowRunState = 'running' | 'confirming' | 'finished' | 'failed' | 'stopped';
+
+/** Payload for the workflow:progress event */
+export interface WorkflowProgress {
+  workflowId: string;
+  name: string;
+  state: WorkflowRunState;
+  /** Index of the running step, or of the next step while confirming */
+  currentStep: number;
+  steps: Array<WorkflowStep & { status: WorkflowStepStatus; exitCode: number | null }>;
+  /** Why the workflow stopped, if not by a step's exit code */
+  message: string | null;
 }
 
 /** Payload for the command:selected event */
@@ -70,6 +419,8 @@ export interface CommandSelectedPayload {
   command: string;
   explanation: string;
   id: string;
+  /** Press Enter after inserting the command */
+  run?: boolean;
 }
 
 /** Payload for explanation panel display */
@@ -78,6 +429,93 @@ export interface CommandExplanation {
   commandId: string;
 }
 
+// ============================================================
+// Command Pack Types
+// ============================================================
+
+/**
+ * A file for sharing commands: custom commands, the user-defined
+ * categories they sit in and warning rules, written as JSON or YAML.
+ */
+export interface CommandPack {
+  /** Pack format version; files from a newer version are refused */
+  version: number;
+  name: string;
+  description: string;
+  commands: CommandDefinition[];
+  categories: CategoryDefinition[];
+  warningRules: WarningRule[];
+}
+
+/** The entry lists of a command pack */
+export type CommandPackSection = 'commands' | 'categories' | 'warningRules';
+
+/** A problem found while reading a command pack file */
+export interface CommandPackError {
+  /** null for problems with the file as a whole */
+  section: CommandPackSection | null;
+  /** Position of the entry in its list */
+  index: number | null;
+  /** The entry's ID, when it has one */
+  id: string | null;
+  message: string;
+}
+
+/** What to do with a pack entry whose ID is already in use */
+export type CommandPackConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+/** One entry of a pack as it would be imported */
+export interface CommandPackEntry {
+  section: CommandPackSection;
+  id: string;
+  /** Command or rule name, or category label */
+  name: string;
+  /** Whether the ID is already used, by a custom or a built-in entry */
+  conflict: 'custom' | 'built-in' | null;
+  /** Built-in categories and warning rules cannot be replaced */
+  canOverwrite: boolean;
+  /** Chosen for conflicting entries; ignored for the others */
+  resolution: CommandPackConflictResolution;
+}
+
+/** A command pack file read for import, for review before it is applied */
+export interface CommandPackPreview {
+  filePath: string;
+  /** The valid entries; null when the file could not be read at all */
+  pack: CommandPack | null;
+  entries: CommandPackEntry[];
+  errors: CommandPackError[];
+}
+
+/** What an import did, by entry count */
+export interface CommandPackImportResult {
+  added: number;
+  overwritten: number;
+  renamed: number;
+  skipped: number;
+}
+
+/** Whether the user approved the current content of a repository command file */
+export type ProjectCommandFileTrust = 'new' | 'changed' | 'approved';
+
+/**
+ * A command pack checked into a repository (.commandcanvas.json or
+ * .commandcanvas/commands.yaml). Its entries are used as a project layer
+ * on top of the global config, but only once the user approved them.
+ */
+export interface ProjectCommandFile {
+  filePath: string;
+  /** The project directory the file was found in; its warning rules apply below it only */
+  directory: string;
+  /** SHA-256 hash of the file content, hex encoded */
+  hash: string;
+  /** 'changed' when a different version of the file was approved before */
+  trust: ProjectCommandFileTrust;
+  /** The valid entries; null when the file could not be read at all */
+  pack: CommandPack | null;
+  errors: CommandPackError[];
+}
+
 // ============================================================
 // Animation Types
 // ============================================================
@@ -112,7 +550,15 @@ export interface AppConfig {
   animation: AnimationConfig;
   warnings: WarningsConfig;
   ui: UIConfig;
+  /** User-defined commands; one with a built-in command's ID replaces it */
   customCommands: CommandDefinition[];
+  /** Placement of built-in and custom commands, by command ID */
+  commandPlacements: Record<string, CommandPlacement>;
+  /** User-defined workflows; one with a built-in workflow's ID replaces it */
+  workflows: WorkflowDefinition[];
+  profiles: ShellProfile[];
+  projectDetection: ProjectDetectionConfig;
+  categories: CategoriesConfig;
 }
 
 export interface ShellConfig {
@@ -120,6 +566,95 @@ export interface ShellConfig {
   defaultCwd: string | null;
   env: Record<string, string>;
   args: string[];
+  /** Load the OSC 133 shell integration script into bash, zsh and fish */
+  shellIntegration: boolean;
+}
+
+/**
+ * Phase of a command reported by shell integration (OSC 133):
+ * - prompt: the shell started drawing its prompt (A)
+ * - input:  the prompt is drawn and the user is typing (B)
+ * - start:  the command line was accepted and is running (C)
+ * - finish: the command finished (D)
+ */
+export type ShellCommandPhase = 'prompt' | 'input' | 'start' | 'finish';
+
+export interface ShellCommandEvent {
+  sessionId: string;
+  phase: ShellCommandPhase;
+  /** 'finish' only: the command's exit code, or null if the shell sent none */
+  exitCode: number | null;
+  /** 'finish' only: milliseconds since the matching 'start', or null if unknown */
+  durationMs: number | null;
+}
+
+/**
+ * A named shell profile the user can pick when opening a session
+ * (e.g. "bash login", "python REPL"). Unset fields inherit from ShellConfig.
+ */
+export interface ShellProfile {
+  id: string;
+  name: string;
+  /** Shell binary; null inherits shell.defaultShell */
+  shell: string | null;
+  /** Arguments; when empty and `shell` is null, shell.args are used */
+  args: string[];
+  /** Extra environment variables, applied on top of shell.env */
+  env: Record<string, string>;
+  /** Starting directory; null inherits shell.defaultCwd */
+  cwd: string | null;
+  /** Colors overriding ui.terminalTheme in this profile's terminals */
+  terminalTheme: Partial<TerminalThemeConfig> | null;
+  /** Command panel category to show when this profile's terminal is focused */
+  defaultCategory: string | null;
+}
+
+export interface ProjectDetectionConfig {
+  /**
+   * Directories where the upward search for marker files stops, after
+   * checking them. A leading '~' means the home directory. The filesystem
+   * root is always a boundary.
+   */
+  boundaries: string[];
+  /**
+   * Additional detectors. One with the same type as a built-in detector
+   * replaces its markers and label.
+   */
+  detectors: ProjectDetectorDefinition[];
+  /**
+   * Repository command files the user approved, by path, with the SHA-256
+   * hash of the content they approved. A file whose hash differs must be
+   * approved again before its entries are used.
+   */
+  trustedCommandFiles: Record<string, string>;
+}
+
+export interface CategoriesConfig {
+  /** Categories created by the user, in tab order after the project categories */
+  userDefined: CategoryDefinition[];
+  /**
+   * Categories whose tab is always shown. Other project categories appear
+   * when their project type is detected, and user-defined ones with their
+   * projectType.
+   */
+  alwaysVisible: string[];
+}
+
+/**
+ * A command category created by the user. Commands and workflows join it
+ * by using its ID as their category.
+ */
+export interface CategoryDefinition {
+  /** 'category-<timestamp>' */
+  id: string;
+  /** Tab label */
+  label: string;
+  /** Tab color, any CSS color; null uses the theme's */
+  color: string | null;
+  /** Short text, e.g. an emoji, shown before the label */
+  icon: string | null;
+  /** Show the tab while this project type is detected, when not always visible */
+  projectType: string | null;
 }
 
 export interface AnimationConfig {
@@ -142,8 +677,32 @@ export interface UIConfig {
   terminalFontSize: number;
   terminalFontFamily: string;
   terminalTheme: TerminalThemeConfig;
+  /** Saved pane layout of each terminal tab, restored on launch */
+  paneLayouts: PaneLayout[];
+  /** IDs of the most recently used commands, most recent first; ranks them higher in the command palette */
+  recentCommandIds: string[];
+  /** Execution mode of commands that do not set their own */
+  defaultExecution: CommandExecutionMode;
 }
 
+/**
+ * Direction of a pane split, following the divider's orientation:
+ * 'vertical' places the panes side by side, 'horizontal' stacks them.
+ */
+export type PaneSplitDirection = 'horizontal' | 'vertical';
+
+/** A terminal tab's pane tree. Every 'pane' leaf is backed by its own shell session. */
+export type PaneLayout =
+  | { type: 'pane'; profileId?: string }
+  | {
+      type: 'split';
+      direction: PaneSplitDirection;
+      /** Fraction of the space given to `first` (0-1) */
+      ratio: number;
+      first: PaneLayout;
+      second: PaneLayout;
+    };
+
 export interface TerminalThemeConfig {
   background: string;
   foreground: string;
@@ -190,4 +749,13 @@ export interface IpcDependencies {
 export interface PendingCommand {
   warningId: string;
   pendingData: string;
+  /** Aborted once the warning is resolved, killing its running previews */
+  previews: AbortController;
+}
+
+/** Per-session input state tracked by the warning pipeline */
+export interface SessionInputState {
+  lineBuffer: string;
+  inEscapeSequence: boolean;
+  pendingCommands: Map<string, PendingCommand>;
 }